@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn(() => ({
+    footprintLedgerEnabled: true,
+    dbPath: ":memory:",
+  })),
+  isWalletConfigured: vi.fn(() => true),
+}));
+
+vi.mock("../services/wallet.js", () => ({
+  getBalance: vi.fn(async () => 1_000_000_000n),
+}));
+
+vi.mock("../services/retirement.js", () => ({
+  executeRetirement: vi.fn(async (params: { quantity: number }) => ({
+    status: "success",
+    txHash: "ABC123",
+    creditsRetired: String(params.quantity),
+    batches: [{ batchDenom: "C01-001-2020-2021-001", quantity: String(params.quantity) }],
+    costUsd: params.quantity * 40,
+  })),
+}));
+
+// 40 USDC per credit
+vi.mock("../services/order-selector.js", () => ({
+  selectOrdersForScope: vi.fn(async (_scope: unknown, quantity: number) => ({
+    orders: [{ sellOrderId: "1", batchDenom: "C01-001", quantity: String(quantity), askAmount: "0", askDenom: "ibc/USDC", costMicro: 0n }],
+    totalQuantity: quantity.toFixed(6),
+    totalCostMicro: BigInt(Math.round(quantity * 40 * 1_000_000)),
+    paymentDenom: "ibc/USDC",
+    displayDenom: "USDC",
+    exponent: 6,
+    insufficientSupply: false,
+    costUsd: quantity * 40,
+    rates: [{ bankDenom: "ibc/USDC", displayDenom: "USDC", exponent: 6, usdPerUnit: 1, source: "static" }],
+  })),
+}));
+
+import { getDb } from "../server/db.js";
+import { estimateFootprint } from "../services/estimator.js";
+import { recordEstimate, buildFootprintReport } from "../services/footprint-ledger.js";
+import { evaluatePolicy, periodStart, type AutoRetirePolicy } from "../services/auto-retire.js";
+import { executeRetirement } from "../services/retirement.js";
+
+function policy(overrides: Partial<AutoRetirePolicy> = {}): AutoRetirePolicy {
+  return {
+    id: "test",
+    enabled: true,
+    trigger: { uncovered_tonnes_above: 0.001 },
+    spend_cap_usd: 10,
+    cap_period: "month",
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  const db = getDb(":memory:");
+  db.exec("DELETE FROM footprint_sessions; DELETE FROM footprint_retirements;");
+  vi.mocked(executeRetirement).mockClear();
+  // 1000 minutes at the default grid factor: 15 kWh, 6 kg CO2
+  recordEstimate(estimateFootprint(1000));
+});
+
+describe("auto-retire policies", () => {
+  it("does not trigger below the threshold", async () => {
+    const result = await evaluatePolicy(policy({ trigger: { uncovered_tonnes_above: 1 } }), { dryRun: true });
+    expect(result.outcome).toBe("not_triggered");
+    expect(result.uncoveredTonnes).toBeCloseTo(0.006, 6);
+  });
+
+  it("previews the full uncovered amount in a dry run", async () => {
+    const result = await evaluatePolicy(policy(), { dryRun: true });
+    expect(result.outcome).toBe("would_retire");
+    expect(result.triggeredBy).toEqual(["threshold"]);
+    expect(result.quantity).toBeCloseTo(0.006, 6);
+    expect(result.estimatedCostUsd).toBe(0.24);
+    expect(executeRetirement).not.toHaveBeenCalled();
+  });
+
+  it("trims the quantity to the remaining spend cap and records the retirement", async () => {
+    const result = await evaluatePolicy(policy({ spend_cap_usd: 0.1 }), { dryRun: false });
+    expect(result.outcome).toBe("retired");
+    expect(result.quantity).toBeCloseTo(0.0025, 6);
+    expect(vi.mocked(executeRetirement).mock.calls[0][0]).toMatchObject({ allowedClasses: undefined, maxCostUsd: 0.1 });
+
+    const report = buildFootprintReport("day");
+    expect(report.totals.co2TonnesCovered).toBeCloseTo(0.0025, 6);
+
+    const again = await evaluatePolicy(policy({ spend_cap_usd: 0.1 }), { dryRun: false });
+    expect(again.outcome).toBe("cap_reached");
+    expect(again.spentThisPeriodUsd).toBe(0.1);
+  });
+
+  it("records what the retirement actually cost", async () => {
+    vi.mocked(executeRetirement).mockResolvedValueOnce({
+      status: "success",
+      txHash: "DEF456",
+      creditsRetired: "0.006",
+      batches: [{ batchDenom: "C01-001-2020-2021-001", quantity: "0.006" }],
+      costUsd: 0.3,
+    });
+
+    const result = await evaluatePolicy(policy(), { dryRun: false });
+    expect(result.estimatedCostUsd).toBe(0.24);
+    expect(result.costUsd).toBe(0.3);
+
+    const again = await evaluatePolicy(policy({ trigger: { weekday: "friday" } }), { dryRun: true });
+    expect(again.spentThisPeriodUsd).toBe(0.3);
+  });
+
+  it("counts a tagged policy's retirements towards its project only", async () => {
+    recordEstimate(estimateFootprint(1000), { projectTag: "web" });
+
+    const result = await evaluatePolicy(policy({ project_tag: "web" }), { dryRun: false });
+    expect(result.outcome).toBe("retired");
+    expect(result.quantity).toBeCloseTo(0.006, 6);
+
+    expect(buildFootprintReport("day", { projectTag: "web" }).totals.co2TonnesUncovered).toBe(0);
+    expect(buildFootprintReport("day", { projectTag: "api" }).totals.co2TonnesCovered).toBe(0);
+    expect(buildFootprintReport("day").totals.co2TonnesCovered).toBeCloseTo(0.006, 6);
+  });
+
+  it("fires on the scheduled weekday once per day", async () => {
+    const friday = new Date("2026-10-16T12:00:00Z");
+    const scheduled = policy({ trigger: { weekday: "friday" } });
+
+    const first = await evaluatePolicy(scheduled, { dryRun: false, now: friday });
+    expect(first.triggeredBy).toEqual(["schedule"]);
+    expect(first.outcome).toBe("retired");
+
+    const second = await evaluatePolicy(scheduled, { dryRun: false, now: friday });
+    expect(second.outcome).toBe("not_triggered");
+  });
+
+  it("starts weeks on Monday", () => {
+    expect(periodStart("week", new Date("2026-10-18T23:00:00Z")).toISOString()).toBe("2026-10-12T00:00:00.000Z");
+    expect(periodStart("month", new Date("2026-10-18T23:00:00Z")).toISOString()).toBe("2026-10-01T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn(() => ({ cacheEnabled: false, basketRoutes: ["eco.uC.NCT"] })),
+}));
+
+vi.mock("../services/ledger.js", () => ({
+  listBaskets: vi.fn(async () => [
+    {
+      basket_denom: "eco.uC.NCT",
+      name: "NCT",
+      credit_type_abbrev: "C",
+      disable_auto_retire: false,
+      exponent: 6,
+      curator: "regen1curator",
+      date_criteria: { years_in_the_past: 10 },
+    },
+    {
+      basket_denom: "eco.uC.OLD",
+      name: "OLD",
+      credit_type_abbrev: "C",
+      disable_auto_retire: false,
+      exponent: 6,
+      curator: "regen1curator",
+      date_criteria: null,
+    },
+  ]),
+  getBasketClasses: vi.fn(async () => ["C01", "C02"]),
+  listBasketBalances: vi.fn(async () => [
+    { batch_denom: "C01-001-20150101-20151231-001", balance: "2", batch_start_date: "2015-01-01T00:00:00Z" },
+    { batch_denom: "C02-001-20180101-20181231-001", balance: "50", batch_start_date: "2018-01-01T00:00:00Z" },
+  ]),
+  listCreditTypes: vi.fn(async () => [{ abbreviation: "C", name: "carbon", unit: "metric ton CO2 equivalent", precision: 6 }]),
+}));
+
+vi.mock("../services/wallet.js", () => ({
+  getBalance: vi.fn(),
+  signAndBroadcast: vi.fn(async () => ({ code: 0, transactionHash: "TAKE", height: 7 })),
+}));
+
+vi.mock("../services/order-selector.js", () => ({
+  selectAcrossDenoms: vi.fn(async () => ({
+    orders: [
+      {
+        sellOrderId: "11",
+        batchDenom: "C01-002-20200101-20201231-001",
+        quantity: "1.500000",
+        askAmount: "2000000",
+        askDenom: "uregen",
+        costMicro: 3_000_000n,
+      },
+    ],
+    totalQuantity: "1.500000",
+    totalCostMicro: 3_000_000n,
+    paymentDenom: "uregen",
+    displayDenom: "REGEN",
+    exponent: 6,
+    insufficientSupply: false,
+  })),
+}));
+
+vi.mock("../services/procurement-policy.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/procurement-policy.js")>()),
+  getPolicyScreen: vi.fn(async () => null),
+}));
+
+import { minVintageStart, predictTake, planBasketRetirement, executeBasketTake } from "../services/basket.js";
+import { getPolicyScreen, type PolicyScreen } from "../services/procurement-policy.js";
+import { getBalance, signAndBroadcast } from "../services/wallet.js";
+import { selectAcrossDenoms } from "../services/order-selector.js";
+
+describe("minVintageStart", () => {
+  const now = new Date("2026-06-15T00:00:00Z");
+
+  it("converts each kind of date criteria to a YYYYMMDD floor", () => {
+    expect(minVintageStart({ min_start_date: "2012-03-01T00:00:00Z" }, now)).toBe("20120301");
+    expect(minVintageStart({ start_date_window: "86400s" }, now)).toBe("20260614");
+    expect(minVintageStart({ years_in_the_past: 10 }, now)).toBe("20160101");
+    expect(minVintageStart(null, now)).toBeUndefined();
+  });
+});
+
+describe("predictTake", () => {
+  it("draws exact units from the oldest batches first", () => {
+    const contents = [
+      { batchDenom: "C02-001-20180101-20181231-001", startDate: "20180101", quantity: 200_000n },
+      { batchDenom: "C01-001-20150101-20151231-001", startDate: "20150101", quantity: 100_000n },
+    ];
+
+    expect(predictTake(contents, 300_000n, 6)).toEqual([
+      { batchDenom: "C01-001-20150101-20151231-001", quantity: "0.100000" },
+      { batchDenom: "C02-001-20180101-20181231-001", quantity: "0.200000" },
+    ]);
+    expect(predictTake(contents, 100_001n, 6)).toEqual([
+      { batchDenom: "C01-001-20150101-20151231-001", quantity: "0.100000" },
+      { batchDenom: "C02-001-20180101-20181231-001", quantity: "0.000001" },
+    ]);
+  });
+});
+
+describe("planBasketRetirement", () => {
+  beforeEach(() => {
+    vi.mocked(selectAcrossDenoms).mockClear();
+    vi.mocked(signAndBroadcast).mockClear();
+  });
+
+  it("prefers a basket the wallet already holds tokens for", async () => {
+    vi.mocked(getBalance).mockImplementation(async (denom) => (denom === "eco.uC.OLD" ? 5_000_000n : 0n));
+
+    const { plan } = await planBasketRetirement(3, { creditType: "carbon" });
+
+    expect(plan?.basket.basket_denom).toBe("eco.uC.OLD");
+    expect(plan?.takeAmount).toBe(3_000_000n);
+    expect(plan?.purchase).toBeNull();
+    expect(plan?.batches).toEqual([
+      { batchDenom: "C01-001-20150101-20151231-001", quantity: "2.000000" },
+      { batchDenom: "C02-001-20180101-20181231-001", quantity: "1.000000" },
+    ]);
+  });
+
+  it("buys the shortfall through a configured route", async () => {
+    vi.mocked(getBalance).mockResolvedValue(500_000n);
+
+    const { plan } = await planBasketRetirement(2, { basketDenom: "eco.uC.NCT" });
+
+    expect(plan?.heldAmount).toBe(500_000n);
+    const [, quantity, abbrevs, classes, options] = vi.mocked(selectAcrossDenoms).mock.calls[0];
+    expect(quantity).toBe(1.5);
+    expect(abbrevs).toEqual(["C"]);
+    expect(classes).toEqual(["C01", "C02"]);
+    expect(options).toMatchObject({ tradable: true, balanceOf: getBalance });
+    expect(options?.minVintageStart).toMatch(/^\d{4}0101$/);
+
+    await executeBasketTake("regen1me", plan!, "US", "offset");
+    const msgs = vi.mocked(signAndBroadcast).mock.calls[0][0];
+    expect(msgs.map((m) => m.typeUrl)).toEqual([
+      "/regen.ecocredit.marketplace.v1.MsgBuyDirect",
+      "/regen.ecocredit.basket.v1.MsgPut",
+      "/regen.ecocredit.basket.v1.MsgTake",
+    ]);
+    expect(msgs[2].value).toMatchObject({ amount: "2000000", retireOnTake: true, retirementJurisdiction: "US" });
+  });
+
+  it("passes over a basket whose take would retire an excluded batch", async () => {
+    vi.mocked(getBalance).mockResolvedValue(5_000_000n);
+    vi.mocked(getPolicyScreen).mockResolvedValueOnce({
+      batchReason: (denom: string) => (denom.includes("-2015") ? "vintage 2015 is before 2018" : null),
+    } as PolicyScreen);
+
+    const result = await planBasketRetirement(1, { basketDenom: "eco.uC.OLD" });
+
+    expect(result.plan).toBeNull();
+    expect("message" in result && result.message).toMatch(/A take from OLD would retire its oldest credits/);
+    expect("blocked" in result && result.blocked).toEqual([
+      { batchDenom: "C01-001-20150101-20151231-001", reason: "vintage 2015 is before 2018" },
+    ]);
+  });
+
+  it("explains when a basket has no route and too few tokens", async () => {
+    vi.mocked(getBalance).mockResolvedValue(0n);
+
+    const result = await planBasketRetirement(1, { basketDenom: "eco.uC.OLD" });
+
+    expect(result.plan).toBeNull();
+    expect("message" in result && result.message).toMatch(/no purchase route in REGEN_BASKET_ROUTES/);
+    expect(selectAcrossDenoms).not.toHaveBeenCalled();
+  });
+
+  it("gives every basket's reason when none can serve the retirement", async () => {
+    vi.mocked(getBalance).mockResolvedValue(0n);
+    vi.mocked(selectAcrossDenoms).mockResolvedValueOnce({
+      orders: [],
+      totalQuantity: "0",
+      totalCostMicro: 0n,
+      paymentDenom: "uregen",
+      displayDenom: "REGEN",
+      exponent: 6,
+      insufficientSupply: true,
+    });
+
+    const result = await planBasketRetirement(1, { creditType: "carbon" });
+
+    expect(result.plan).toBeNull();
+    const message = "message" in result ? result.message : "";
+    expect(message).toMatch(/^No basket can serve 1 credits\./);
+    expect(message).toMatch(/eligible for NCT are for sale/);
+    expect(message).toMatch(/eco\.uC\.OLD has no purchase route/);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn(() => ({
+    cacheEnabled: true,
+    cachePersist: true,
+    cacheTtlOverridesMs: {},
+    dbPath: ":memory:",
+  })),
+}));
+
+import { cached, invalidateMarketData, clearCache } from "../services/cache.js";
+import { getDb, getCacheEntry } from "../server/db.js";
+
+const db = getDb(":memory:");
+
+describe("data cache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clearCache();
+    db.exec("DELETE FROM cache_entries;");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves fresh entries without reloading", async () => {
+    const loader = vi.fn(async () => ["order-1"]);
+
+    await cached("sell_orders", "all", loader);
+    await expect(cached("sell_orders", "all", loader)).resolves.toEqual(["order-1"]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves stale entries while revalidating in the background", async () => {
+    const loader = vi.fn().mockResolvedValueOnce(["old"]).mockResolvedValueOnce(["new"]);
+    await cached("sell_orders", "all", loader);
+
+    vi.advanceTimersByTime(45_000); // past the 30s TTL, within the stale window
+    await expect(cached("sell_orders", "all", loader)).resolves.toEqual(["old"]);
+    await vi.waitFor(() => expect(loader).toHaveBeenCalledTimes(2));
+    await expect(cached("sell_orders", "all", loader)).resolves.toEqual(["new"]);
+  });
+
+  it("reloads once the stale window has passed", async () => {
+    const loader = vi.fn().mockResolvedValueOnce(["old"]).mockResolvedValueOnce(["new"]);
+    await cached("sell_orders", "all", loader);
+
+    vi.advanceTimersByTime(61_000);
+    await expect(cached("sell_orders", "all", loader)).resolves.toEqual(["new"]);
+  });
+
+  it("invalidates market data after a retirement, keeping class data", async () => {
+    const orders = vi.fn(async () => ["order"]);
+    const classes = vi.fn(async () => ["C01"]);
+    await cached("sell_orders", "all", orders);
+    await cached("credit_classes", "all", classes);
+
+    invalidateMarketData();
+    await cached("sell_orders", "all", orders);
+    await cached("credit_classes", "all", classes);
+
+    expect(orders).toHaveBeenCalledTimes(2);
+    expect(classes).toHaveBeenCalledTimes(1);
+  });
+
+  it("persists entries to SQLite and reads them back after a restart", async () => {
+    await cached("credit_classes", "all", async () => [{ id: "C01" }]);
+    expect(getCacheEntry(db, "credit_classes:all")?.value).toBe('[{"id":"C01"}]');
+
+    clearCache();
+    const loader = vi.fn(async () => []);
+    await expect(cached("credit_classes", "all", loader)).resolves.toEqual([{ id: "C01" }]);
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it("does not store values rejected by shouldCache", async () => {
+    const loader = vi.fn(async () => null);
+    await cached("retirement", "tx", loader, (r) => r !== null);
+    await cached("retirement", "tx", loader, (r) => r !== null);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../services/ledger.js", () => ({
+  listSellOrders: vi.fn(),
+  listCreditClasses: vi.fn(async () => [{ id: "C01", credit_type_abbrev: "C" }]),
+  listCreditTypes: vi.fn(async () => [
+    { abbreviation: "C", name: "carbon", unit: "metric ton CO2 equivalent", precision: 6 },
+  ]),
+  listBatches: vi.fn(async () => []),
+  getAllowedDenoms: vi.fn(async () => [{ bank_denom: "uregen", display_denom: "REGEN", exponent: 6 }]),
+}));
+
+import {
+  parseUnits,
+  formatUnits,
+  unitsToNumber,
+  costOf,
+  affordableQuantity,
+  centsToTokenUnits,
+  tokenUnitsToCents,
+} from "../services/decimal.js";
+import { selectBestOrders } from "../services/order-selector.js";
+import { listSellOrders } from "../services/ledger.js";
+
+/** Deterministic PRNG (mulberry32) so property failures reproduce */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBigInt(random: () => number, max: number): bigint {
+  return BigInt(Math.floor(random() * max));
+}
+
+const RUNS = 2000;
+
+describe("parseUnits / formatUnits", () => {
+  it("parses decimal strings and numbers exactly", () => {
+    expect(parseUnits("12.5", 6)).toBe(12_500_000n);
+    expect(parseUnits(".25", 2)).toBe(25n);
+    expect(parseUnits(0.1, 6)).toBe(100_000n);
+    expect(parseUnits(1e-7, 7)).toBe(1n);
+    expect(parseUnits(1e21, 0)).toBe(10n ** 21n);
+    expect(parseUnits("1.0000001", 6)).toBe(1_000_000n);
+    expect(parseUnits("1.0000001", 6, "ceil")).toBe(1_000_001n);
+    expect(() => parseUnits("-1", 6)).toThrow(RangeError);
+    expect(() => parseUnits("1e5", 6)).toThrow(RangeError);
+    expect(() => parseUnits(Number.NaN, 6)).toThrow(RangeError);
+  });
+
+  it("formats with trimmed or fixed fraction digits", () => {
+    expect(formatUnits(2_000_000n, 6)).toBe("2");
+    expect(formatUnits(2_000_000n, 6, 6)).toBe("2.000000");
+    expect(formatUnits(1_500n, 6)).toBe("0.0015");
+    expect(formatUnits(7n, 0)).toBe("7");
+  });
+
+  it("round-trips any amount at any scale", () => {
+    const random = seededRandom(1);
+    for (let i = 0; i < RUNS; i++) {
+      const scale = Math.floor(random() * 19);
+      const units = randomBigInt(random, 1e15) * randomBigInt(random, 1e6);
+      expect(parseUnits(formatUnits(units, scale), scale)).toBe(units);
+      expect(parseUnits(formatUnits(units, scale, scale), scale)).toBe(units);
+    }
+  });
+});
+
+describe("rounding never overspends", () => {
+  it("costOf covers the exact cost by less than one base unit", () => {
+    const random = seededRandom(2);
+    for (let i = 0; i < RUNS; i++) {
+      const precision = Math.floor(random() * 9);
+      const quantity = randomBigInt(random, 1e12);
+      const price = randomBigInt(random, 1e10) + 1n;
+      const exact = quantity * price;
+      const scaled = costOf(quantity, precision, price) * 10n ** BigInt(precision);
+      expect(scaled >= exact).toBe(true);
+      expect(scaled - exact < 10n ** BigInt(precision)).toBe(true);
+    }
+  });
+
+  it("affordableQuantity is the most a budget buys", () => {
+    const random = seededRandom(3);
+    for (let i = 0; i < RUNS; i++) {
+      const precision = Math.floor(random() * 9);
+      const budget = randomBigInt(random, 1e13);
+      const price = randomBigInt(random, 1e10) + 1n;
+      const quantity = affordableQuantity(budget, precision, price);
+      expect(costOf(quantity, precision, price) <= budget).toBe(true);
+      expect(costOf(quantity + 1n, precision, price) > budget).toBe(true);
+    }
+  });
+
+  it("charges whole cents that cover the amount and budgets that fit the cents", () => {
+    const random = seededRandom(4);
+    for (let i = 0; i < RUNS; i++) {
+      const exponent = 2 + Math.floor(random() * 17);
+      const price = Number((random() * 10 + 0.0001).toFixed(6));
+      const amount = randomBigInt(random, 1e12);
+      const cents = tokenUnitsToCents(amount, price, exponent);
+      expect(centsToTokenUnits(cents, price, exponent) >= amount).toBe(true);
+      expect(cents === 0 || centsToTokenUnits(cents - 1, price, exponent) < amount).toBe(true);
+      expect(tokenUnitsToCents(centsToTokenUnits(cents, price, exponent), price, exponent) <= cents).toBe(true);
+    }
+  });
+
+  it("buys no more tokens than a cent allocation pays for", () => {
+    const random = seededRandom(5);
+    for (let i = 0; i < RUNS; i++) {
+      const cents = Math.floor(random() * 1e7);
+      const price = Number((random() * 10 + 0.0001).toFixed(6));
+      const units = centsToTokenUnits(cents, price, 6);
+      // units * price (USD, at 10^-6 per unit) must not exceed the allocation
+      const priceMicroUsd = parseUnits(price, 6);
+      expect(units * priceMicroUsd <= BigInt(cents) * 10n ** 10n).toBe(true);
+      expect((units + 1n) * priceMicroUsd > BigInt(cents) * 10n ** 10n).toBe(true);
+    }
+  });
+});
+
+describe("selectBestOrders never overspends", () => {
+  it("fills exact quantities, covers each order's cost, and stays within budget", async () => {
+    const random = seededRandom(6);
+    for (let i = 0; i < 300; i++) {
+      const book = Array.from({ length: 1 + Math.floor(random() * 8) }, (_, n) => ({
+        id: String(n + 1),
+        seller: "regen1seller",
+        batch_denom: `C01-00${n % 3}-20200101-20201231-001`,
+        quantity: formatUnits(randomBigInt(random, 50_000_000) + 1n, 6),
+        ask_denom: "uregen",
+        ask_amount: String(randomBigInt(random, 40_000_000) + 1n),
+        disable_auto_retire: false,
+        expiration: null,
+      }));
+      vi.mocked(listSellOrders).mockResolvedValue(book);
+      const requested = randomBigInt(random, 200_000_000) + 1n;
+      const budgetMicro = random() < 0.5 ? randomBigInt(random, 2e15) : undefined;
+
+      const selection = await selectBestOrders(undefined, unitsToNumber(requested, 6), undefined, undefined, undefined, {
+        budgetMicro,
+      });
+
+      const total = parseUnits(selection.totalQuantity, 6);
+      let summed = 0n;
+      let cost = 0n;
+      for (const o of selection.orders) {
+        const quantity = parseUnits(o.quantity, 6);
+        const listed = book.find((b) => b.id === o.sellOrderId)!;
+        expect(quantity <= parseUnits(listed.quantity, 6)).toBe(true);
+        const exact = quantity * BigInt(o.askAmount);
+        expect(o.costMicro * 1_000_000n >= exact).toBe(true);
+        expect(o.costMicro * 1_000_000n - exact < 1_000_000n).toBe(true);
+        summed += quantity;
+        cost += o.costMicro;
+      }
+      expect(summed).toBe(total);
+      expect(cost).toBe(selection.totalCostMicro);
+      expect(total <= requested).toBe(true);
+      if (budgetMicro !== undefined) expect(cost <= budgetMicro).toBe(true);
+      if (!selection.insufficientSupply) expect(total).toBe(requested);
+    }
+  });
+});
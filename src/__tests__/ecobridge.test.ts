@@ -423,7 +423,8 @@ describe("ecobridge", () => {
     });
 
     it("throws on API error", async () => {
-      mockFetch.mockResolvedValueOnce({
+      // Persistent outage: 5xx responses are retried before the error surfaces
+      mockFetch.mockResolvedValue({
         ok: false,
         status: 500,
         statusText: "Internal Server Error",
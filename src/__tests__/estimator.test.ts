@@ -0,0 +1,258 @@
+import { describe, it, expect } from "vitest";
+import { estimateFootprint, estimateTokenEnergy } from "../services/estimator.js";
+import {
+  resolveModelFamily,
+  MODEL_ENERGY_TABLE,
+  ENERGY_TABLE_VERSION,
+  getEnergyTable,
+} from "../services/model-energy.js";
+import { resolveGridIntensity } from "../services/grid-intensity.js";
+import { getUncertaintyRanges } from "../services/footprint-uncertainty.js";
+import {
+  CURRENT_METHODOLOGY_ID,
+  getMethodology,
+  listMethodologies,
+} from "../services/methodology.js";
+
+describe("estimator", () => {
+  describe("duration basis", () => {
+    it("falls back to the session-minutes heuristic without token data", () => {
+      const estimate = estimateFootprint(30);
+
+      expect(estimate.basis).toBe("duration");
+      expect(estimate.estimated_queries).toBe(45); // 30 min * 1.5 queries/min
+      expect(estimate.energy_kwh).toBeCloseTo(0.45, 4);
+      expect(estimate.model_breakdown).toBeUndefined();
+      expect(estimate.energy_table_version).toBeUndefined();
+    });
+
+    it("uses tool calls as a floor on query count", () => {
+      const estimate = estimateFootprint(10, 40);
+      expect(estimate.estimated_queries).toBe(80);
+    });
+
+    it("ignores usage entries that carry no tokens", () => {
+      const estimate = estimateFootprint(30, undefined, {
+        usage: [{ model: "claude-sonnet-4", input_tokens: 0, output_tokens: 0 }],
+      });
+      expect(estimate.basis).toBe("duration");
+    });
+  });
+
+  describe("token basis", () => {
+    it("computes energy from per-family factors", () => {
+      const estimate = estimateFootprint(0, undefined, {
+        usage: [{ model: "claude-sonnet-4", input_tokens: 10_000, output_tokens: 2_000, cached_tokens: 50_000 }],
+      });
+
+      const large = MODEL_ENERGY_TABLE.large;
+      const expected =
+        10 * large.kwh_per_1k_input + 2 * large.kwh_per_1k_output + 50 * large.kwh_per_1k_cached;
+
+      expect(estimate.basis).toBe("tokens");
+      expect(estimate.energy_kwh).toBeCloseTo(expected, 4);
+      expect(estimate.energy_table_version).toBe(ENERGY_TABLE_VERSION);
+      expect(estimate.model_breakdown).toHaveLength(1);
+      expect(estimate.model_breakdown![0].family).toBe("large");
+    });
+
+    it("sums energy across models of different families", () => {
+      const breakdown = estimateTokenEnergy([
+        { model: "claude-3-5-haiku", input_tokens: 1_000, output_tokens: 1_000 },
+        { model: "claude-opus-4", input_tokens: 1_000, output_tokens: 1_000 },
+      ]);
+
+      expect(breakdown[0].family).toBe("small");
+      expect(breakdown[1].family).toBe("frontier");
+      expect(breakdown[1].energy_kwh).toBeGreaterThan(breakdown[0].energy_kwh);
+    });
+
+    it("derives CO2 and credits from token energy", () => {
+      const estimate = estimateFootprint(5, undefined, {
+        usage: [{ model: "gpt-4o", input_tokens: 1_000_000, output_tokens: 200_000 }],
+      });
+      expect(estimate.co2_kg).toBeCloseTo(estimate.energy_kwh * 0.4, 2);
+      expect(estimate.session_minutes).toBe(5);
+    });
+  });
+
+  describe("resolveModelFamily", () => {
+    it.each([
+      ["claude-3-5-haiku-20241022", "small"],
+      ["gpt-4o-mini", "small"],
+      ["gemini-2.0-flash", "small"],
+      ["llama-3.1-70b-instruct", "medium"],
+      ["mixtral-8x7b", "medium"],
+      ["claude-sonnet-4-5", "large"],
+      ["gpt-4o", "large"],
+      ["gemini-1.5-pro", "large"],
+      ["claude-opus-4-1", "frontier"],
+      ["gpt-4-turbo", "frontier"],
+      ["o1-preview", "frontier"],
+      ["some-unknown-model", "large"],
+    ])("maps %s to %s", (model, family) => {
+      expect(resolveModelFamily(model)).toBe(family);
+    });
+  });
+
+  describe("grid intensity", () => {
+    it("uses the global average when no region is given", () => {
+      const estimate = estimateFootprint(30);
+      expect(estimate.grid_intensity.region).toBe("GLOBAL");
+      expect(estimate.grid_intensity.kg_co2_per_kwh).toBe(0.4);
+      expect(estimate.co2_kg).toBeCloseTo(0.18, 3);
+    });
+
+    it("applies a regional factor and reports its source", () => {
+      const estimate = estimateFootprint(30, undefined, { region: "FR" });
+      expect(estimate.grid_intensity.region).toBe("FR");
+      expect(estimate.grid_intensity.source_year).toBeGreaterThan(2000);
+      expect(estimate.co2_kg).toBeCloseTo(0.45 * estimate.grid_intensity.kg_co2_per_kwh, 3);
+    });
+
+    it("maps cloud regions to the grid they draw from", () => {
+      const aws = resolveGridIntensity("us-east-1");
+      expect(aws.cloud_provider).toBe("aws");
+      expect(aws.region).toBe("US-VA");
+      expect(aws.fallback).toBe(false);
+
+      const gcp = resolveGridIntensity("europe-west4");
+      expect(gcp.cloud_provider).toBe("gcp");
+      expect(gcp.region).toBe("NL");
+    });
+
+    it("falls back from unknown subregion to country, then to global", () => {
+      const sub = resolveGridIntensity("DE-BY");
+      expect(sub.region).toBe("DE");
+      expect(sub.fallback).toBe(true);
+
+      const unknown = resolveGridIntensity("atlantis-1");
+      expect(unknown.region).toBe("GLOBAL");
+      expect(unknown.fallback).toBe(true);
+      expect(unknown.requested_region).toBe("atlantis-1");
+    });
+
+    it("matches ISO subregions case-insensitively", () => {
+      expect(resolveGridIntensity("us-or").region).toBe("US-OR");
+    });
+  });
+
+  describe("uncertainty", () => {
+    it("brackets the central estimate for every metric", () => {
+      const estimate = estimateFootprint(30, undefined, { region: "DE" });
+      const { uncertainty } = estimate;
+
+      for (const b of [uncertainty.energy_kwh, uncertainty.co2_kg, uncertainty.cost_usd]) {
+        expect(b.low).toBeLessThan(b.central);
+        expect(b.high).toBeGreaterThan(b.central);
+      }
+      expect(uncertainty.energy_kwh.central).toBe(estimate.energy_kwh);
+      expect(uncertainty.co2_kg.central).toBe(estimate.co2_kg);
+    });
+
+    it("uses duration parameters or token parameters depending on basis", () => {
+      const duration = estimateFootprint(30).uncertainty.parameters.map((p) => p.parameter);
+      expect(duration).toEqual(["queries_per_minute", "kwh_per_query", "pue", "grid_intensity"]);
+
+      const tokens = estimateFootprint(0, undefined, {
+        usage: [{ model: "gpt-4o", input_tokens: 10_000, output_tokens: 1_000 }],
+      }).uncertainty.parameters.map((p) => p.parameter);
+      expect(tokens).toEqual(["token_energy_factor", "pue", "grid_intensity"]);
+    });
+
+    it("attributes variance shares that sum to one and names the dominant parameter", () => {
+      const { uncertainty } = estimateFootprint(30, undefined, { region: "FR" });
+      const total = uncertainty.parameters.reduce((sum, p) => sum + p.variance_share, 0);
+      expect(total).toBeCloseTo(1, 2);
+      expect(uncertainty.dominant_parameter).toBe("kwh_per_query");
+    });
+
+    it("widens the grid range when the region is unknown", () => {
+      const known = estimateFootprint(30, undefined, { region: "FR" }).uncertainty.parameters;
+      const unknown = estimateFootprint(30, undefined, { region: "atlantis-1" }).uncertainty.parameters;
+      const share = (ps: typeof known) => ps.find((p) => p.parameter === "grid_intensity")!.variance_share;
+      expect(share(unknown)).toBeGreaterThan(share(known));
+    });
+
+    it("narrows the queries-per-minute range when tool calls set the floor", () => {
+      const { parameters } = estimateFootprint(10, 40).uncertainty;
+      const qpm = parameters.find((p) => p.parameter === "queries_per_minute")!;
+      expect(qpm.variance_share).toBeLessThan(0.05);
+    });
+  });
+
+  describe("water and embodied impacts", () => {
+    it("reports on-site and off-site water from energy", () => {
+      const estimate = estimateFootprint(30);
+      expect(estimate.water.onsite_litres).toBeCloseTo(0.45 * 1.8, 2);
+      expect(estimate.water.offsite_litres).toBeCloseTo(0.45 * 3.1, 2);
+      expect(estimate.water.total_litres).toBeCloseTo(
+        estimate.water.onsite_litres + estimate.water.offsite_litres,
+        2
+      );
+    });
+
+    it("reports embodied CO2 without adding it to the retirement by default", () => {
+      const estimate = estimateFootprint(60 * 1000);
+      expect(estimate.embodied.co2_kg).toBeGreaterThan(0);
+      expect(estimate.embodied.included_in_retirement).toBe(false);
+      expect(estimate.equivalent_carbon_credits).toBeCloseTo(estimate.co2_tonnes, 5);
+    });
+
+    it("adds embodied CO2 to the suggested credits and cost when requested", () => {
+      const base = estimateFootprint(60 * 1000);
+      const withEmbodied = estimateFootprint(60 * 1000, undefined, { includeEmbodied: true });
+
+      expect(withEmbodied.co2_kg).toBe(base.co2_kg);
+      expect(withEmbodied.equivalent_carbon_credits).toBeCloseTo(
+        base.equivalent_carbon_credits + withEmbodied.embodied.co2_kg / 1000,
+        4
+      );
+      expect(withEmbodied.equivalent_cost_usd).toBeGreaterThan(base.equivalent_cost_usd);
+      expect(withEmbodied.uncertainty.cost_usd.central).toBe(withEmbodied.equivalent_cost_usd);
+      expect(withEmbodied.uncertainty.cost_usd.low).toBeLessThan(withEmbodied.equivalent_cost_usd);
+    });
+  });
+
+  describe("methodology", () => {
+    it("records the current methodology by default", () => {
+      expect(estimateFootprint(30).methodology_id).toBe(CURRENT_METHODOLOGY_ID);
+    });
+
+    it("reproduces the original duration-only methodology when pinned", () => {
+      const v1 = estimateFootprint(30, undefined, {
+        methodology: "regen-footprint-v1",
+        region: "FR",
+        usage: [{ model: "gpt-4o", input_tokens: 10_000, output_tokens: 1_000 }],
+      });
+
+      expect(v1.methodology_id).toBe("regen-footprint-v1");
+      expect(v1.basis).toBe("duration");
+      expect(v1.grid_intensity.kg_co2_per_kwh).toBe(0.4);
+      expect(v1.energy_kwh).toBeCloseTo(0.45, 4);
+      expect(v1.co2_kg).toBeCloseTo(0.18, 3);
+    });
+
+    it("rejects unknown methodology IDs", () => {
+      expect(() => estimateFootprint(30, undefined, { methodology: "nope" })).toThrow(/Unknown footprint methodology/);
+    });
+
+    it("names a frozen table for every version a methodology pins", () => {
+      for (const { constants: c } of listMethodologies()) {
+        if (c.energy_table_version) expect(getEnergyTable(c.energy_table_version).large).toBeDefined();
+        if (c.grid_dataset_version) expect(resolveGridIntensity("DE", c.grid_dataset_version).region).toBe("DE");
+        expect(getUncertaintyRanges(c.uncertainty_version).parameters.pue).toBeDefined();
+      }
+      expect(() => estimateTokenEnergy([{ model: "gpt-4o", input_tokens: 1, output_tokens: 1 }], "1999-01")).toThrow(
+        /Unknown model energy table version "1999-01"/
+      );
+      expect(() => resolveGridIntensity("DE", "1999-01")).toThrow(/Unknown grid intensity dataset version/);
+    });
+
+    it("keeps exactly one open-ended methodology, the current one", () => {
+      const open = listMethodologies().filter((m) => m.valid_until === null);
+      expect(open.map((m) => m.id)).toEqual([CURRENT_METHODOLOGY_ID]);
+      expect(getMethodology().id).toBe(CURRENT_METHODOLOGY_ID);
+    });
+  });
+});
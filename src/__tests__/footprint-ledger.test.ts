@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn(() => ({
+    footprintLedgerEnabled: true,
+    dbPath: ":memory:",
+  })),
+}));
+
+import { getDb } from "../server/db.js";
+import { estimateFootprint } from "../services/estimator.js";
+import {
+  recordEstimate,
+  recordRetirement,
+  buildFootprintReport,
+  formatFootprintReport,
+} from "../services/footprint-ledger.js";
+import { loadConfig } from "../config.js";
+
+beforeEach(() => {
+  const db = getDb(":memory:");
+  db.exec("DELETE FROM footprint_sessions; DELETE FROM footprint_retirements;");
+  vi.mocked(loadConfig).mockReturnValue({
+    footprintLedgerEnabled: true,
+    dbPath: ":memory:",
+  } as ReturnType<typeof loadConfig>);
+});
+
+describe("footprint ledger", () => {
+  it("records estimates with project tag and token totals", () => {
+    const estimate = estimateFootprint(0, undefined, {
+      usage: [
+        { model: "claude-sonnet-4", input_tokens: 1_000, output_tokens: 500 },
+        { model: "claude-3-5-haiku", input_tokens: 2_000, output_tokens: 100, cached_tokens: 300 },
+      ],
+    });
+
+    const row = recordEstimate(estimate, { projectTag: "web" });
+
+    expect(row).not.toBeNull();
+    expect(row!.project_tag).toBe("web");
+    expect(row!.model).toBe("claude-sonnet-4, claude-3-5-haiku");
+    expect(row!.input_tokens).toBe(3_000);
+    expect(row!.cached_tokens).toBe(300);
+    expect(row!.basis).toBe("tokens");
+  });
+
+  it("skips sessions already recorded under the same external ID", () => {
+    const estimate = estimateFootprint(30);
+    expect(recordEstimate(estimate, { source: "transcript:claude-code", externalId: "s1" })).not.toBeNull();
+    expect(recordEstimate(estimate, { source: "transcript:claude-code", externalId: "s1" })).toBeNull();
+    expect(buildFootprintReport("day").totals.sessions).toBe(1);
+  });
+
+  it("does nothing when the ledger is disabled", () => {
+    vi.mocked(loadConfig).mockReturnValue({
+      footprintLedgerEnabled: false,
+      dbPath: ":memory:",
+    } as ReturnType<typeof loadConfig>);
+
+    expect(recordEstimate(estimateFootprint(30))).toBeNull();
+  });
+
+  it("groups sessions by period and filters by project", () => {
+    recordEstimate(estimateFootprint(30), { projectTag: "a", recordedAt: "2026-01-15 10:00:00" });
+    recordEstimate(estimateFootprint(30), { projectTag: "a", recordedAt: "2026-01-20 10:00:00" });
+    recordEstimate(estimateFootprint(60), { projectTag: "b", recordedAt: "2026-02-01 10:00:00" });
+
+    const all = buildFootprintReport("month");
+    expect(all.periods.map((p) => p.period)).toEqual(["2026-02", "2026-01"]);
+    expect(all.periods[1].sessions).toBe(2);
+    expect(all.totals.sessions).toBe(3);
+
+    const projectA = buildFootprintReport("day", { projectTag: "a" });
+    expect(projectA.periods).toHaveLength(2);
+    expect(projectA.totals.co2Kg).toBeCloseTo(0.36, 3);
+  });
+
+  it("buckets weeks by ISO 8601 week-year", () => {
+    recordEstimate(estimateFootprint(30), { recordedAt: "2021-01-01 10:00:00" }); // Friday of 2020-W53
+    recordEstimate(estimateFootprint(30), { recordedAt: "2021-01-04 10:00:00" }); // Monday of 2021-W01
+    recordEstimate(estimateFootprint(30), { recordedAt: "2024-12-30 10:00:00" }); // Monday of 2025-W01
+
+    const report = buildFootprintReport("week");
+    expect(report.periods.map((p) => p.period)).toEqual(["2025-W01", "2021-W01", "2020-W53"]);
+  });
+
+  it("counts only carbon batches towards coverage", () => {
+    recordEstimate(estimateFootprint(60 * 1000)); // 0.36 t CO2 at the global factor
+
+    recordRetirement({
+      status: "success",
+      txHash: "ABC",
+      creditsRetired: "0.3",
+      batches: [
+        { batchDenom: "C01-001-20200101-20201231-001", quantity: "0.2" },
+        { batchDenom: "BT01-001-20240101-20241231-001", quantity: "0.1" },
+      ],
+    });
+    recordRetirement({ status: "marketplace_fallback", message: "no wallet" });
+
+    const report = buildFootprintReport("month");
+    expect(report.totals.creditsRetired).toBeCloseTo(0.3, 6);
+    expect(report.totals.co2TonnesCovered).toBeCloseTo(0.2, 6);
+    expect(report.totals.co2TonnesUncovered).toBeCloseTo(0.16, 3);
+    expect(report.totals.coveragePct).toBeCloseTo(55.6, 1);
+
+    const text = formatFootprintReport(report);
+    expect(text).toContain("Covered by carbon retirements");
+    expect(text).toContain("0.160000");
+  });
+});
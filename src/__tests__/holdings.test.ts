@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../services/ledger.js", () => ({
+  listBalances: vi.fn(),
+  listCreditClasses: vi.fn(async () => [
+    { id: "C01", credit_type_abbrev: "C" },
+    { id: "BT01", credit_type_abbrev: "BT" },
+  ]),
+}));
+
+import { selectWalletCredits } from "../services/holdings.js";
+import { listBalances } from "../services/ledger.js";
+
+function balance(batch_denom: string, tradable_amount: string) {
+  return { address: "regen1treasury", batch_denom, tradable_amount, retired_amount: "0", escrowed_amount: "0" };
+}
+
+describe("selectWalletCredits", () => {
+  beforeEach(() => {
+    vi.mocked(listBalances).mockResolvedValue([
+      balance("C01-001-20190101-20191231-002", "4"),
+      balance("C01-001-20150101-20151231-001", "3"),
+      balance("BT01-001-20230101-20231231-001", "10"),
+      balance("C01-002-20200101-20201231-001", "0"),
+    ]);
+  });
+
+  it("retires the oldest vintages first", async () => {
+    const selection = await selectWalletCredits("regen1treasury", 5, { creditType: "carbon" });
+
+    expect(selection.credits).toEqual([
+      { batchDenom: "C01-001-20150101-20151231-001", amount: "3.000000" },
+      { batchDenom: "C01-001-20190101-20191231-002", amount: "2.000000" },
+    ]);
+    expect(selection.totalQuantity).toBe("5.000000");
+    expect(selection.insufficientBalance).toBe(false);
+  });
+
+  it("only uses the requested batch when one is given", async () => {
+    const selection = await selectWalletCredits("regen1treasury", 5, {
+      batchDenom: "C01-001-20190101-20191231-002",
+    });
+
+    expect(selection.credits).toEqual([{ batchDenom: "C01-001-20190101-20191231-002", amount: "4.000000" }]);
+    expect(selection.availableQuantity).toBe("4.000000");
+    expect(selection.insufficientBalance).toBe(true);
+  });
+
+  it("skips batches the procurement policy blocks and reports them", async () => {
+    const selection = await selectWalletCredits("regen1treasury", 5, {
+      creditType: "carbon",
+      batchReason: (denom) => (denom.includes("-2015") ? "vintage 2015 is before 2018" : null),
+    });
+
+    expect(selection.credits).toEqual([{ batchDenom: "C01-001-20190101-20191231-002", amount: "4.000000" }]);
+    expect(selection.insufficientBalance).toBe(true);
+    expect(selection.blocked).toEqual([
+      { batchDenom: "C01-001-20150101-20151231-001", reason: "vintage 2015 is before 2018" },
+    ]);
+  });
+
+    it("filters by credit class", async () => {
+    const selection = await selectWalletCredits("regen1treasury", 1, { classIds: ["BT01"] });
+    expect(selection.credits.map((c) => c.batchDenom)).toEqual(["BT01-001-20230101-20231231-001"]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HttpClient } from "../services/http-client.js";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function ok(body: unknown) {
+  return Promise.resolve({ ok: true, status: 200, statusText: "OK", json: () => Promise.resolve(body) });
+}
+
+function fail(status: number, statusText: string) {
+  return Promise.resolve({ ok: false, status, statusText, json: () => Promise.resolve({}) });
+}
+
+function client(overrides: Partial<ConstructorParameters<typeof HttpClient>[0]> = {}) {
+  return new HttpClient({
+    name: "test",
+    label: "Test API",
+    endpoints: ["https://a.example", "https://b.example"],
+    backoffMs: 0,
+    ...overrides,
+  });
+}
+
+describe("HttpClient", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("fails over to the next endpoint on server errors", async () => {
+    mockFetch.mockImplementation((url: string) =>
+      url.startsWith("https://a.") ? fail(503, "Service Unavailable") : ok({ hello: "world" })
+    );
+
+    const http = client();
+    await expect(http.requestJSON("/x")).resolves.toEqual({ hello: "world" });
+
+    expect(mockFetch.mock.calls.map((c) => c[0])).toEqual(["https://a.example/x", "https://b.example/x"]);
+    const [a, b] = http.health();
+    expect(a).toMatchObject({ failures: 1, consecutiveFailures: 1, lastError: "Test API error: 503 Service Unavailable" });
+    expect(b).toMatchObject({ successes: 1, state: "closed" });
+  });
+
+  it("does not retry client errors", async () => {
+    mockFetch.mockImplementation(() => fail(404, "Not Found"));
+
+    await expect(client().requestJSON("/missing")).rejects.toThrow("Test API error: 404 Not Found");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("opens the circuit after consecutive failures and skips the endpoint", async () => {
+    mockFetch.mockImplementation((url: string) =>
+      url.startsWith("https://a.") ? Promise.reject(new TypeError("fetch failed")) : ok({})
+    );
+
+    const http = client({ circuitThreshold: 2, retries: 0 });
+    await expect(http.requestJSON("/x")).rejects.toThrow(/fetch failed/);
+    await expect(http.requestJSON("/x")).rejects.toThrow(/fetch failed/);
+    expect(http.health()[0].state).toBe("open");
+
+    mockFetch.mockClear();
+    await http.requestJSON("/x");
+    expect(mockFetch.mock.calls[0][0]).toBe("https://b.example/x");
+  });
+
+  it("times out slow endpoints", async () => {
+    mockFetch.mockImplementation((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal!.addEventListener("abort", () => reject(init.signal!.reason));
+      })
+    );
+
+    const http = client({ endpoints: ["https://slow.example"], timeoutMs: 20, retries: 1 });
+    await expect(http.requestJSON("/x")).rejects.toThrow("Test API timed out after 20ms");
+    expect(http.health()[0]).toMatchObject({ requests: 2, timeouts: 2 });
+  });
+
+  it("probes every endpoint and reports the status of answered failures", async () => {
+    mockFetch.mockImplementation((url: string) =>
+      url.startsWith("https://a.") ? fail(404, "Not Found") : Promise.reject(new Error("ECONNREFUSED"))
+    );
+
+    const outcomes = await client().probe("/x");
+
+    expect(outcomes.map(({ endpoint, ok, status }) => ({ endpoint, ok, status }))).toEqual([
+      { endpoint: "https://a.example", ok: false, status: 404 },
+      { endpoint: "https://b.example", ok: false, status: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  listSellOrders,
+  iterateProjects,
+  listCreditClasses,
+  listBalances,
+  getBatch,
+  getBatchSupply,
+} from "../services/ledger.js";
+import { clearCache } from "../services/cache.js";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+/** Serve `items` from `field` in pages, honouring pagination.key / pagination.limit like the LCD */
+function mockPaginated(field: string, items: unknown[]) {
+  mockFetch.mockImplementation((url: string) => {
+    const params = new URL(url).searchParams;
+    const offset = parseInt(params.get("pagination.key") ?? "0", 10);
+    const limit = parseInt(params.get("pagination.limit") ?? "100", 10);
+    const end = offset + limit;
+    return Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve({
+        [field]: items.slice(offset, end),
+        pagination: { next_key: end < items.length ? String(end) : null, total: "0" },
+      }),
+    });
+  });
+}
+
+describe("Regen Ledger pagination", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    clearCache();
+  });
+
+  it("follows next_key until every page is read", async () => {
+    const orders = Array.from({ length: 5 }, (_, i) => ({ id: String(i + 1) }));
+    mockPaginated("sell_orders", orders);
+
+    const all = await listSellOrders({ pageSize: 2 });
+
+    expect(all.map((o) => o.id)).toEqual(["1", "2", "3", "4", "5"]);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch.mock.calls[0][0]).toContain("pagination.limit=2");
+    expect(mockFetch.mock.calls[2][0]).toContain("pagination.key=4");
+  });
+
+  it("streams pages lazily through the async iterator", async () => {
+    mockPaginated("projects", Array.from({ length: 10 }, (_, i) => ({ id: `C01-00${i}` })));
+
+    const seen: string[] = [];
+    for await (const project of iterateProjects("C01", { pageSize: 3 })) {
+      seen.push(project.id);
+      if (seen.length === 4) break;
+    }
+
+    expect(seen).toHaveLength(4);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[0][0]).toContain("/projects-by-class/C01?");
+  });
+
+  it("stops on a repeated pagination key instead of looping", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ classes: [{ id: "C01" }], pagination: { next_key: "AAE=" } }),
+    });
+
+    await expect(listCreditClasses()).rejects.toThrow(/repeated pagination key/);
+  });
+});
+
+describe("Regen Ledger batches and balances", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    clearCache();
+  });
+
+  it("reads batch supply by state", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ tradable_amount: "120.5", retired_amount: "879.5", cancelled_amount: "0" }),
+    });
+
+    const supply = await getBatchSupply("C01-001-20150101-20151231-001");
+
+    expect(supply).toEqual({
+      batch_denom: "C01-001-20150101-20151231-001",
+      tradable_amount: "120.5",
+      retired_amount: "879.5",
+      cancelled_amount: "0",
+    });
+    expect(mockFetch.mock.calls[0][0]).toContain("/regen/ecocredit/v1/batches/C01-001-20150101-20151231-001/supply");
+  });
+
+  it("returns null for an unknown batch", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404, statusText: "Not Found", json: () => Promise.resolve({}) });
+    await expect(getBatch("C99-001-20200101-20201231-001")).resolves.toBeNull();
+  });
+
+  it("lists every balance held by an address", async () => {
+    mockPaginated("balances", [
+      { address: "regen1abc", batch_denom: "C01-001-A", tradable_amount: "5", retired_amount: "1", escrowed_amount: "0" },
+      { address: "regen1abc", batch_denom: "BT01-001-B", tradable_amount: "2", retired_amount: "0", escrowed_amount: "1" },
+    ]);
+
+    const balances = await listBalances("regen1abc", { pageSize: 1 });
+
+    expect(balances.map((b) => b.batch_denom)).toEqual(["C01-001-A", "BT01-001-B"]);
+    expect(mockFetch.mock.calls[0][0]).toContain("/regen/ecocredit/v1/balances/regen1abc?");
+  });
+});
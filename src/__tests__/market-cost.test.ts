@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../services/ledger.js", () => ({
+  getAllowedDenoms: vi.fn(async () => [
+    { bank_denom: "uregen", display_denom: "REGEN", exponent: 6 },
+    { bank_denom: "ibc/USDC", display_denom: "USDC", exponent: 6 },
+    { bank_denom: "ibc/ATOM", display_denom: "ATOM", exponent: 6 },
+  ]),
+  listSellOrders: vi.fn(),
+  listCreditClasses: vi.fn(async () => [
+    { id: "C01", credit_type_abbrev: "C" },
+    { id: "BT01", credit_type_abbrev: "BT" },
+  ]),
+  listCreditTypes: vi.fn(async () => []),
+}));
+
+import { quoteMarketCost } from "../services/market-cost.js";
+import { getAllowedDenoms, listSellOrders } from "../services/ledger.js";
+import { setPriceOracle } from "../services/price-oracle.js";
+
+// REGEN at $0.05 unless the feed is down, USDC at face value, ATOM unpriced
+const feed = { regenUsd: 0.05 as number | null };
+setPriceOracle({
+  name: "static",
+  usdPrice: async (denom) => {
+    if (denom.display_denom === "REGEN") {
+      if (feed.regenUsd === null) throw new Error("timeout");
+      return feed.regenUsd;
+    }
+    return denom.display_denom === "USDC" ? 1 : null;
+  },
+});
+
+function order(id: string, batch_denom: string, ask_denom: string, ask_amount: string) {
+  return {
+    id,
+    seller: "regen1seller",
+    batch_denom,
+    quantity: "10",
+    ask_denom,
+    ask_amount,
+    disable_auto_retire: false,
+    expiration: null,
+  };
+}
+
+describe("quoteMarketCost", () => {
+  beforeEach(() => {
+    feed.regenUsd = 0.05;
+    // Carbon: 1000 REGEN/credit ($50), 30 USDC/credit, or 1 ATOM/credit; biodiversity only in REGEN
+    vi.mocked(listSellOrders).mockResolvedValue([
+      order("1", "C01-001-20200101-20201231-001", "uregen", "1000000000"),
+      order("2", "C01-001-20200101-20201231-001", "ibc/USDC", "30000000"),
+      order("3", "C01-001-20200101-20201231-001", "ibc/ATOM", "1000000"),
+      order("4", "BT01-001-20200101-20201231-001", "uregen", "400000000"),
+    ] as never);
+  });
+
+  it("converts REGEN and USDC asks to USD and picks the cheaper", async () => {
+    const quote = await quoteMarketCost(2);
+    const carbon = quote.options.find((o) => o.credit_type === "carbon")!;
+    const bio = quote.options.find((o) => o.credit_type === "biodiversity")!;
+
+    expect(quote.regen_usd_price).toBe(0.05);
+    expect(carbon.source).toBe("market");
+    // ATOM has no USD rate, so its cheaper-looking ask never competes
+    expect(carbon.payment_denom).toBe("USDC");
+    expect(carbon.cost_usd).toBe(60);
+    expect(bio.payment_denom).toBe("REGEN");
+    expect(bio.usd_per_credit).toBe(20);
+  });
+
+  it("skips REGEN asks when the price feed is down", async () => {
+    feed.regenUsd = null;
+    const quote = await quoteMarketCost(1);
+    const bio = quote.options.find((o) => o.credit_type === "biodiversity")!;
+
+    expect(quote.regen_usd_price).toBeNull();
+    expect(bio.source).toBe("fallback");
+    expect(bio.cost_usd).toBe(26);
+  });
+
+  it("falls back to fixed prices when the ledger is unreachable", async () => {
+    vi.mocked(getAllowedDenoms).mockRejectedValueOnce(new Error("ECONNREFUSED"));
+    const quote = await quoteMarketCost(0.5);
+
+    expect(quote.options.every((o) => o.source === "fallback")).toBe(true);
+    expect(quote.options.find((o) => o.credit_type === "carbon")!.cost_usd).toBe(20);
+    expect(quote.options.find((o) => o.credit_type === "uss")!.cost_usd).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { parseMetadata, resolveMetadata, projectIdFromBatchDenom } from "../services/metadata.js";
+import { clearCache } from "../services/cache.js";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function json(body: unknown, status = 200) {
+  return Promise.resolve({
+    ok: status < 400,
+    status,
+    statusText: status < 400 ? "OK" : "Not Found",
+    json: () => Promise.resolve(body),
+  });
+}
+
+const PROJECT_DOC = {
+  "@context": { schema: "http://schema.org/", regen: "https://schema.regen.network#" },
+  "@type": "regen:C01-Project",
+  "schema:name": "Mai Ndombe REDD+",
+  "schema:description": { "@value": "Protecting 300,000 hectares of rainforest." },
+  "schema:location": { type: "Feature", place_name: "Mai-Ndombe, Democratic Republic of the Congo" },
+  "regen:approvedMethodologies": { "schema:name": "VM0009", "schema:url": "https://verra.org/vm0009" },
+  "regen:coBenefits": [{ "schema:name": "Biodiversity" }, { "schema:name": "Community livelihoods" }],
+  "regen:previewPhoto": { "@type": "schema:URL", "@value": "https://cdn.example/mai-ndombe.jpg" },
+};
+
+describe("metadata resolver", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    clearCache();
+  });
+
+  it("extracts typed fields from a JSON-LD project document", () => {
+    expect(parseMetadata("regen:abc.rdf", PROJECT_DOC)).toEqual({
+      iri: "regen:abc.rdf",
+      name: "Mai Ndombe REDD+",
+      description: "Protecting 300,000 hectares of rainforest.",
+      location: "Mai-Ndombe, Democratic Republic of the Congo",
+      methodology: "VM0009",
+      coBenefits: ["Biodiversity", "Community livelihoods"],
+      images: ["https://cdn.example/mai-ndombe.jpg"],
+    });
+  });
+
+  it("falls back to the data module resolver and caches the result", async () => {
+    mockFetch.mockImplementation((url: string) => {
+      if (url.includes("metadata-graph")) return json({}, 404);
+      if (url.includes("/regen/data/v2/resolvers-by-iri/")) {
+        return json({ resolvers: [{ url: "https://resolver.example/" }] });
+      }
+      return json(PROJECT_DOC);
+    });
+
+    const first = await resolveMetadata("regen:abc.rdf");
+    const second = await resolveMetadata("regen:abc.rdf");
+
+    expect(first?.name).toBe("Mai Ndombe REDD+");
+    expect(second).toEqual(first);
+    expect(mockFetch.mock.calls.map((c) => c[0])).toEqual([
+      "https://api.regen.network/data/v2/metadata-graph/regen%3Aabc.rdf",
+      "https://lcd-regen.keplr.app/regen/data/v2/resolvers-by-iri/regen%3Aabc.rdf",
+      "https://resolver.example/regen%3Aabc.rdf",
+    ]);
+  });
+
+  it("returns null instead of throwing when nothing resolves", async () => {
+    mockFetch.mockImplementation(() => json({}, 404));
+    await expect(resolveMetadata("regen:missing.rdf")).resolves.toBeNull();
+    await expect(resolveMetadata("")).resolves.toBeNull();
+  });
+
+  it("derives the project id from a batch denom", () => {
+    expect(projectIdFromBatchDenom("C01-001-20150101-20151231-001")).toBe("C01-001");
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../services/ledger.js", () => ({
+  listSellOrders: vi.fn(),
+  listCreditClasses: vi.fn(async () => [
+    { id: "C01", credit_type_abbrev: "C" },
+    { id: "C02", credit_type_abbrev: "C" },
+  ]),
+  listCreditTypes: vi.fn(async () => [
+    { abbreviation: "C", name: "carbon", unit: "metric ton CO2 equivalent", precision: 6 },
+  ]),
+  listBatches: vi.fn(async () => []),
+  listProjects: vi.fn(async () => [
+    { id: "C01-001", class_id: "C01", jurisdiction: "US-CA", metadata: "", reference_id: "" },
+    { id: "C01-002", class_id: "C01", jurisdiction: "BR", metadata: "", reference_id: "" },
+    { id: "C02-001", class_id: "C02", jurisdiction: "KE", metadata: "", reference_id: "" },
+  ]),
+  getAllowedDenoms: vi.fn(async () => [
+    { bank_denom: "uregen", display_denom: "REGEN", exponent: 6 },
+    { bank_denom: "ibc/USDC", display_denom: "USDC", exponent: 6 },
+  ]),
+}));
+
+import {
+  selectBestOrders,
+  selectAcrossDenoms,
+  selectionCents,
+  parseCreditScope,
+  explainNoEligibleOrders,
+} from "../services/order-selector.js";
+import { listSellOrders } from "../services/ledger.js";
+import { setPriceOracle, type PriceOracle } from "../services/price-oracle.js";
+import { parseStrategy, parseStrategies } from "../services/selection-strategy.js";
+
+// 1 REGEN = $0.05, 1 USDC = $1
+const staticOracle: PriceOracle = {
+  name: "static",
+  usdPrice: async (denom) => ({ REGEN: 0.05, USDC: 1 } as Record<string, number>)[denom.display_denom] ?? null,
+};
+setPriceOracle(staticOracle);
+
+function order(id: string, batch_denom: string, ask_amount: string, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    seller: "regen1seller",
+    batch_denom,
+    quantity: "10",
+    ask_denom: "uregen",
+    ask_amount,
+    disable_auto_retire: false,
+    expiration: null,
+    ...extra,
+  };
+}
+
+describe("parseCreditScope", () => {
+  it("recognises types, classes, projects and batches", () => {
+    expect(parseCreditScope("carbon")).toEqual({ creditType: "carbon" });
+    expect(parseCreditScope("BT")).toEqual({ creditTypeAbbrev: "BT" });
+    expect(parseCreditScope("c01")).toEqual({ classId: "C01" });
+    expect(parseCreditScope("C01-002")).toEqual({ classId: "C01", projectId: "C01-002" });
+    expect(parseCreditScope("C01-002-20190101-20191231-003")).toEqual({
+      classId: "C01",
+      projectId: "C01-002",
+      batchDenom: "C01-002-20190101-20191231-003",
+    });
+    expect(parseCreditScope("C01/002")).toBeNull();
+  });
+});
+
+describe("selectBestOrders", () => {
+  beforeEach(() => {
+    vi.mocked(listSellOrders).mockResolvedValue([
+      order("1", "C01-001-20150101-20151231-001", "1000000"),
+      order("2", "C01-002-20190101-20191231-001", "3000000"),
+      order("3", "C01-002-20200101-20201231-002", "2000000"),
+      order("4", "C02-001-20200101-20201231-001", "500000"),
+    ] as never);
+  });
+
+  it("only fills from the requested project", async () => {
+    const selection = await selectBestOrders(undefined, 12, undefined, undefined, undefined, {
+      projectIds: ["C01-002"],
+    });
+    expect(selection.orders.map((o) => [o.sellOrderId, o.quantity])).toEqual([
+      ["3", "10.000000"],
+      ["2", "2.000000"],
+    ]);
+  });
+
+  it("only fills from the requested batch", async () => {
+    const selection = await selectBestOrders(undefined, 12, undefined, undefined, undefined, {
+      batchDenoms: ["C01-002-20190101-20191231-001"],
+    });
+    expect(selection.orders.map((o) => o.sellOrderId)).toEqual(["2"]);
+    expect(selection.insufficientSupply).toBe(true);
+  });
+});
+
+describe("selection strategies", () => {
+  beforeEach(() => {
+    vi.mocked(listSellOrders).mockResolvedValue([
+      order("1", "C01-001-20150101-20151231-001", "1000000"),
+      order("2", "C01-002-20190101-20191231-001", "3000000"),
+      order("3", "C01-002-20200101-20201231-002", "2000000"),
+      order("4", "C02-001-20200101-20201231-001", "500000"),
+    ] as never);
+  });
+
+  async function select(quantity: number, specs: string[], projectIds?: string[]) {
+    const { strategies } = parseStrategies(specs);
+    return selectBestOrders(undefined, quantity, undefined, undefined, undefined, { strategies, projectIds });
+  }
+
+  it("explains the default cheapest-first fill", async () => {
+    const selection = await select(12, []);
+    expect(selection.orders.map((o) => [o.sellOrderId, o.reason])).toEqual([
+      ["4", "cheapest ask (0.5 REGEN per credit)"],
+      ["1", "cheapest ask (1 REGEN per credit)"],
+    ]);
+  });
+
+  it("fills the newest vintages first, cheapest among equals", async () => {
+    const selection = await select(12, ["newest_vintage"]);
+    expect(selection.orders.map((o) => [o.sellOrderId, o.quantity])).toEqual([
+      ["4", "10.000000"],
+      ["3", "2.000000"],
+    ]);
+    expect(selection.orders[1].reason).toBe("newest vintage (starts 2020-01-01); ask 2 REGEN per credit");
+  });
+
+  it("prefers projects in the given jurisdictions, matching subdivisions", async () => {
+    const selection = await select(12, ["prefer_jurisdictions:US/BR"]);
+    expect(selection.orders.map((o) => o.sellOrderId)).toEqual(["1", "3"]);
+    expect(selection.orders[0].reason).toBe("project in US-CA, a preferred jurisdiction; ask 1 REGEN per credit");
+  });
+
+  it("caps each batch's share of the fill", async () => {
+    const selection = await select(10, ["max_batch_pct:40"]);
+    expect(selection.orders.map((o) => [o.sellOrderId, o.quantity])).toEqual([
+      ["4", "4.000000"],
+      ["1", "4.000000"],
+      ["3", "2.000000"],
+    ]);
+    expect(selection.orders[0].reason).toBe("capped at 40% of the fill for this batch; ask 0.5 REGEN per credit");
+    expect(selection.insufficientSupply).toBe(false);
+  });
+
+  it("spreads the fill over projects and comes up short rather than break the cap", async () => {
+    const spread = await select(12, ["min_projects:3"]);
+    expect(spread.orders.map((o) => [o.sellOrderId, o.quantity])).toEqual([
+      ["4", "4.000000"],
+      ["1", "4.000000"],
+      ["3", "4.000000"],
+    ]);
+
+    const short = await select(12, ["min_projects:3"], ["C01-002"]);
+    expect(short.totalQuantity).toBe("4.000000");
+    expect(short.insufficientSupply).toBe(true);
+  });
+
+  it("parses specs and rejects unknown or out-of-range ones", () => {
+    expect(parseStrategy(" Newest_Vintage ")?.name).toBe("newest_vintage");
+    expect(parseStrategy("prefer_jurisdictions:us/br-sp")?.name).toBe("prefer_jurisdictions:US/BR-SP");
+    for (const spec of ["fastest", "cheapest:1", "prefer_jurisdictions:", "min_projects:0", "max_batch_pct:101", "max_batch_pct:x"]) {
+      expect(parseStrategy(spec)).toBeNull();
+    }
+    expect(parseStrategies(["cheapest", "bogus", "newest_vintage"]).invalid).toBe("bogus");
+  });
+});
+
+describe("selectAcrossDenoms", () => {
+  beforeEach(() => {
+    // 2 credits cost 40 REGEN ($2) in C01, or 1.5 USDC in C02
+    vi.mocked(listSellOrders).mockResolvedValue([
+      order("1", "C01-001-20150101-20151231-001", "20000000"),
+      order("2", "C02-001-20200101-20201231-001", "750000", { ask_denom: "ibc/USDC" }),
+    ] as never);
+  });
+
+  it("picks the denom with the cheapest fill in USD and reports the rates", async () => {
+    const selection = await selectAcrossDenoms(undefined, 2);
+
+    expect(selection.paymentDenom).toBe("ibc/USDC");
+    expect(selection.orders.map((o) => o.sellOrderId)).toEqual(["2"]);
+    expect(selection.costUsd).toBe(1.5);
+    expect(selection.rates?.map((r) => [r.displayDenom, r.usdPerUnit, r.source])).toEqual([
+      ["REGEN", 0.05, "static"],
+      ["USDC", 1, "static"],
+    ]);
+  });
+
+  it("passes over a cheaper fill the wallet can't pay", async () => {
+    const balances: Record<string, bigint> = { uregen: 100_000_000n, "ibc/USDC": 1_000_000n };
+
+    const selection = await selectAcrossDenoms(undefined, 2, undefined, undefined, {
+      balanceOf: async (denom) => balances[denom] ?? 0n,
+    });
+
+    expect(selection.paymentDenom).toBe("uregen");
+    expect(selection.totalCostMicro).toBe(40_000_000n);
+    expect(selection.costUsd).toBe(2);
+  });
+
+  it("spends a USD budget in each denom at its rate and keeps the larger fill", async () => {
+    // $1 buys 1 credit at 20 REGEN ($1) or 1.333333 at 0.75 USDC
+    const selection = await selectAcrossDenoms(undefined, 5, undefined, undefined, { budgetCents: 100 });
+
+    expect(selection.paymentDenom).toBe("ibc/USDC");
+    expect(selection.totalQuantity).toBe("1.333333");
+    expect(selection.totalCostMicro).toBe(1_000_000n);
+    expect(selectionCents(selection)).toBe(100);
+  });
+});
+
+describe("explainNoEligibleOrders", () => {
+  it("reports projects without listings", async () => {
+    vi.mocked(listSellOrders).mockResolvedValue([order("1", "C01-001-20150101-20151231-001", "1")] as never);
+    expect(await explainNoEligibleOrders({ classId: "C01", projectId: "C01-009" })).toBe(
+      "No sell orders are currently listed for project C01-009."
+    );
+  });
+
+  it("reports sellers that disabled auto-retirement", async () => {
+    vi.mocked(listSellOrders).mockResolvedValue([
+      order("1", "C01-001-20150101-20151231-001", "1", { disable_auto_retire: true }),
+    ] as never);
+    expect(await explainNoEligibleOrders({ classId: "C01", projectId: "C01-001" })).toMatch(
+      /^Project C01-001 has 1 sell order\(s\), but their sellers disabled auto-retirement/
+    );
+  });
+
+  it("reports listings in another denom", async () => {
+    vi.mocked(listSellOrders).mockResolvedValue([
+      order("1", "C01-001-20150101-20151231-001", "1", { ask_denom: "ibc/USDC" }),
+    ] as never);
+    expect(await explainNoEligibleOrders({ classId: "C01" }, "uregen")).toBe(
+      "Sell orders for credit class C01 are priced in USDC, not REGEN."
+    );
+  });
+
+  it("reports listings in a denom the price oracle can't convert", async () => {
+    vi.mocked(listSellOrders).mockResolvedValue([
+      order("1", "C01-001-20150101-20151231-001", "1", { ask_denom: "ibc/ATOM" }),
+    ] as never);
+    expect(await explainNoEligibleOrders({ classId: "C01" })).toBe(
+      "Sell orders for credit class C01 are priced in ibc/ATOM, which the price oracle can't convert to USD."
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { getDb, createUser, getFootprintLifetimeTotals, type FootprintSession } from "../server/db.js";
+import { ingestOtlpTraces, assertOtlpTraceRequest, type OtlpTraceRequest } from "../services/otel-ingest.js";
+
+const db = getDb(":memory:");
+
+function str(key: string, value: string) {
+  return { key, value: { stringValue: value } };
+}
+
+function int(key: string, value: number) {
+  // OTLP JSON encodes int64 as a string
+  return { key, value: { intValue: String(value) } };
+}
+
+function exportRequest(spans: Array<{ spanId: string; attributes: ReturnType<typeof str>[] }>): OtlpTraceRequest {
+  return {
+    resourceSpans: [{
+      resource: { attributes: [str("service.name", "support-bot"), str("cloud.region", "eu-north-1")] },
+      scopeSpans: [{
+        spans: spans.map((s) => ({
+          traceId: "5b8efff798038103d269b633813fc60c",
+          spanId: s.spanId,
+          name: "chat",
+          endTimeUnixNano: "1760000000000000000",
+          attributes: s.attributes,
+        })),
+      }],
+    }],
+  };
+}
+
+const chatSpan = {
+  spanId: "eee19b7ec3c1b174",
+  attributes: [
+    str("gen_ai.operation.name", "chat"),
+    str("gen_ai.request.model", "claude-sonnet-4"),
+    int("gen_ai.usage.input_tokens", 12_000),
+    int("gen_ai.usage.output_tokens", 800),
+    int("gen_ai.usage.cache_read.input_tokens", 10_000),
+  ],
+};
+
+let userId: number;
+
+beforeEach(() => {
+  db.exec("DELETE FROM footprint_sessions;");
+  userId = createUser(db, null, null).id;
+});
+
+describe("OTLP GenAI span ingestion", () => {
+  it("stores one session per GenAI span, attributed to the user", () => {
+    const result = ingestOtlpTraces(db, exportRequest([chatSpan]), { userId });
+    expect(result.accepted).toBe(1);
+    expect(result.co2Kg).toBeGreaterThan(0);
+
+    const row = db.prepare("SELECT * FROM footprint_sessions").get() as FootprintSession;
+    expect(row.user_id).toBe(userId);
+    expect(row.source).toBe("otel");
+    expect(row.project_tag).toBe("support-bot");
+    expect(row.grid_region).toBe("SE");
+    // Semantic-convention input tokens include cache reads
+    expect(row.input_tokens).toBe(2_000);
+    expect(row.cached_tokens).toBe(10_000);
+    expect(row.recorded_at).toBe("2025-10-09 08:53:20");
+  });
+
+  it("skips retried spans, agent spans, and spans without token usage", () => {
+    ingestOtlpTraces(db, exportRequest([chatSpan]), { userId });
+    const result = ingestOtlpTraces(db, exportRequest([
+      chatSpan,
+      {
+        spanId: "a1",
+        attributes: [str("gen_ai.operation.name", "invoke_agent"), str("gen_ai.request.model", "claude-sonnet-4"), int("gen_ai.usage.input_tokens", 50_000)],
+      },
+      { spanId: "a2", attributes: [str("http.method", "GET")] },
+    ]), { userId });
+
+    expect(result).toMatchObject({ accepted: 0, duplicates: 1, ignored: 2, rejected: 0 });
+    expect(getFootprintLifetimeTotals(db, { userId }).sessions).toBe(1);
+    expect(getFootprintLifetimeTotals(db, { userId: userId + 1 }).sessions).toBe(0);
+  });
+
+  it("de-duplicates spans per user, not across users", () => {
+    const otherUserId = createUser(db, null, null).id;
+    ingestOtlpTraces(db, exportRequest([chatSpan]), { userId });
+
+    const result = ingestOtlpTraces(db, exportRequest([chatSpan]), { userId: otherUserId });
+
+    expect(result).toMatchObject({ accepted: 1, duplicates: 0 });
+    expect(getFootprintLifetimeTotals(db, { userId }).sessions).toBe(1);
+    expect(getFootprintLifetimeTotals(db, { userId: otherUserId }).sessions).toBe(1);
+  });
+
+  it("rejects bodies that are not trace exports", () => {
+    expect(() => assertOtlpTraceRequest({ resourceMetrics: [] })).toThrow(/resourceSpans/);
+  });
+});
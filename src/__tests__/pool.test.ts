@@ -21,13 +21,15 @@ vi.mock("../config.js", () => ({
     rpcUrl: "http://localhost:26657",
     burnEnabled: false,
     regenPriceApiUrl: "https://api.coingecko.com/api/v3/simple/price?ids=regen&vs_currencies=usd",
+    poolStrategy: [],
   })),
   isWalletConfigured: vi.fn(() => true),
 }));
 
-// Mock order-selector
-vi.mock("../services/order-selector.js", () => ({
-  selectBestOrders: vi.fn(async (_creditType: unknown, quantity: number, _denom: unknown, _abbrevs: unknown) => ({
+// Mock order-selector: REGEN orders at 1 REGEN per credit, REGEN at $1
+vi.mock("../services/order-selector.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/order-selector.js")>()),
+  selectAcrossDenoms: vi.fn(async (_creditType: unknown, quantity: number, _abbrevs: unknown) => ({
     orders: [
       {
         sellOrderId: "1",
@@ -44,6 +46,8 @@ vi.mock("../services/order-selector.js", () => ({
     displayDenom: "REGEN",
     exponent: 6,
     insufficientSupply: quantity > 10,
+    costUsd: Math.min(quantity, 10),
+    rates: [{ bankDenom: "uregen", displayDenom: "REGEN", exponent: 6, usdPerUnit: 1, source: "static" }],
   })),
 }));
 
@@ -64,7 +68,7 @@ vi.mock("../server/db.js", async () => {
 
 import { executePoolRun, type PoolRunResult } from "../services/pool.js";
 import { signAndBroadcast } from "../services/wallet.js";
-import { selectBestOrders } from "../services/order-selector.js";
+import { selectAcrossDenoms } from "../services/order-selector.js";
 import { loadConfig } from "../config.js";
 
 let db: Database.Database;
@@ -254,6 +258,25 @@ describe("Pool Service", () => {
       expect(result.carbon.creditsRetired).toBeGreaterThan(0);
     });
 
+    it("fills with the REGEN_POOL_STRATEGY strategies", async () => {
+      addTestSubscribers(1, 1000);
+      const original = vi.mocked(loadConfig).getMockImplementation()!;
+      vi.mocked(loadConfig).mockImplementation(() => ({ ...original(), poolStrategy: ["newest_vintage", "max_batch_pct:40"] }));
+      try {
+        await executePoolRun({ dryRun: true });
+        const options = vi.mocked(selectAcrossDenoms).mock.calls.at(-1)![4];
+        expect(options?.strategies?.map((s) => s.name)).toEqual(["newest_vintage", "max_batch_pct:40"]);
+        // The last fill is USS: $8.50 of credits less carbon's $4.25 and biodiversity's $2.55
+        expect(options?.budgetCents).toBe(170);
+
+        vi.mocked(loadConfig).mockImplementation(() => ({ ...original(), poolStrategy: ["fastest"] }));
+        const result = await executePoolRun({ dryRun: true });
+        expect(result.carbon.error).toBe('Invalid REGEN_POOL_STRATEGY entry "fastest"');
+      } finally {
+        vi.mocked(loadConfig).mockImplementation(original);
+      }
+    });
+
     it("executes live run and broadcasts transactions", async () => {
       addTestSubscribers(2, 1000); // $20 total
 
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const policyFile = vi.hoisted(() => ({ path: undefined as string | undefined }));
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn(() => ({ procurementPolicyPath: policyFile.path, cacheEnabled: false })),
+}));
+
+vi.mock("../services/ledger.js", () => ({
+  listSellOrders: vi.fn(),
+  listCreditClasses: vi.fn(async () => [
+    { id: "C01", credit_type_abbrev: "C", admin: "", metadata: "" },
+    { id: "C02", credit_type_abbrev: "C", admin: "", metadata: "" },
+  ]),
+  listCreditTypes: vi.fn(async () => []),
+  listBatches: vi.fn(async () => [
+    { denom: "C01-001-20150101-20151231-001", issuer: "regen1old" },
+    { denom: "C01-001-20200101-20201231-001", issuer: "regen1issuer" },
+    { denom: "C01-002-20210101-20211231-001", issuer: "regen1issuer" },
+    { denom: "C02-001-20220101-20221231-001", issuer: "regen1issuer" },
+  ]),
+  listProjects: vi.fn(async () => [
+    { id: "C01-001", class_id: "C01", jurisdiction: "US-CA", metadata: "", reference_id: "" },
+    { id: "C01-002", class_id: "C01", jurisdiction: "KE", metadata: "", reference_id: "" },
+    { id: "C02-001", class_id: "C02", jurisdiction: "US", metadata: "", reference_id: "" },
+  ]),
+  getAllowedDenoms: vi.fn(async () => [{ bank_denom: "uregen", display_denom: "REGEN", exponent: 6 }]),
+}));
+
+vi.mock("../services/indexer.js", () => ({ getRecentOrders: vi.fn(async () => []) }));
+vi.mock("../services/metadata.js", () => ({ resolveMetadata: vi.fn(async () => null) }));
+
+import { loadProcurementPolicy, getPolicyScreen } from "../services/procurement-policy.js";
+import { selectBestOrders, explainNoEligibleOrders } from "../services/order-selector.js";
+import { browseAvailableCredits } from "../tools/credits.js";
+import { listSellOrders } from "../services/ledger.js";
+
+const dir = mkdtempSync(join(tmpdir(), "procurement-policy-"));
+
+function usePolicy(policy: unknown): string {
+  const path = join(dir, "policy.json");
+  writeFileSync(path, JSON.stringify(policy));
+  policyFile.path = path;
+  return path;
+}
+
+function order(id: string, batch_denom: string, ask_amount: string) {
+  return {
+    id,
+    seller: "regen1seller",
+    batch_denom,
+    quantity: "10",
+    ask_denom: "uregen",
+    ask_amount,
+    disable_auto_retire: false,
+    expiration: null,
+  };
+}
+
+const POLICY = {
+  exclude_classes: ["C02"],
+  exclude_issuers: ["regen1old"],
+  min_vintage_year: 2018,
+  jurisdictions: ["US"],
+};
+
+describe("procurement policy", () => {
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    policyFile.path = undefined;
+    vi.mocked(listSellOrders).mockResolvedValue([
+      order("1", "C01-001-20150101-20151231-001", "500000"),
+      order("2", "C01-001-20200101-20201231-001", "2000000"),
+      order("3", "C01-002-20210101-20211231-001", "1000000"),
+      order("4", "C02-001-20220101-20221231-001", "800000"),
+    ]);
+  });
+
+  it("rejects an invalid policy file with the validation issues", () => {
+    const path = usePolicy({ exclude_projects: ["C01"], min_vintage_year: "2018" });
+    expect(() => loadProcurementPolicy(path)).toThrow(/exclude_projects\.0: expected a project ID.*min_vintage_year/);
+  });
+
+  it("gives the reason each class, project or batch is blocked", async () => {
+    const screen = (await getPolicyScreen(loadProcurementPolicy(usePolicy(POLICY))))!;
+
+    expect(screen.classReason("C02")).toBe("credit class C02 is excluded");
+    expect(screen.projectReason("C01-001")).toBeNull();
+    expect(screen.projectReason("C01-002")).toBe("project jurisdiction KE is outside US");
+    expect(screen.batchReason("C01-001-20170101-20171231-001")).toBe("vintage 2017 is before 2018");
+    expect(screen.batchReason("C01-001-20200101-20201231-001")).toBeNull();
+    expect(screen.batchReason("C01-001-20210101-20211231-009")).toBe(
+      "issuer of C01-001-20210101-20211231-009 is unknown"
+    );
+
+    const allowList = (await getPolicyScreen({ ...loadProcurementPolicy(usePolicy({})), allow_classes: ["C01"] }))!;
+    expect(allowList.classReason("C02")).toBe("credit class C02 is not on the allowed list");
+  });
+
+  it("keeps blocked orders out of the fill and reports them", async () => {
+    usePolicy(POLICY);
+
+    const selection = await selectBestOrders(undefined, 12);
+
+    expect(selection.orders.map((o) => [o.sellOrderId, o.quantity])).toEqual([["2", "10.000000"]]);
+    expect(selection.insufficientSupply).toBe(true);
+    expect(selection.blocked).toEqual([
+      { sellOrderId: "1", batchDenom: "C01-001-20150101-20151231-001", reason: "vintage 2015 is before 2018" },
+      { sellOrderId: "3", batchDenom: "C01-002-20210101-20211231-001", reason: "project jurisdiction KE is outside US" },
+      { sellOrderId: "4", batchDenom: "C02-001-20220101-20221231-001", reason: "credit class C02 is excluded" },
+    ]);
+  });
+
+  it("selects as before without a policy", async () => {
+    const selection = await selectBestOrders(undefined, 12);
+    expect(selection.orders.map((o) => o.sellOrderId)).toEqual(["1", "4"]);
+    expect(selection.blocked).toBeUndefined();
+  });
+
+  it("explains a project whose every order is blocked", async () => {
+    usePolicy(POLICY);
+    const message = await explainNoEligibleOrders({ classId: "C02", projectId: "C02-001" });
+    expect(message).toBe(
+      "Project C02-001 is listed, but 1 sell order(s) excluded by the procurement policy: credit class C02 is excluded (1)."
+    );
+  });
+
+  it("marks excluded classes, projects and orders when browsing", async () => {
+    usePolicy(POLICY);
+
+    const result = await browseAvailableCredits("all", 10);
+    const text = result.content[0].text;
+
+    expect(text).toContain("Your procurement policy excludes 3 of 4 sell order(s).");
+    expect(text).toContain("| Carbon | 10 | 1 | 3 |");
+    expect(text).toContain("  - Excluded by procurement policy: credit class C02 is excluded");
+    expect(text).toContain("**C01-002** — KE — excluded: project jurisdiction KE is outside US");
+    expect(text).toContain("**C01-001-20150101-20151231-001**: 10 credits at 500000 uregen — excluded: vintage 2015 is before 2018");
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn(() => ({ dbPath: ":memory:", cacheEnabled: false, quoteTtlSeconds: 120 })),
+}));
+
+vi.mock("../services/ledger.js", () => ({
+  listSellOrders: vi.fn(),
+}));
+
+vi.mock("../services/order-selector.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/order-selector.js")>()),
+  selectOrdersForScope: vi.fn(),
+}));
+
+import {
+  createQuote,
+  getQuote,
+  resolveQuote,
+  claimQuote,
+  releaseQuote,
+  completeQuote,
+  QuoteError,
+} from "../services/quote.js";
+import { listSellOrders, type SellOrder } from "../services/ledger.js";
+import { selectOrdersForScope, type OrderSelection } from "../services/order-selector.js";
+import { getDb, createUser } from "../server/db.js";
+
+function selection(sellOrderId: string, askAmount: string, quantity = 2): OrderSelection {
+  const costMicro = BigInt(askAmount) * BigInt(quantity);
+  return {
+    orders: [
+      {
+        sellOrderId,
+        batchDenom: "C01-001-20150101-20151231-001",
+        quantity: quantity.toFixed(6),
+        askAmount,
+        askDenom: "uregen",
+        costMicro,
+      },
+    ],
+    totalQuantity: quantity.toFixed(6),
+    totalCostMicro: costMicro,
+    paymentDenom: "uregen",
+    displayDenom: "REGEN",
+    exponent: 6,
+    insufficientSupply: false,
+  };
+}
+
+function listed(id: string, askAmount: string, quantity = "10"): SellOrder {
+  return {
+    id,
+    seller: "regen1seller",
+    batch_denom: "C01-001-20150101-20151231-001",
+    quantity,
+    ask_denom: "uregen",
+    ask_amount: askAmount,
+    disable_auto_retire: false,
+    expiration: null,
+  };
+}
+
+describe("quotes", () => {
+  beforeEach(() => {
+    vi.useRealTimers();
+    vi.mocked(selectOrdersForScope).mockResolvedValue(selection("7", "1000000"));
+  });
+
+  it("stores the selected orders under an expiring ID", async () => {
+    const user = createUser(getDb(":memory:"), "buyer@example.com", null);
+    const quote = await createQuote({ creditClass: "C01", quantity: 2, userId: user.id });
+
+    expect(quote.id).toMatch(/^qt_[0-9a-f]{24}$/);
+    expect(quote.totalCostMicro).toBe(2_000_000n);
+    expect(Date.parse(quote.expiresAt) - Date.parse(quote.createdAt)).toBeGreaterThanOrEqual(119_000);
+    expect(getQuote(quote.id)).toEqual(quote);
+  });
+
+  it("rejects unknown classes and unfillable quantities", async () => {
+    await expect(createQuote({ creditClass: "not a class!", quantity: 1 })).rejects.toBeInstanceOf(QuoteError);
+
+    vi.mocked(selectOrdersForScope).mockResolvedValue({ ...selection("7", "1000000"), insufficientSupply: true });
+    await expect(createQuote({ quantity: 2 })).rejects.toMatchObject({ code: "NO_SUPPLY" });
+  });
+
+  it("uses the quoted orders while they are unchanged", async () => {
+    const quote = await createQuote({ quantity: 2 });
+    vi.mocked(listSellOrders).mockResolvedValue([listed("7", "1000000")]);
+    vi.mocked(selectOrdersForScope).mockClear();
+
+    const resolved = await resolveQuote(quote);
+
+    expect(resolved).toMatchObject({ ok: true, requoted: false });
+    expect(selectOrdersForScope).not.toHaveBeenCalled();
+  });
+
+  it("compares listed and quoted quantities exactly", async () => {
+    const quote = await createQuote({ quantity: 2 });
+
+    vi.mocked(listSellOrders).mockResolvedValue([listed("7", "1000000", "2")]);
+    expect(await resolveQuote(quote)).toMatchObject({ ok: true, requoted: false });
+
+    // One micro-credit short of the quoted 2.000000: the book moved, so the fill is re-selected
+    vi.mocked(listSellOrders).mockResolvedValue([listed("7", "1000000", "1.999999")]);
+    expect(await resolveQuote(quote)).toMatchObject({ ok: true, requoted: true });
+  });
+
+  it("keeps the USD rates the fill was compared with", async () => {
+    const rates = [{ bankDenom: "uregen", displayDenom: "REGEN", exponent: 6, usdPerUnit: 0.05, source: "static" }];
+    vi.mocked(selectOrdersForScope).mockResolvedValue({ ...selection("7", "1000000"), costUsd: 0.1, rates });
+    const quote = await createQuote({ quantity: 2 });
+    vi.mocked(listSellOrders).mockResolvedValue([listed("7", "1000000")]);
+
+    expect(getQuote(quote.id)).toMatchObject({ costUsd: 0.1, rates });
+    const resolved = await resolveQuote(quote);
+    expect(resolved.ok && resolved.selection).toMatchObject({ costUsd: 0.1, rates });
+  });
+
+  it("accepts a re-priced fill within the slippage bound", async () => {
+    const quote = await createQuote({ quantity: 2 });
+    vi.mocked(listSellOrders).mockResolvedValue([listed("8", "1040000")]);
+    vi.mocked(selectOrdersForScope).mockResolvedValue(selection("8", "1040000"));
+
+    const resolved = await resolveQuote(quote, { maxSlippagePct: 5 });
+
+    expect(resolved.ok).toBe(true);
+    expect(resolved.ok && resolved.selection.totalCostMicro).toBe(2_080_000n);
+  });
+
+  it("fills and re-quotes with the quote's strategies", async () => {
+    await expect(createQuote({ quantity: 2, strategies: ["fastest"] })).rejects.toMatchObject({
+      code: "INVALID_REQUEST",
+    });
+
+    const quote = await createQuote({ quantity: 2, strategies: ["newest_vintage", "max_batch_pct:50"] });
+    expect(quote.strategies).toEqual(["newest_vintage", "max_batch_pct:50"]);
+    const names = () =>
+      vi.mocked(selectOrdersForScope).mock.lastCall![3]!.strategies!.map((s) => s.name);
+    expect(names()).toEqual(["newest_vintage", "max_batch_pct:50"]);
+
+    vi.mocked(listSellOrders).mockResolvedValue([listed("8", "1000000")]);
+    vi.mocked(selectOrdersForScope).mockClear();
+    await resolveQuote(quote);
+    expect(names()).toEqual(["newest_vintage", "max_batch_pct:50"]);
+  });
+
+  it("rejects a fill beyond the bound with a fresh quote", async () => {
+    const quote = await createQuote({ quantity: 2 });
+    vi.mocked(listSellOrders).mockResolvedValue([listed("7", "1500000")]);
+    vi.mocked(selectOrdersForScope).mockResolvedValue(selection("7", "1500000"));
+
+    const resolved = await resolveQuote(quote, { maxCost: 2.5 });
+
+    expect(resolved.ok).toBe(false);
+    if (resolved.ok) return;
+    expect(resolved.message).toMatch(/changed its ask/);
+    expect(resolved.requote?.totalCostMicro).toBe(3_000_000n);
+    expect(resolved.requote?.id).not.toBe(quote.id);
+  });
+
+  it("rejects an unchanged quote that costs more than the bounds", async () => {
+    vi.mocked(selectOrdersForScope).mockResolvedValue({ ...selection("7", "1000000"), costUsd: 0.1 });
+    const quote = await createQuote({ quantity: 2 });
+    vi.mocked(listSellOrders).mockResolvedValue([listed("7", "1000000")]);
+
+    const overCost = await resolveQuote(quote, { maxCost: 1.5 });
+    expect(overCost).toMatchObject({ ok: false, message: expect.stringMatching(/more than the allowed maximum/) });
+    expect(overCost.ok === false && overCost.requote?.id).not.toBe(quote.id);
+
+    const overUsd = await resolveQuote(quote, { maxCostUsd: 0.05 });
+    expect(overUsd).toMatchObject({ ok: false, message: expect.stringMatching(/more than the allowed maximum/) });
+
+    expect((await resolveQuote(quote, { maxCost: 2, maxCostUsd: 0.1 })).ok).toBe(true);
+  });
+
+  it("refuses expired and executed quotes", async () => {
+    const quote = await createQuote({ quantity: 2 });
+
+    vi.useFakeTimers({ now: Date.parse(quote.expiresAt) + 1000 });
+    const expired = await resolveQuote(quote);
+    expect(expired).toMatchObject({ ok: false, message: expect.stringMatching(/expired/) });
+    expect(expired.ok === false && expired.requote).toBeTruthy();
+    vi.useRealTimers();
+
+    expect(claimQuote(quote.id)).toBe(true);
+    expect(completeQuote(quote.id, "ABC")).toBe(true);
+    expect(completeQuote(quote.id, "DEF")).toBe(false);
+    const executed = await resolveQuote(getQuote(quote.id)!);
+    expect(executed).toEqual({ ok: false, message: expect.stringMatching(/already executed/), requote: null });
+  });
+
+  it("lets only one retirement claim a quote until it is released", async () => {
+    const quote = await createQuote({ quantity: 2 });
+
+    expect(claimQuote(quote.id)).toBe(true);
+    expect(claimQuote(quote.id)).toBe(false);
+    const held = await resolveQuote(getQuote(quote.id)!);
+    expect(held).toEqual({ ok: false, message: expect.stringMatching(/being executed/), requote: null });
+
+    releaseQuote(quote.id);
+    expect(getQuote(quote.id)!.status).toBe("open");
+    expect(claimQuote(quote.id)).toBe(true);
+    expect(completeQuote(quote.id, "ABC")).toBe(true);
+
+    releaseQuote(quote.id);
+    expect(getQuote(quote.id)!.status).toBe("executed");
+    expect(claimQuote(quote.id)).toBe(false);
+  });
+});
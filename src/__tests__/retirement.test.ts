@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn(() => ({
+    dbPath: ":memory:",
+    cacheEnabled: false,
+    treasuryEnabled: false,
+    defaultJurisdiction: "US",
+    marketplaceUrl: "https://app.regen.network",
+    paymentProvider: "crypto",
+  })),
+  isWalletConfigured: vi.fn(() => true),
+}));
+
+vi.mock("../services/wallet.js", () => ({
+  initWallet: vi.fn(async () => ({ address: "regen1buyer" })),
+  signAndBroadcast: vi.fn(),
+  getBalance: vi.fn(),
+  simulateFee: vi.fn(),
+}));
+
+vi.mock("../services/order-selector.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/order-selector.js")>()),
+  selectOrdersForScope: vi.fn(async () => ({
+    orders: [
+      {
+        sellOrderId: "42",
+        batchDenom: "C01-001-20150101-20151231-001",
+        quantity: "2.000000",
+        askAmount: "1500000",
+        askDenom: "uregen",
+        costMicro: 3_000_000n,
+      },
+    ],
+    totalQuantity: "2.000000",
+    totalCostMicro: 3_000_000n,
+    paymentDenom: "uregen",
+    displayDenom: "REGEN",
+    exponent: 6,
+    insufficientSupply: false,
+  })),
+}));
+
+vi.mock("../services/indexer.js", () => ({
+  waitForRetirement: vi.fn(async () => null),
+}));
+
+import { executeRetirement } from "../services/retirement.js";
+import { getBalance, signAndBroadcast, simulateFee } from "../services/wallet.js";
+import { loadConfig } from "../config.js";
+import { selectOrdersForScope } from "../services/order-selector.js";
+import { getDb, createTreasuryLot } from "../server/db.js";
+
+describe("executeRetirement dry run", () => {
+  beforeEach(() => {
+    vi.mocked(signAndBroadcast).mockClear();
+    vi.mocked(simulateFee).mockResolvedValue({
+      gasUsed: 200_000,
+      gasLimit: 280_000,
+      fee: { denom: "uregen", amount: "7000" },
+    });
+  });
+
+  it("previews the fill, fee, and wallet coverage without broadcasting", async () => {
+    vi.mocked(getBalance).mockResolvedValue(10_000_000n);
+
+    const result = await executeRetirement({ creditClass: "C01-001", quantity: 2, dryRun: true });
+
+    expect(result.status).toBe("dry_run");
+    expect(result.cost).toBe("3 REGEN");
+    expect(result.preview).toMatchObject({
+      orders: [{ sellOrderId: "42", quantity: "2.000000", cost: "3 REGEN" }],
+      messages: ["/regen.ecocredit.marketplace.v1.MsgBuyDirect"],
+      gasUsed: 200_000,
+      gasLimit: 280_000,
+      fee: "0.007 REGEN",
+      balances: [{ denom: "REGEN", available: "10 REGEN", required: "3.007 REGEN", sufficient: true }],
+      balanceSufficient: true,
+    });
+    expect(signAndBroadcast).not.toHaveBeenCalled();
+  });
+
+  it("reports a failed simulation and an uncovered purchase", async () => {
+    vi.mocked(getBalance).mockResolvedValue(1_000_000n);
+    vi.mocked(simulateFee).mockRejectedValue(new Error("insufficient funds"));
+
+    const result = await executeRetirement({ quantity: 2, dryRun: true });
+
+    expect(result.preview?.fee).toBeNull();
+    expect(result.preview?.simulationError).toBe("insufficient funds");
+    expect(result.preview?.balances).toEqual([
+      { denom: "REGEN", available: "1 REGEN", required: "3 REGEN", sufficient: false },
+    ]);
+    expect(result.preview?.balanceSufficient).toBe(false);
+  });
+});
+
+describe("executeRetirement with a USD bound", () => {
+  it("refuses a fill worth more than the bound, or one it can't value", async () => {
+    vi.mocked(selectOrdersForScope).mockResolvedValueOnce({
+      ...(await selectOrdersForScope({}, 2)),
+      costUsd: 0.15,
+    });
+    const over = await executeRetirement({ quantity: 2, maxCostUsd: 0.1 });
+    expect(over.status).toBe("marketplace_fallback");
+    expect(over.message).toBe("Buying 2.000000 credits costs $0.15, above the maximum of $0.10.");
+
+    const unpriced = await executeRetirement({ quantity: 2, maxCostUsd: 0.1 });
+    expect(unpriced.message).toMatch(/Can't convert REGEN asks to USD/);
+    expect(signAndBroadcast).not.toHaveBeenCalled();
+  });
+});
+
+describe("executeRetirement with treasury inventory", () => {
+  beforeEach(() => {
+    vi.mocked(getBalance).mockResolvedValue(10_000_000n);
+    vi.mocked(simulateFee).mockResolvedValue({ gasUsed: 1, gasLimit: 1, fee: { denom: "uregen", amount: "0" } });
+    vi.mocked(loadConfig).mockReturnValue({
+      ...loadConfig(),
+      treasuryEnabled: true,
+    } as ReturnType<typeof loadConfig>);
+    const db = getDb(":memory:");
+    db.exec("DELETE FROM treasury_retirements; DELETE FROM treasury_lots;");
+    createTreasuryLot(db, {
+      batch_denom: "C01-001-20150101-20151231-001",
+      credit_class: "C01",
+      quantity_units: "5000000",
+      credit_precision: 6,
+      cost_micro: "5000000",
+      cost_denom: "REGEN",
+      cost_exponent: 6,
+      tx_hash: "BUY",
+    });
+  });
+
+  it("serves a plain request from inventory", async () => {
+    const result = await executeRetirement({ creditClass: "C01", quantity: 2, dryRun: true });
+    expect(result.source).toBe("treasury");
+  });
+
+  it("buys from sell orders when a cost bound or strategy is given", async () => {
+    const bounded = await executeRetirement({ creditClass: "C01", quantity: 2, dryRun: true, maxCost: 10 });
+    expect(bounded.source).toBe("market");
+
+    const ranked = await executeRetirement({ creditClass: "C01", quantity: 2, dryRun: true, strategy: ["newest_vintage"] });
+    expect(ranked.source).toBe("market");
+  });
+});
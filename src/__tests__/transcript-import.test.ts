@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn(() => ({
+    footprintLedgerEnabled: false,
+    footprintIncludeEmbodied: false,
+    footprintRegion: undefined,
+    dbPath: ":memory:",
+  })),
+}));
+
+import { ClaudeCodeTranscriptParser } from "../services/transcripts/claude-code.js";
+import { importTranscripts, formatImportResult } from "../services/transcript-import.js";
+
+function assistant(ts: string, id: string, content: unknown[], usage?: Record<string, number>) {
+  return {
+    type: "assistant",
+    sessionId: "sess-1",
+    cwd: "/home/dev/my-app",
+    timestamp: ts,
+    message: { id, model: "claude-sonnet-4-5", content, usage },
+  };
+}
+
+const records = [
+  { type: "summary", summary: "Refactor" },
+  { type: "user", sessionId: "sess-1", cwd: "/home/dev/my-app", timestamp: "2026-05-01T10:00:00.000Z" },
+  // One API response split into two records that repeat the same usage
+  assistant("2026-05-01T10:01:00.000Z", "msg_1", [{ type: "text", text: "..." }], {
+    input_tokens: 100,
+    output_tokens: 500,
+    cache_creation_input_tokens: 2_000,
+    cache_read_input_tokens: 10_000,
+  }),
+  assistant("2026-05-01T10:01:05.000Z", "msg_1", [{ type: "tool_use", name: "Bash" }], {
+    input_tokens: 100,
+    output_tokens: 500,
+    cache_creation_input_tokens: 2_000,
+    cache_read_input_tokens: 10_000,
+  }),
+  assistant("2026-05-01T10:05:00.000Z", "msg_2", [{ type: "tool_use", name: "Read" }], {
+    input_tokens: 50,
+    output_tokens: 200,
+  }),
+  // Two hours idle, then one more exchange
+  { type: "user", sessionId: "sess-1", timestamp: "2026-05-01T12:05:00.000Z" },
+  assistant("2026-05-01T12:06:00.000Z", "msg_3", [{ type: "text", text: "done" }], {
+    input_tokens: 10,
+    output_tokens: 20,
+  }),
+];
+
+describe("ClaudeCodeTranscriptParser", () => {
+  const parser = new ClaudeCodeTranscriptParser();
+
+  it("detects Claude Code records", () => {
+    expect(parser.detect(records)).toBe(true);
+    expect(parser.detect([{ role: "user", content: "hi" }])).toBe(false);
+  });
+
+  it("derives duration, tool calls, and de-duplicated token usage", () => {
+    const [session] = parser.parse(records, "sess-1.jsonl");
+
+    expect(session.sessionId).toBe("sess-1");
+    expect(session.project).toBe("my-app");
+    expect(session.toolCalls).toBe(2);
+    // 5 minutes before the idle gap + 1 minute after it
+    expect(session.activeMinutes).toBe(6);
+    expect(session.usage).toEqual([
+      { model: "claude-sonnet-4-5", input_tokens: 2_160, output_tokens: 720, cached_tokens: 10_000 },
+    ]);
+  });
+});
+
+describe("importTranscripts", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "regen-transcripts-"));
+    writeFileSync(join(dir, "sess-1.jsonl"), records.map((r) => JSON.stringify(r)).join("\n") + "\n{partial");
+    writeFileSync(join(dir, "other.jsonl"), JSON.stringify({ role: "user", content: "hi" }));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("estimates each session from its token usage and skips unknown formats", () => {
+    const result = importTranscripts(dir, { dryRun: true });
+
+    expect(result.filesScanned).toBe(2);
+    expect(result.filesSkipped).toHaveLength(1);
+    expect(result.sessions).toHaveLength(1);
+    expect(result.sessions[0].estimate.basis).toBe("tokens");
+    expect(result.sessions[0].recorded).toBe(false);
+    expect(formatImportResult(result, true)).toContain("DRY RUN");
+  });
+
+  it("rejects an unknown explicit format", () => {
+    expect(() => importTranscripts(dir, { format: "nope" })).toThrow(/Unknown transcript format/);
+  });
+});
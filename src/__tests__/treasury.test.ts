@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn(() => ({
+    dbPath: ":memory:",
+    cacheEnabled: false,
+    treasuryEnabled: true,
+    treasuryReorder: { carbon: { threshold: 5, target: 20 } },
+  })),
+  isWalletConfigured: vi.fn(() => true),
+}));
+
+vi.mock("../services/wallet.js", () => ({
+  initWallet: vi.fn(async () => ({ address: "regen1treasury" })),
+  signAndBroadcast: vi.fn(async () => ({ code: 0, transactionHash: "TX", height: 42 })),
+  getBalance: vi.fn(async () => 100_000_000n),
+}));
+
+vi.mock("../services/ledger.js", () => ({
+  getAllowedDenoms: vi.fn(async () => [
+    { bank_denom: "uregen", display_denom: "REGEN", exponent: 6 },
+    { bank_denom: "ibc/ATOM", display_denom: "ATOM", exponent: 6 },
+  ]),
+  listCreditClasses: vi.fn(async () => [
+    { id: "C01", admin: "regen1admin", metadata: "", credit_type_abbrev: "C" },
+    { id: "C02", admin: "regen1admin", metadata: "", credit_type_abbrev: "C" },
+  ]),
+  listCreditTypes: vi.fn(async () => [{ abbreviation: "C", name: "carbon", unit: "metric ton CO2 equivalent", precision: 6 }]),
+}));
+
+vi.mock("../services/order-selector.js", () => ({
+  selectAcrossDenoms: vi.fn(async () => ({
+    orders: [
+      {
+        sellOrderId: "7",
+        batchDenom: "C01-001-20150101-20151231-001",
+        quantity: "4.000000",
+        askAmount: "2000000",
+        askDenom: "uregen",
+        costMicro: 8_000_000n,
+      },
+      {
+        sellOrderId: "9",
+        batchDenom: "C02-003-20200101-20201231-001",
+        quantity: "6.000000",
+        askAmount: "3000000",
+        askDenom: "uregen",
+        costMicro: 18_000_000n,
+      },
+    ],
+    totalQuantity: "10.000000",
+    totalCostMicro: 26_000_000n,
+    paymentDenom: "uregen",
+    displayDenom: "REGEN",
+    exponent: 6,
+    insufficientSupply: false,
+  })),
+}));
+
+import {
+  buyInventory,
+  planInventoryRetirement,
+  retireFromInventory,
+  consumeInventoryForBatches,
+  inventoryCostCents,
+  buildInventoryReport,
+} from "../services/treasury.js";
+import { selectAcrossDenoms } from "../services/order-selector.js";
+import { signAndBroadcast, getBalance } from "../services/wallet.js";
+import { listCreditTypes } from "../services/ledger.js";
+import { getDb } from "../server/db.js";
+import { setPriceOracle } from "../services/price-oracle.js";
+
+// REGEN at $0.05; ATOM has no USD rate
+setPriceOracle({
+  name: "static",
+  usdPrice: async (denom) => (denom.display_denom === "REGEN" ? 0.05 : null),
+});
+
+const db = getDb(":memory:");
+
+describe("treasury inventory", () => {
+  beforeEach(() => {
+    vi.mocked(signAndBroadcast).mockClear();
+    db.exec("DELETE FROM treasury_retirements; DELETE FROM treasury_lots;");
+  });
+
+  it("buys tradable credits and records a lot per order", async () => {
+    const purchase = await buyInventory({ quantity: 10, creditType: "carbon" });
+
+    expect(purchase.status).toBe("purchased");
+    expect(vi.mocked(selectAcrossDenoms).mock.calls[0][4]).toEqual({ tradable: true, balanceOf: getBalance });
+    const msg = vi.mocked(signAndBroadcast).mock.calls[0][0][0] as { value: { orders: Array<{ disableAutoRetire: boolean }> } };
+    expect(msg.value.orders.every((o) => o.disableAutoRetire)).toBe(true);
+
+    const report = buildInventoryReport();
+    expect(report.batches.map((b) => [b.batchDenom, b.onHand])).toEqual([
+      ["C01-001-20150101-20151231-001", 4_000_000n],
+      ["C02-003-20200101-20201231-001", 6_000_000n],
+    ]);
+    expect(report.batches[0].costBasis[0]).toMatchObject({ denom: "REGEN", avgPerCreditMicro: 2_000_000n });
+  });
+
+  it("retires oldest lots first and allocates their cost basis", async () => {
+    await buyInventory({ quantity: 10 });
+
+    const plan = planInventoryRetirement(5, { creditType: "carbon" });
+    expect(plan?.allocations.map((a) => [a.batchDenom, a.quantity, a.costMicro])).toEqual([
+      ["C01-001-20150101-20151231-001", 4_000_000n, 8_000_000n],
+      ["C02-003-20200101-20201231-001", 1_000_000n, 3_000_000n],
+    ]);
+
+    const retirement = await retireFromInventory("regen1treasury", plan!, "US", "test");
+    expect(retirement.costs).toEqual([{ denom: "REGEN", exponent: 6, micro: 11_000_000n }]);
+
+    const msg = vi.mocked(signAndBroadcast).mock.calls[1][0][0];
+    expect(msg.typeUrl).toBe("/regen.ecocredit.v1.MsgRetire");
+
+    const report = buildInventoryReport();
+    expect(report.batches.map((b) => b.onHand)).toEqual([0n, 5_000_000n]);
+    expect(report.reorders).toEqual([
+      { key: "carbon", threshold: 5, target: 20, onHand: 5_000_000n, precision: 6, belowThreshold: false },
+    ]);
+  });
+
+  it("keeps fractional lot quantities exact", async () => {
+    await buyInventory({ quantity: 10 });
+
+    for (let i = 0; i < 3; i++) {
+      consumeInventoryForBatches([{ batchDenom: "C01-001-20150101-20151231-001", amount: "0.1" }], `TX${i}`);
+    }
+
+    expect(buildInventoryReport().batches[0]).toMatchObject({ onHand: 3_700_000n, retired: 300_000n });
+    expect(planInventoryRetirement(9.7, {})?.quantity).toBe(9_700_000n);
+    expect(planInventoryRetirement(9.700001, {})).toBeNull();
+  });
+
+  it("stores each lot at its credit type's precision", async () => {
+    vi.mocked(listCreditTypes).mockResolvedValueOnce([
+      { abbreviation: "C", name: "carbon", unit: "metric ton CO2 equivalent", precision: 2 },
+    ]);
+    await buyInventory({ quantity: 10 });
+
+    expect(buildInventoryReport().batches.map((b) => [b.precision, b.onHand])).toEqual([
+      [2, 400n],
+      [2, 600n],
+    ]);
+    const plan = planInventoryRetirement(4.5, {});
+    expect(plan).toMatchObject({ quantity: 4_500_000n, precision: 6 });
+    expect(plan?.allocations.map((a) => [a.quantity, a.precision, a.costMicro])).toEqual([
+      [400n, 2, 8_000_000n],
+      [50n, 2, 1_500_000n],
+    ]);
+
+    const retirement = await retireFromInventory("regen1treasury", plan!, "US", "test");
+    expect(retirement.credits.map((c) => c.amount)).toEqual(["4.00", "0.50"]);
+    expect(retirement.totalQuantity).toBe("4.500000");
+  });
+
+  it("prices a cost basis in cents at the oracle's rates", async () => {
+    expect(await inventoryCostCents([{ denom: "REGEN", exponent: 6, micro: 11_000_000n }])).toBe(55);
+    await expect(inventoryCostCents([{ denom: "ATOM", exponent: 6, micro: 1_000_000n }])).rejects.toThrow(
+      /No USD rate for ATOM/
+    );
+  });
+
+  it("leaves out lots the procurement policy blocks", async () => {
+    await buyInventory({ quantity: 10 });
+    const batchReason = (denom: string) => (denom.startsWith("C02-") ? "credit class C02 is excluded" : null);
+
+    const plan = planInventoryRetirement(4, { batchReason });
+    expect(plan?.allocations.map((a) => a.batchDenom)).toEqual(["C01-001-20150101-20151231-001"]);
+    expect(plan?.blocked).toEqual([
+      { batchDenom: "C02-003-20200101-20201231-001", reason: "credit class C02 is excluded" },
+    ]);
+    expect(planInventoryRetirement(5, { batchReason })).toBeNull();
+  });
+
+  it("declines requests the inventory cannot cover", async () => {
+    await buyInventory({ quantity: 10 });
+    expect(planInventoryRetirement(11, {})).toBeNull();
+    expect(planInventoryRetirement(1, { creditType: "biodiversity" })).toBeNull();
+  });
+});
@@ -7,10 +7,23 @@
  */
 
 export interface Config {
-  // Existing (Phase 1)
-  indexerUrl: string;
-  lcdUrl: string;
+  // Existing (Phase 1). Indexer and LCD accept comma-separated fallbacks.
+  indexerUrls: string[];
+  lcdUrls: string[];
   marketplaceUrl: string;
+  metadataApiUrl: string;
+
+  // Shared HTTP client (ledger, indexer, ecoBridge, price feed)
+  httpTimeoutMs: number;
+  httpRetries: number;
+  httpCircuitThreshold: number;
+  httpCircuitCooldownMs: number;
+
+  // Ledger/indexer data cache
+  cacheEnabled: boolean;
+  cachePersist: boolean;
+  /** Per-resource TTL overrides, e.g. { sell_orders: 15000 } */
+  cacheTtlOverridesMs: Record<string, number>;
 
   // Direct retirement (Phase 1.5)
   rpcUrl: string;
@@ -19,6 +32,36 @@ export interface Config {
   paymentProvider: "crypto" | "stripe";
   defaultJurisdiction: string;
 
+  // Footprint estimation
+  footprintRegion: string | undefined;
+  footprintLedgerEnabled: boolean;
+  footprintIncludeEmbodied: boolean;
+  footprintMethodology: string | undefined;
+  autoRetirePoliciesPath: string | undefined;
+
+  // Procurement policy: JSON file of classes, projects, issuers, vintages and
+  // jurisdictions the organisation won't buy (see services/procurement-policy.ts)
+  procurementPolicyPath: string | undefined;
+
+  // Treasury inventory: retirements served from credits bought in bulk
+  treasuryEnabled: boolean;
+  /** Reorder rules keyed by credit type ("carbon", "biodiversity") or class ID */
+  treasuryReorder: Record<string, { threshold: number; target: number }>;
+
+  // Basket retirements: basket denoms whose tokens may be minted from sell
+  // orders (buy eligible credits, MsgPut) when the wallet holds too few
+  basketRoutes: string[];
+
+  // Firm retirement quotes (get_retirement_quote, POST /api/v1/quote)
+  quoteTtlSeconds: number;
+
+  // Sell order selection strategies for pool-run purchases (see
+  // services/selection-strategy.ts); cheapest-first when empty
+  poolStrategy: string[];
+
+  // Local SQLite database (payment server, pool runs, footprint ledger)
+  dbPath: string;
+
   // ecoBridge integration (Phase 1.5)
   ecoBridgeApiUrl: string;
   ecoBridgeEnabled: boolean;
@@ -55,16 +98,58 @@ export interface Config {
 
 let _config: Config | undefined;
 
+// "sell_orders=15000,projects=600000" → { sell_orders: 15000, projects: 600000 }
+function parseTtlOverrides(value: string | undefined): Record<string, number> {
+  const overrides: Record<string, number> = {};
+  for (const pair of (value ?? "").split(",")) {
+    const [name, ms] = pair.split("=").map((s) => s.trim());
+    const parsed = parseInt(ms ?? "", 10);
+    if (name && Number.isFinite(parsed) && parsed >= 0) overrides[name] = parsed;
+  }
+  return overrides;
+}
+
+// "carbon=10:100,C02=5:50" → { carbon: { threshold: 10, target: 100 }, C02: { threshold: 5, target: 50 } }
+function parseReorderRules(value: string | undefined): Record<string, { threshold: number; target: number }> {
+  const rules: Record<string, { threshold: number; target: number }> = {};
+  for (const pair of (value ?? "").split(",")) {
+    const [name, levels] = pair.split("=").map((s) => s.trim());
+    const [threshold, target] = (levels ?? "").split(":").map((n) => parseFloat(n));
+    if (name && Number.isFinite(threshold) && Number.isFinite(target) && target > threshold && threshold >= 0) {
+      rules[name] = { threshold, target };
+    }
+  }
+  return rules;
+}
+
+function parseUrlList(value: string | undefined, fallback: string): string[] {
+  const urls = (value ?? "").split(",").map((u) => u.trim()).filter(Boolean);
+  return urls.length > 0 ? urls : [fallback];
+}
+
 export function loadConfig(): Config {
   if (_config) return _config;
 
   _config = {
-    indexerUrl:
-      process.env.REGEN_INDEXER_URL ||
-      "https://api.regen.network/indexer/v1/graphql",
-    lcdUrl: process.env.REGEN_LCD_URL || "https://lcd-regen.keplr.app",
+    indexerUrls: parseUrlList(
+      process.env.REGEN_INDEXER_URL,
+      "https://api.regen.network/indexer/v1/graphql"
+    ),
+    lcdUrls: parseUrlList(process.env.REGEN_LCD_URL, "https://lcd-regen.keplr.app"),
     marketplaceUrl:
       process.env.REGEN_MARKETPLACE_URL || "https://app.regen.network",
+    metadataApiUrl:
+      process.env.REGEN_METADATA_API_URL ||
+      "https://api.regen.network/data/v2/metadata-graph",
+
+    httpTimeoutMs: parseInt(process.env.REGEN_HTTP_TIMEOUT_MS || "10000", 10),
+    httpRetries: parseInt(process.env.REGEN_HTTP_RETRIES || "2", 10),
+    httpCircuitThreshold: parseInt(process.env.REGEN_HTTP_CIRCUIT_THRESHOLD || "5", 10),
+    httpCircuitCooldownMs: parseInt(process.env.REGEN_HTTP_CIRCUIT_COOLDOWN_MS || "30000", 10),
+
+    cacheEnabled: process.env.REGEN_CACHE !== "false",
+    cachePersist: process.env.REGEN_CACHE_PERSIST === "true",
+    cacheTtlOverridesMs: parseTtlOverrides(process.env.REGEN_CACHE_TTLS),
 
     rpcUrl:
       process.env.REGEN_RPC_URL || "http://mainnet.regen.network:26657",
@@ -74,6 +159,21 @@ export function loadConfig(): Config {
       (process.env.REGEN_PAYMENT_PROVIDER as "crypto" | "stripe") || "crypto",
     defaultJurisdiction: process.env.REGEN_DEFAULT_JURISDICTION || "US",
 
+    footprintRegion: process.env.REGEN_FOOTPRINT_REGION || undefined,
+    footprintLedgerEnabled: process.env.REGEN_FOOTPRINT_LEDGER !== "false",
+    footprintIncludeEmbodied: process.env.REGEN_FOOTPRINT_INCLUDE_EMBODIED === "true",
+    footprintMethodology: process.env.REGEN_FOOTPRINT_METHODOLOGY || undefined,
+    autoRetirePoliciesPath: process.env.REGEN_AUTO_RETIRE_POLICIES || undefined,
+    procurementPolicyPath: process.env.REGEN_PROCUREMENT_POLICY || undefined,
+
+    treasuryEnabled: process.env.REGEN_TREASURY === "true",
+    treasuryReorder: parseReorderRules(process.env.REGEN_TREASURY_REORDER),
+    basketRoutes: (process.env.REGEN_BASKET_ROUTES ?? "").split(",").map((d) => d.trim()).filter(Boolean),
+    quoteTtlSeconds: parseInt(process.env.REGEN_QUOTE_TTL_SECONDS || "120", 10),
+    poolStrategy: (process.env.REGEN_POOL_STRATEGY ?? "").split(",").map((s) => s.trim()).filter(Boolean),
+
+    dbPath: process.env.REGEN_DB_PATH || "data/regen-for-ai.db",
+
     ecoBridgeApiUrl:
       process.env.ECOBRIDGE_API_URL || "https://api.bridge.eco",
     ecoBridgeEnabled: process.env.ECOBRIDGE_ENABLED !== "false",
@@ -1,11 +1,19 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
-import { estimateSessionFootprint } from "./tools/footprint.js";
+import {
+  estimateSessionFootprint,
+  getFootprintReport,
+  listFootprintMethodologies,
+  previewAutoRetirement,
+} from "./tools/footprint.js";
 import { browseAvailableCredits } from "./tools/credits.js";
+import { getBatchDetails, getWalletCredits } from "./tools/batches.js";
+import { browseBaskets } from "./tools/baskets.js";
 import { getRetirementCertificate } from "./tools/certificates.js";
 import { getImpactSummary } from "./tools/impact.js";
 import { retireCredits } from "./tools/retire.js";
+import { getRetirementQuote } from "./tools/quote.js";
 import { loadConfig, isWalletConfigured } from "./config.js";
 import {
   fetchRegistry,
@@ -35,6 +43,11 @@ USAGE:
   npx regen-for-ai              Start the MCP server (stdio transport)
   npx regen-for-ai serve        Start the payment & balance web server
   npx regen-for-ai pool-run     Execute monthly pool retirement batch
+  npx regen-for-ai footprint report   Summarise the local footprint ledger
+  npx regen-for-ai footprint import   Import footprints from assistant transcripts
+  npx regen-for-ai auto-retire        Evaluate auto-contribution policies
+  npx regen-for-ai diagnostics        Check connectivity to ledger, indexer, price, and metadata APIs
+  npx regen-for-ai treasury           Manage pre-purchased credit inventory
   regen-for-ai --help           Show this help message
   regen-for-ai --version        Show version
 
@@ -43,8 +56,15 @@ INSTALL (Claude Code):
 
 MCP TOOLS:
   estimate_session_footprint    Estimate your AI session's ecological footprint
+  get_footprint_report          Accumulated footprint by day/week/month vs. retirements
+  list_footprint_methodologies  Versioned footprint methodologies and their constants
+  preview_auto_retirement       Dry-run the configured auto-contribution policies
   browse_available_credits      Browse ecocredits on Regen Marketplace
+  get_batch_details             Vintage, issuance, and retired supply of a credit batch
+  get_wallet_credits            Ecocredits held by an address or the configured wallet
+  browse_baskets                Ecocredit baskets and the batches they hold
   retire_credits                Retire credits (on-chain or marketplace link)
+  get_retirement_quote          Quote a retirement's fill plan, total, and expiry
   get_retirement_certificate    Verify a retirement on-chain
   get_impact_summary            Regen Network aggregate impact stats
   browse_ecobridge_tokens       List cross-chain payment tokens (when enabled)
@@ -61,6 +81,40 @@ POOL RETIREMENT:
   Use --dry-run to calculate without broadcasting transactions.
   Requires REGEN_WALLET_MNEMONIC for live runs.
 
+FOOTPRINT LEDGER:
+  npx regen-for-ai footprint report [--period day|week|month] [--project TAG] [--limit N]
+  Summarises footprint estimates recorded in the local SQLite ledger and
+  how much has been covered by retire_credits retirements.
+
+  npx regen-for-ai footprint import <path> [--format claude-code] [--project TAG]
+                                           [--region REGION] [--dry-run]
+  Parses JSONL assistant transcripts (a file or a directory, e.g.
+  ~/.claude/projects) and records each session's footprint from its real
+  duration, tool calls, and token usage. Re-importing skips known sessions.
+
+AUTO-CONTRIBUTION:
+  npx regen-for-ai auto-retire [--dry-run] [--watch] [--interval MINUTES]
+  Evaluates the policies in REGEN_AUTO_RETIRE_POLICIES and retires carbon
+  credits for uncovered footprint within each policy's spend cap.
+  --watch keeps running and re-evaluates every --interval minutes (default 60).
+
+DIAGNOSTICS:
+  npx regen-for-ai diagnostics [--server]
+  Probes every configured endpoint (REGEN_LCD_URL and REGEN_INDEXER_URL accept
+  comma-separated fallbacks) and prints circuit state, latency, and errors.
+  Exits non-zero when any endpoint is unreachable.
+  --server instead prints the stats the payment server at REGEN_BALANCE_URL
+  has accumulated since it started (authenticated with REGEN_API_KEY).
+
+TREASURY INVENTORY:
+  npx regen-for-ai treasury report
+  npx regen-for-ai treasury buy <quantity> [--type carbon|biodiversity] [--class C01] [--dry-run]
+  npx regen-for-ai treasury reorder [--dry-run]
+  Buys credits in bulk without auto-retiring them and tracks each lot's cost
+  basis. With REGEN_TREASURY=true, retirements are served from this inventory
+  before touching the order book. \`reorder\` refills every REGEN_TREASURY_REORDER
+  rule whose inventory is below its threshold.
+
 CONFIGURATION:
   Copy .env.example to .env to customize. The server works without any
   configuration — read-only tools (footprint, browsing, impact) need no keys.
@@ -113,6 +167,154 @@ if (args[0] === "serve") {
       process.exit(1);
     }
   });
+} else if (args[0] === "diagnostics") {
+  // Handle "diagnostics" subcommand — probe external API endpoints
+  // --server reads the running payment server's accumulated stats instead of probing from this process
+  const fromServer = args.includes("--server");
+  import("./services/diagnostics.js").then(async ({ runDiagnostics, fetchServerDiagnostics, formatDiagnostics }) => {
+    try {
+      if (fromServer) {
+        const config = loadConfig();
+        if (!config.balanceUrl || !config.balanceApiKey) {
+          console.error("--server needs REGEN_BALANCE_URL and REGEN_API_KEY to reach the payment server.");
+          process.exit(1);
+        }
+        const results = await fetchServerDiagnostics(config.balanceUrl, config.balanceApiKey);
+        console.log(formatDiagnostics(results, config.balanceUrl));
+        process.exit(results.every((s) => s.endpoints.every((e) => e.state !== "open")) ? 0 : 1);
+      }
+      const results = await runDiagnostics();
+      console.log(formatDiagnostics(results));
+      process.exit(results.every((s) => s.endpoints.every((e) => e.probeOk)) ? 0 : 1);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`Diagnostics failed: ${msg}`);
+      process.exit(1);
+    }
+  });
+} else if (args[0] === "auto-retire") {
+  // Handle "auto-retire" subcommand — evaluate auto-contribution policies, once or as a daemon
+  const dryRun = args.includes("--dry-run");
+  const watch = args.includes("--watch");
+  const intervalIdx = args.indexOf("--interval");
+  const intervalMinutes = intervalIdx !== -1 ? parseFloat(args[intervalIdx + 1]) : 60;
+  import("./services/auto-retire.js").then(async ({ loadPolicies, evaluatePolicies, formatPolicyEvaluations }) => {
+    const policiesPath = loadConfig().autoRetirePoliciesPath;
+    if (!policiesPath) {
+      console.error("REGEN_AUTO_RETIRE_POLICIES is not set. Point it at a policy JSON file.");
+      process.exit(1);
+    }
+    const runOnce = async () => {
+      const results = await evaluatePolicies(loadPolicies(policiesPath), { dryRun });
+      console.log(`[${new Date().toISOString()}]`);
+      console.log(formatPolicyEvaluations(results, dryRun));
+      return results;
+    };
+    try {
+      const results = await runOnce();
+      if (!watch) process.exit(results.some((r) => r.outcome === "failed") ? 1 : 0);
+      console.log(`\nWatching: re-evaluating every ${intervalMinutes} minutes. Ctrl+C to stop.`);
+      setInterval(() => {
+        runOnce().catch((err) => console.error(`Auto-retire evaluation failed: ${err instanceof Error ? err.message : String(err)}`));
+      }, intervalMinutes * 60_000);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`Auto-retire failed: ${msg}`);
+      process.exit(1);
+    }
+  });
+} else if (args[0] === "treasury") {
+  // Handle "treasury" subcommand — bulk inventory purchases, reorders, and reporting
+  const flag = (name: string) => {
+    const idx = args.indexOf(name);
+    return idx !== -1 ? args[idx + 1] : undefined;
+  };
+  const dryRun = args.includes("--dry-run");
+  import("./services/treasury.js").then(async (treasury) => {
+    try {
+      if (args[1] === "buy") {
+        const quantity = parseFloat(args[2]);
+        if (!Number.isFinite(quantity) || quantity <= 0) {
+          console.error("Usage: regen-for-ai treasury buy <quantity> [--type carbon|biodiversity] [--class C01] [--dry-run]");
+          process.exit(1);
+        }
+        const classId = flag("--class");
+        const purchase = await treasury.buyInventory({
+          quantity,
+          creditType: flag("--type"),
+          classIds: classId ? [classId] : undefined,
+          dryRun,
+        });
+        console.log(treasury.formatInventoryPurchase(purchase));
+        process.exit(purchase.status === "failed" ? 1 : 0);
+      } else if (args[1] === "reorder") {
+        const results = await treasury.checkReorders({ dryRun });
+        console.log(treasury.formatReorderResults(results));
+        process.exit(results.some((r) => r.purchase?.status === "failed") ? 1 : 0);
+      } else {
+        console.log(treasury.formatInventoryReport(treasury.buildInventoryReport()));
+        process.exit(0);
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`Treasury command failed: ${msg}`);
+      process.exit(1);
+    }
+  });
+} else if (args[0] === "footprint" && args[1] === "import") {
+  // Handle "footprint import" subcommand — estimate footprints from transcript logs
+  const flag = (name: string) => {
+    const idx = args.indexOf(name);
+    return idx !== -1 ? args[idx + 1] : undefined;
+  };
+  const path = args[2];
+  const dryRun = args.includes("--dry-run");
+  if (!path || path.startsWith("--")) {
+    console.error("Usage: regen-for-ai footprint import <path> [--format claude-code] [--project TAG] [--region REGION] [--dry-run]");
+    process.exit(1);
+  }
+  import("./services/transcript-import.js").then(({ importTranscripts, formatImportResult }) => {
+    try {
+      const result = importTranscripts(path, {
+        format: flag("--format"),
+        projectTag: flag("--project"),
+        region: flag("--region"),
+        dryRun,
+      });
+      console.log(formatImportResult(result, dryRun));
+      process.exit(0);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`Footprint import failed: ${msg}`);
+      process.exit(1);
+    }
+  });
+} else if (args[0] === "footprint") {
+  // Handle "footprint report" subcommand — summarise the local footprint ledger
+  const flag = (name: string) => {
+    const idx = args.indexOf(name);
+    return idx !== -1 ? args[idx + 1] : undefined;
+  };
+  const period = flag("--period") ?? "month";
+  const limit = flag("--limit");
+  if (args[1] !== "report" || !["day", "week", "month"].includes(period)) {
+    console.error("Usage: regen-for-ai footprint report [--period day|week|month] [--project TAG] [--limit N]");
+    process.exit(1);
+  }
+  import("./services/footprint-ledger.js").then(({ buildFootprintReport, formatFootprintReport }) => {
+    try {
+      const report = buildFootprintReport(period as "day" | "week" | "month", {
+        projectTag: flag("--project"),
+        limit: limit ? parseInt(limit, 10) : undefined,
+      });
+      console.log(formatFootprintReport(report));
+      process.exit(0);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`Footprint report failed: ${msg}`);
+      process.exit(1);
+    }
+  });
 } else {
 
 // Load config early so isWalletConfigured() is available for annotations
@@ -197,15 +399,128 @@ const server = new McpServer(
 // Tool: Estimate the ecological footprint of the current AI session
 server.tool(
   "estimate_session_footprint",
-  "Estimates the ecological footprint of the current AI session. Use this when the user asks about the environmental cost of their AI usage, wants to know their carbon footprint, or is considering offsetting their compute impact. Returns energy consumption (kWh), CO2 equivalent (kg), and suggested credit retirement quantity. The estimate is heuristic-based and clearly labeled as approximate.",
+  "Estimates the ecological footprint of the current AI session. Use this when the user asks about the environmental cost of their AI usage, wants to know their carbon footprint, or is considering offsetting their compute impact. Returns energy consumption (kWh), CO2 equivalent (kg), water use (litres), embodied hardware CO2, and suggested credit retirement quantity. When per-model token counts are supplied, energy is computed from a versioned per-model energy table; otherwise a duration-based heuristic is used. The estimate is clearly labeled as approximate and includes low/central/high bounds with the parameter that drives most of the variance.",
   {
     session_minutes: z
       .number()
-      .describe("Approximate session duration in minutes"),
+      .optional()
+      .describe("Approximate session duration in minutes (required unless token usage is given)"),
     tool_calls: z
       .number()
       .optional()
       .describe("Number of tool calls made in session (improves estimate accuracy)"),
+    usage: z
+      .array(
+        z.object({
+          model: z.string().describe("Model name, e.g. 'claude-sonnet-4' or 'gpt-4o-mini'"),
+          input_tokens: z.number().describe("Input (prompt) tokens"),
+          output_tokens: z.number().describe("Output (generated) tokens"),
+          cached_tokens: z.number().optional().describe("Prompt tokens served from cache"),
+        })
+      )
+      .optional()
+      .describe("Per-model token counts for the session. Replaces the duration heuristic when provided."),
+    region: z
+      .string()
+      .optional()
+      .describe("Where the compute ran, for the grid carbon-intensity factor: country ('DE'), subregion ('US-OR'), or cloud region ('us-east-1', 'europe-west4'). Defaults to REGEN_FOOTPRINT_REGION or the global average."),
+    project_tag: z
+      .string()
+      .optional()
+      .describe("Project or team tag to file this estimate under in the local footprint ledger"),
+    include_embodied: z
+      .boolean()
+      .optional()
+      .describe("Also count embodied hardware emissions in the suggested credits and cost. Defaults to REGEN_FOOTPRINT_INCLUDE_EMBODIED (false)."),
+    methodology: z
+      .string()
+      .optional()
+      .describe("Methodology ID to pin (see list_footprint_methodologies), e.g. to reproduce an earlier estimate. Defaults to REGEN_FOOTPRINT_METHODOLOGY or the current methodology."),
+    market_quote: z
+      .boolean()
+      .optional()
+      .describe("Also quote the live cost of covering the estimate from current sell orders (carbon, biodiversity, and USS side by side). Falls back to fixed prices when the network is unreachable."),
+  },
+  {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async ({ session_minutes, tool_calls, usage, region, project_tag, include_embodied, methodology, market_quote }) => {
+    if (!session_minutes && !usage?.length) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: "Provide either session_minutes or per-model token usage to estimate a footprint.",
+        }],
+        isError: true,
+      };
+    }
+    return estimateSessionFootprint(
+      session_minutes ?? 0,
+      tool_calls,
+      usage,
+      region,
+      project_tag,
+      include_embodied,
+      methodology,
+      market_quote
+    );
+  }
+);
+
+// Tool: Preview auto-contribution policies
+server.tool(
+  "preview_auto_retirement",
+  "Dry-runs the configured auto-contribution policies: shows which would trigger now (uncovered footprint over threshold, or scheduled weekday), how much of each spend cap is used, and what quantity and cost they would retire. Never executes a retirement — the `regen-for-ai auto-retire` command does that.",
+  {},
+  {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async () => {
+    return previewAutoRetirement();
+  }
+);
+
+// Tool: List versioned footprint methodologies
+server.tool(
+  "list_footprint_methodologies",
+  "Lists the versioned methodologies used to compute footprint estimates, with every constant, its sources, and the dates each methodology was the default. Use this when the user asks how an estimate was calculated, wants to cite the methodology, or needs to reproduce an older estimate by pinning its methodology ID.",
+  {},
+  {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async () => {
+    return listFootprintMethodologies();
+  }
+);
+
+// Tool: Report accumulated footprint from the local ledger
+server.tool(
+  "get_footprint_report",
+  "Summarises the AI footprint accumulated in the local ledger by day, week, or month, and shows how much of it has already been covered by retirements made through retire_credits. Use this when the user asks what their (or their team's) AI usage has cost over time, or how much of it remains uncovered.",
+  {
+    period: z
+      .enum(["day", "week", "month"])
+      .optional()
+      .default("month")
+      .describe("Reporting period to group estimates by (weeks are ISO 8601, e.g. 2026-W42)"),
+    project_tag: z
+      .string()
+      .optional()
+      .describe("Only include estimates filed under this project tag"),
+    limit: z
+      .number()
+      .optional()
+      .default(12)
+      .describe("Number of most recent periods to show"),
   },
   {
     readOnlyHint: true,
@@ -213,15 +528,15 @@ server.tool(
     idempotentHint: true,
     openWorldHint: false,
   },
-  async ({ session_minutes, tool_calls }) => {
-    return estimateSessionFootprint(session_minutes, tool_calls);
+  async ({ period, project_tag, limit }) => {
+    return getFootprintReport(period, project_tag, limit);
   }
 );
 
 // Tool: Browse available ecocredits on Regen Marketplace
 server.tool(
   "browse_available_credits",
-  "Lists ecocredits currently available for purchase on Regen Network marketplace. Use this when the user asks what credits exist, wants to compare carbon vs. biodiversity credits, or is exploring options before retiring. Shows live sell orders, recent marketplace activity, credit classes, and project details.",
+  "Lists ecocredits currently available for purchase on Regen Network marketplace. Use this when the user asks what credits exist, wants to compare carbon vs. biodiversity credits, or is exploring options before retiring. Shows live sell orders, recent marketplace activity, credit classes, and project details. When an organisation procurement policy is configured, excluded classes, projects and sell orders are marked with the reason.",
   {
     credit_type: z
       .enum(["carbon", "biodiversity", "all"])
@@ -245,6 +560,69 @@ server.tool(
   }
 );
 
+// Tool: Inspect a single credit batch
+server.tool(
+  "get_batch_details",
+  "Shows the details of one ecocredit batch on Regen Network: its project, vintage (monitoring period), issuance date, issuer, and supply — how many credits were issued, how many have been retired, and how many remain tradable or are listed for sale. Use this when the user asks about a specific batch denom, its vintage, or how much of it is already retired.",
+  {
+    batch_denom: z
+      .string()
+      .describe("Credit batch denom, e.g. 'C01-001-20150101-20151231-001'"),
+  },
+  {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async ({ batch_denom }) => {
+    return getBatchDetails(batch_denom);
+  }
+);
+
+// Tool: List ecocredits held by an address
+server.tool(
+  "get_wallet_credits",
+  walletMode
+    ? "Lists the ecocredits already held by this server's Regen wallet (or another address): tradable, retired, and escrowed-in-sell-order amounts per batch. Use this when the user asks what credits they own or have available before buying more."
+    : "Lists the ecocredits held by a Regen address (regen1...): tradable, retired, and escrowed-in-sell-order amounts per batch. Use this when the user asks what credits an address owns.",
+  {
+    address: z
+      .string()
+      .optional()
+      .describe(
+        walletMode
+          ? "Regen address to inspect. Defaults to the configured wallet."
+          : "Regen address to inspect (regen1...)"
+      ),
+  },
+  {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async ({ address }) => {
+    return getWalletCredits(address);
+  }
+);
+
+// Tool: List ecocredit baskets and their contents
+server.tool(
+  "browse_baskets",
+  "Lists the ecocredit baskets on Regen Network: each basket's token denom, credit type, accepted credit classes, vintage criteria, and the batches it currently holds. Use this when the user asks about basket tokens (e.g. NCT) or wants to retire credits from a basket with retire_credits and source 'basket'.",
+  {},
+  {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async () => {
+    return browseBaskets();
+  }
+);
+
 // Tool: Get a verifiable retirement certificate
 server.tool(
   "get_retirement_certificate",
@@ -281,6 +659,34 @@ server.tool(
   }
 );
 
+// Tool: Quote a retirement before executing it
+server.tool(
+  "get_retirement_quote",
+  "Quotes a credit retirement before executing it: which sell orders would fill, the total cost, and when the quote expires. Use this when the user wants to know the exact price first or to lock it in; then call retire_credits with the quote_id to buy exactly the quoted orders.",
+  {
+    credit_class: z
+      .string()
+      .optional()
+      .describe("What to retire: a credit type ('C', 'BT'), class ID ('C01'), project ID ('C01-001') or batch denom. Omit for the cheapest available credits."),
+    quantity: z.number().positive().describe("Number of credits to quote"),
+    strategy: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "How to choose sell orders, applied in order (default cheapest-first): 'cheapest', 'newest_vintage', 'prefer_jurisdictions:US/BR', 'min_projects:3', 'max_batch_pct:40'. A re-quote of this quote uses the same strategies."
+      ),
+  },
+  {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  async ({ credit_class, quantity, strategy }) => {
+    return getRetirementQuote(credit_class, quantity, strategy);
+  }
+);
+
 // Tool: Retire credits — either direct on-chain execution or marketplace link
 server.tool(
   "retire_credits",
@@ -292,7 +698,7 @@ server.tool(
       .string()
       .optional()
       .describe(
-        "Credit class to retire (e.g., 'C01' for carbon, 'BT01' for biodiversity). Omit to browse all."
+        "What to retire, matched exactly: a credit type ('C' for carbon, 'BT' for biodiversity), a class ID ('C01'), a project ID ('C01-001') to fund a specific project, or a batch denom ('C01-001-20150101-20151231-001'). Omit to retire the cheapest available credits."
       ),
     quantity: z
       .number()
@@ -312,6 +718,44 @@ server.tool(
       .string()
       .optional()
       .describe("Reason for retiring credits (recorded on-chain)"),
+    source: z
+      .enum(["market", "wallet", "basket"])
+      .optional()
+      .describe(
+        "'market' (default) buys credits from sell orders and retires them; 'wallet' retires tradable credits the configured wallet already holds (see get_wallet_credits) without buying; 'basket' takes and retires the oldest credits of a basket (see browse_baskets) with the wallet's basket tokens"
+      ),
+    batch_denom: z
+      .string()
+      .optional()
+      .describe("Retire from this batch of the wallet's own credits (implies source 'wallet'). Omit to retire the oldest vintages first."),
+    basket_denom: z
+      .string()
+      .optional()
+      .describe("Basket to take from, e.g. 'eco.uC.NCT' (implies source 'basket'). Omit to pick a basket by credit type."),
+    dry_run: z
+      .boolean()
+      .optional()
+      .describe("Preview only: show the sell orders that would fill, total cost, simulated gas and fee, and whether the wallet balance covers it, without paying or broadcasting"),
+    quote_id: z
+      .string()
+      .optional()
+      .describe("Execute a quote from get_retirement_quote: buys its quoted orders (credit_class and quantity come from the quote). Rejected with a fresh quote if it expired or the order book moved beyond max_cost / max_slippage_pct."),
+    max_cost: z
+      .number()
+      .positive()
+      .optional()
+      .describe("Maximum total cost in the payment denom (e.g. 12.5 for 12.5 REGEN); the retirement is refused if filling costs more"),
+    max_slippage_pct: z
+      .number()
+      .min(0)
+      .optional()
+      .describe("With quote_id: accept a re-priced fill up to this many percent above the quoted total (default 0)"),
+    strategy: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "How to choose sell orders, applied in order (default cheapest-first): 'cheapest', 'newest_vintage', 'prefer_jurisdictions:US/BR' (projects in these jurisdictions first), 'min_projects:3' (spread over at least 3 projects), 'max_batch_pct:40' (no batch supplies more than 40%). Each chosen order is listed with why it was picked."
+      ),
   },
   {
     readOnlyHint: !walletMode,
@@ -319,8 +763,31 @@ server.tool(
     idempotentHint: !walletMode,
     openWorldHint: walletMode,
   },
-  async ({ credit_class, quantity, beneficiary_name, jurisdiction, reason }) => {
-    return retireCredits(credit_class, quantity, beneficiary_name, jurisdiction, reason);
+  async ({
+    credit_class,
+    quantity,
+    beneficiary_name,
+    jurisdiction,
+    reason,
+    source,
+    batch_denom,
+    basket_denom,
+    dry_run,
+    quote_id,
+    max_cost,
+    max_slippage_pct,
+    strategy,
+  }) => {
+    return retireCredits(credit_class, quantity, beneficiary_name, jurisdiction, reason, {
+      source,
+      batchDenom: batch_denom,
+      basketDenom: basket_denom,
+      dryRun: dry_run,
+      quoteId: quote_id,
+      maxCost: max_cost,
+      maxSlippagePct: max_slippage_pct,
+      strategy,
+    });
   }
 );
 
@@ -17,11 +17,21 @@ import { dirname, join } from "path";
 import type Database from "better-sqlite3";
 import type { Config } from "../config.js";
 import { getUserByApiKey, recordApiUsage, type User } from "./db.js";
-import { estimateFootprint } from "../services/estimator.js";
+import { estimateFootprint, type FootprintEstimate, type ModelTokenUsage } from "../services/estimator.js";
 import { getRetirementById, getRetirementStats, getOrderStats } from "../services/indexer.js";
 import { listCreditClasses, listSellOrders, listProjects } from "../services/ledger.js";
 import { getRecentOrders } from "../services/indexer.js";
-import { executeRetirement } from "../services/retirement.js";
+import { executeRetirement, formatAmount } from "../services/retirement.js";
+import { createQuote, getQuote, QuoteError, type Quote } from "../services/quote.js";
+import type { DenomRate } from "../services/price-oracle.js";
+import { parseCreditScope, type BlockedOrder } from "../services/order-selector.js";
+import { parseStrategies, STRATEGY_SYNTAX } from "../services/selection-strategy.js";
+import { getPolicyScreen, type BlockedBatch } from "../services/procurement-policy.js";
+import { quoteMarketCost } from "../services/market-cost.js";
+import { getMethodology } from "../services/methodology.js";
+import { ingestOtlpTraces, assertOtlpTraceRequest } from "../services/otel-ingest.js";
+import { buildFootprintReport, type FootprintPeriod } from "../services/footprint-ledger.js";
+import { collectHealth } from "../services/diagnostics.js";
 
 // Credit type abbreviation to human-readable name
 const CREDIT_TYPE_NAMES: Record<string, string> = {
@@ -86,6 +96,110 @@ function apiError(
   res.status(status).json(body);
 }
 
+// --- Conversion rates ---
+
+function ratesToJson(rates: DenomRate[] | undefined) {
+  return (rates ?? []).map((r) => ({
+    denom: r.bankDenom,
+    display_denom: r.displayDenom,
+    usd_per_unit: r.usdPerUnit,
+    source: r.source,
+  }));
+}
+
+// --- Retired batches and policy-blocked orders ---
+
+function batchToJson(batch: { batchDenom: string; quantity: string; reason?: string }) {
+  return { batch_denom: batch.batchDenom, quantity: batch.quantity, reason: batch.reason ?? null };
+}
+
+function blockedToJson(blocked: BlockedOrder[] | undefined) {
+  return (blocked ?? []).map((b) => ({ sell_order_id: b.sellOrderId, batch_denom: b.batchDenom, reason: b.reason }));
+}
+
+function blockedBatchesToJson(blocked: BlockedBatch[] | undefined) {
+  return (blocked ?? []).map((b) => ({ batch_denom: b.batchDenom, reason: b.reason }));
+}
+
+// --- Quotes ---
+
+function quoteToJson(quote: Quote) {
+  return {
+    quote_id: quote.id,
+    credit_class: quote.creditClass,
+    quantity: quote.quantity,
+    orders: quote.orders.map((o) => ({
+      sell_order_id: o.sellOrderId,
+      batch_denom: o.batchDenom,
+      quantity: o.quantity,
+      ask_amount: o.askAmount,
+      ask_denom: o.askDenom,
+      cost: formatAmount(o.costMicro, quote.exponent, quote.displayDenom),
+    })),
+    total_cost: formatAmount(quote.totalCostMicro, quote.exponent, quote.displayDenom),
+    total_cost_micro: quote.totalCostMicro.toString(),
+    payment_denom: quote.paymentDenom,
+    cost_usd: quote.costUsd,
+    conversion_rates: ratesToJson(quote.rates),
+    strategy: quote.strategies,
+    created_at: quote.createdAt,
+    expires_at: quote.expiresAt,
+  };
+}
+
+// --- Footprint query parsing ---
+
+/**
+ * Token usage can be passed either as a JSON-encoded `usage` array
+ * (`[{"model":"...","input_tokens":1,"output_tokens":2}]`) or, for a
+ * single model, as flat `model` / `input_tokens` / `output_tokens` /
+ * `cached_tokens` query parameters.
+ */
+function parseUsageQuery(query: Request["query"]): ModelTokenUsage[] | undefined {
+  if (typeof query.usage === "string" && query.usage) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(query.usage);
+    } catch {
+      throw new Error("usage must be a JSON array of { model, input_tokens, output_tokens, cached_tokens? }");
+    }
+    if (!Array.isArray(raw) || raw.length === 0) {
+      throw new Error("usage must be a non-empty JSON array");
+    }
+    return raw.map((entry, i) => {
+      const e = entry as Record<string, unknown>;
+      if (typeof e.model !== "string" || !e.model) {
+        throw new Error(`usage[${i}].model must be a non-empty string`);
+      }
+      return {
+        model: e.model,
+        input_tokens: toTokenCount(e.input_tokens, `usage[${i}].input_tokens`),
+        output_tokens: toTokenCount(e.output_tokens, `usage[${i}].output_tokens`),
+        cached_tokens: toTokenCount(e.cached_tokens ?? 0, `usage[${i}].cached_tokens`),
+      };
+    });
+  }
+
+  if (typeof query.model === "string" && query.model) {
+    return [{
+      model: query.model,
+      input_tokens: toTokenCount(query.input_tokens ?? 0, "input_tokens"),
+      output_tokens: toTokenCount(query.output_tokens ?? 0, "output_tokens"),
+      cached_tokens: toTokenCount(query.cached_tokens ?? 0, "cached_tokens"),
+    }];
+  }
+
+  return undefined;
+}
+
+function toTokenCount(value: unknown, field: string): number {
+  const n = typeof value === "number" ? value : parseInt(String(value), 10);
+  if (!Number.isFinite(n) || n < 0) {
+    throw new Error(`${field} must be a non-negative integer`);
+  }
+  return n;
+}
+
 // --- Auth middleware ---
 
 function authenticateApiKey(
@@ -183,12 +297,78 @@ export function createApiRoutes(
     const user = getUser(req);
     if (!user) return;
 
-    const { credit_class, quantity, beneficiary_name, jurisdiction, reason } = req.body ?? {};
+    const {
+      credit_class,
+      quantity,
+      beneficiary_name,
+      jurisdiction,
+      reason,
+      source,
+      batch_denom,
+      basket_denom,
+      dry_run,
+      quote_id,
+      max_cost,
+      max_slippage_pct,
+      strategy,
+    } = req.body ?? {};
 
     if (quantity !== undefined && (typeof quantity !== "number" || quantity <= 0)) {
       apiError(res, 400, "INVALID_REQUEST", "quantity must be a positive number");
       return;
     }
+    if (credit_class !== undefined && (typeof credit_class !== "string" || !parseCreditScope(credit_class))) {
+      apiError(
+        res,
+        400,
+        "INVALID_REQUEST",
+        "credit_class must be a credit type (C, BT), class ID (C01), project ID (C01-001) or batch denom"
+      );
+      return;
+    }
+    if (source !== undefined && source !== "market" && source !== "wallet" && source !== "basket") {
+      apiError(res, 400, "INVALID_REQUEST", "source must be 'market', 'wallet' or 'basket'");
+      return;
+    }
+    if (batch_denom !== undefined && (typeof batch_denom !== "string" || source === "market")) {
+      apiError(res, 400, "INVALID_REQUEST", "batch_denom must be a string and only applies to source 'wallet'");
+      return;
+    }
+    if (basket_denom !== undefined && (typeof basket_denom !== "string" || (source !== undefined && source !== "basket"))) {
+      apiError(res, 400, "INVALID_REQUEST", "basket_denom must be a string and only applies to source 'basket'");
+      return;
+    }
+    if (dry_run !== undefined && typeof dry_run !== "boolean") {
+      apiError(res, 400, "INVALID_REQUEST", "dry_run must be a boolean");
+      return;
+    }
+    if (max_cost !== undefined && (typeof max_cost !== "number" || max_cost <= 0)) {
+      apiError(res, 400, "INVALID_REQUEST", "max_cost must be a positive number");
+      return;
+    }
+    if (max_slippage_pct !== undefined && (typeof max_slippage_pct !== "number" || max_slippage_pct < 0 || !quote_id)) {
+      apiError(res, 400, "INVALID_REQUEST", "max_slippage_pct must be a non-negative number and requires quote_id");
+      return;
+    }
+    if (strategy !== undefined) {
+      if (!Array.isArray(strategy) || strategy.some((s) => typeof s !== "string")) {
+        apiError(res, 400, "INVALID_REQUEST", "strategy must be an array of strings");
+        return;
+      }
+      const { invalid } = parseStrategies(strategy);
+      if (invalid !== undefined) {
+        apiError(res, 400, "INVALID_REQUEST", `Unrecognised strategy "${invalid}". Use ${STRATEGY_SYNTAX}.`);
+        return;
+      }
+    }
+    if (quote_id !== undefined) {
+      const quote = typeof quote_id === "string" ? getQuote(quote_id, config.dbPath) : null;
+      // Quotes are private to the API key that requested them
+      if (!quote || quote.userId !== user.id) {
+        apiError(res, 404, "NOT_FOUND", `Quote not found: ${quote_id}`);
+        return;
+      }
+    }
 
     try {
       const result = await executeRetirement({
@@ -197,14 +377,69 @@ export function createApiRoutes(
         beneficiaryName: beneficiary_name,
         jurisdiction,
         reason,
+        source,
+        batchDenom: batch_denom,
+        basketDenom: basket_denom,
+        dryRun: dry_run,
+        quoteId: quote_id,
+        maxCost: max_cost,
+        maxSlippagePct: max_slippage_pct,
+        strategy,
       });
 
-      if (result.status === "success") {
+      if (result.status === "dry_run") {
+        const preview = result.preview!;
+        res.json({
+          status: "dry_run",
+          source: result.source,
+          credits_retired: result.creditsRetired,
+          cost: result.cost ?? null,
+          batches: (result.batches ?? []).map(batchToJson),
+          basket_denom: result.basketDenom ?? null,
+          cost_usd: result.costUsd ?? null,
+          conversion_rates: ratesToJson(result.rates),
+          blocked_by_policy: blockedToJson(result.blocked),
+          batches_blocked_by_policy: blockedBatchesToJson(result.blockedBatches),
+          orders: preview.orders.map((o) => ({
+            sell_order_id: o.sellOrderId,
+            batch_denom: o.batchDenom,
+            quantity: o.quantity,
+            ask_amount: o.askAmount,
+            ask_denom: o.askDenom,
+            cost: o.cost,
+            reason: o.reason ?? null,
+          })),
+          messages: preview.messages,
+          gas_used: preview.gasUsed,
+          gas_limit: preview.gasLimit,
+          fee: preview.fee,
+          simulation_error: preview.simulationError ?? null,
+          balances: preview.balances,
+          balance_sufficient: preview.balanceSufficient,
+          jurisdiction: result.jurisdiction,
+          reason: result.reason,
+        });
+      } else if (result.status === "quote_rejected") {
+        res.json({
+          status: "quote_rejected",
+          quote_id: result.quoteId,
+          message: result.message,
+          requote: result.requote ? quoteToJson(result.requote) : null,
+        });
+      } else if (result.status === "success") {
         res.json({
           status: "success",
+          source: result.source,
           tx_hash: result.txHash,
           credits_retired: result.creditsRetired,
-          cost: result.cost,
+          cost: result.cost ?? null,
+          batches: (result.batches ?? []).map(batchToJson),
+          basket_denom: result.basketDenom ?? null,
+          cost_usd: result.costUsd ?? null,
+          conversion_rates: ratesToJson(result.rates),
+          blocked_by_policy: blockedToJson(result.blocked),
+          batches_blocked_by_policy: blockedBatchesToJson(result.blockedBatches),
+          quote_id: result.quoteId ?? null,
           block_height: result.blockHeight,
           certificate_id: result.certificateId ?? null,
           certificate_url: result.certificateId ? `${baseUrl}/impact/${encodeURIComponent(result.certificateId)}` : null,
@@ -218,6 +453,7 @@ export function createApiRoutes(
           status: "marketplace_link",
           marketplace_url: result.marketplaceUrl,
           message: result.message,
+          batches_blocked_by_policy: blockedBatchesToJson(result.blockedBatches),
         });
       }
     } catch (err) {
@@ -226,6 +462,41 @@ export function createApiRoutes(
     }
   });
 
+  // --- POST /api/v1/quote ---
+  router.post("/api/v1/quote", async (req: Request, res: Response) => {
+    const user = getUser(req);
+    if (!user) return;
+
+    const { credit_class, quantity, strategy } = req.body ?? {};
+    if (typeof quantity !== "number" || quantity <= 0) {
+      apiError(res, 400, "INVALID_REQUEST", "quantity must be a positive number");
+      return;
+    }
+    if (credit_class !== undefined && typeof credit_class !== "string") {
+      apiError(res, 400, "INVALID_REQUEST", "credit_class must be a string");
+      return;
+    }
+    if (strategy !== undefined && (!Array.isArray(strategy) || strategy.some((s) => typeof s !== "string"))) {
+      apiError(res, 400, "INVALID_REQUEST", "strategy must be an array of strings");
+      return;
+    }
+
+    try {
+      const quote = await createQuote(
+        { creditClass: credit_class, quantity, userId: user.id, strategies: strategy },
+        config.dbPath
+      );
+      res.json(quoteToJson(quote));
+    } catch (err) {
+      if (err instanceof QuoteError) {
+        apiError(res, err.code === "NO_SUPPLY" ? 409 : 400, err.code, err.message);
+        return;
+      }
+      const msg = err instanceof Error ? err.message : String(err);
+      apiError(res, 500, "INTERNAL_ERROR", `Quote failed: ${msg}`);
+    }
+  });
+
   // --- GET /api/v1/credits ---
   router.get("/api/v1/credits", async (req: Request, res: Response) => {
     const user = getUser(req);
@@ -235,12 +506,16 @@ export function createApiRoutes(
     const maxResults = Math.min(parseInt((req.query.max_results as string) || "10", 10), 50);
 
     try {
-      const [classes, sellOrders, projects, recentOrders] = await Promise.all([
+      const [classes, sellOrders, projects, recentOrders, screen] = await Promise.all([
         listCreditClasses(),
         listSellOrders().catch(() => []),
         listProjects(),
         getRecentOrders(5).catch(() => []),
+        getPolicyScreen(),
       ]);
+      const orderBlockReason = new Map(
+        sellOrders.map((o) => [o.id, screen?.batchReason(o.batch_denom) ?? null])
+      );
 
       // Filter classes by credit type
       const filteredClasses =
@@ -261,16 +536,20 @@ export function createApiRoutes(
         projectsByClass.set(project.class_id, existing);
       }
 
-      // Aggregate sell orders by type
+      // Aggregate sell orders by type, counting policy-blocked orders apart
       const classLookup = new Map(classes.map((c) => [c.id, c]));
-      const sellOrdersByType = new Map<string, { quantity: number; count: number }>();
+      const sellOrdersByType = new Map<string, { quantity: number; count: number; blocked: number }>();
       for (const order of sellOrders) {
         const classId = order.batch_denom.replace(/-\d.*$/, "");
         const cls = classLookup.get(classId);
         const typeAbbrev = cls?.credit_type_abbrev || "Other";
-        const existing = sellOrdersByType.get(typeAbbrev) || { quantity: 0, count: 0 };
-        existing.quantity += parseFloat(order.quantity) || 0;
-        existing.count += 1;
+        const existing = sellOrdersByType.get(typeAbbrev) || { quantity: 0, count: 0, blocked: 0 };
+        if (orderBlockReason.get(order.id)) {
+          existing.blocked += 1;
+        } else {
+          existing.quantity += parseFloat(order.quantity) || 0;
+          existing.count += 1;
+        }
         sellOrdersByType.set(typeAbbrev, existing);
       }
 
@@ -279,6 +558,7 @@ export function createApiRoutes(
         credit_type_abbreviation: abbrev,
         available_credits: Math.round(stats.quantity * 10) / 10,
         sell_orders: stats.count,
+        excluded_by_policy: stats.blocked,
       }));
 
       const creditClasses = filteredClasses.slice(0, maxResults).map((cls) => {
@@ -289,6 +569,7 @@ export function createApiRoutes(
           type_abbreviation: cls.credit_type_abbrev,
           projects: classProjects.length,
           jurisdictions: [...new Set(classProjects.map((p) => p.jurisdiction))],
+          excluded_reason: screen?.classReason(cls.id) ?? null,
         };
       });
 
@@ -297,6 +578,7 @@ export function createApiRoutes(
         quantity: order.quantity,
         ask_amount: order.ask_amount,
         ask_denom: order.ask_denom,
+        excluded_reason: orderBlockReason.get(order.id) ?? null,
       }));
 
       const recent = recentOrders.map((order) => ({
@@ -320,22 +602,125 @@ export function createApiRoutes(
   });
 
   // --- GET /api/v1/footprint ---
-  router.get("/api/v1/footprint", (req: Request, res: Response) => {
+  router.get("/api/v1/footprint", async (req: Request, res: Response) => {
     const user = getUser(req);
     if (!user) return;
 
     const sessionMinutes = parseFloat((req.query.session_minutes as string) || "0");
     const toolCalls = req.query.tool_calls ? parseInt(req.query.tool_calls as string, 10) : undefined;
 
-    if (!sessionMinutes || sessionMinutes <= 0) {
-      apiError(res, 400, "INVALID_REQUEST", "session_minutes is required and must be a positive number");
+    let usage: ModelTokenUsage[] | undefined;
+    try {
+      usage = parseUsageQuery(req.query);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      apiError(res, 400, "INVALID_REQUEST", msg);
       return;
     }
 
-    const estimate = estimateFootprint(sessionMinutes, toolCalls);
+    if (!usage && (!sessionMinutes || sessionMinutes <= 0)) {
+      apiError(res, 400, "INVALID_REQUEST", "session_minutes is required and must be a positive number (or provide token usage)");
+      return;
+    }
+
+    const region = (req.query.region as string) || config.footprintRegion;
+    const includeEmbodied = req.query.include_embodied !== undefined
+      ? req.query.include_embodied === "true"
+      : config.footprintIncludeEmbodied;
+
+    let estimate: FootprintEstimate;
+    try {
+      estimate = estimateFootprint(sessionMinutes > 0 ? sessionMinutes : 0, toolCalls, {
+        usage,
+        region,
+        includeEmbodied,
+        methodology: (req.query.methodology as string) || config.footprintMethodology,
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      apiError(res, 400, "INVALID_REQUEST", msg);
+      return;
+    }
+
+    if (req.query.market_quote === "true") {
+      const marketCost = await quoteMarketCost(estimate.equivalent_carbon_credits, estimate.methodology_id);
+      res.json({ ...estimate, market_cost: marketCost });
+      return;
+    }
     res.json(estimate);
   });
 
+  // --- POST /api/v1/otel/v1/traces ---
+  // OTLP/HTTP JSON receiver: point OTEL_EXPORTER_OTLP_TRACES_ENDPOINT here and send
+  // the API key via OTEL_EXPORTER_OTLP_HEADERS="Authorization=Bearer <key>".
+  router.post("/api/v1/otel/v1/traces", (req: Request, res: Response) => {
+    const user = getUser(req);
+    if (!user) return;
+
+    if (!req.is("application/json")) {
+      apiError(res, 415, "UNSUPPORTED_MEDIA_TYPE", "Only OTLP/HTTP JSON is supported. Set OTEL_EXPORTER_OTLP_PROTOCOL=http/json");
+      return;
+    }
+
+    const methodology = (req.query.methodology as string) || config.footprintMethodology;
+    try {
+      assertOtlpTraceRequest(req.body);
+      getMethodology(methodology);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      apiError(res, 400, "INVALID_REQUEST", msg);
+      return;
+    }
+
+    try {
+      const result = ingestOtlpTraces(db, req.body, {
+        userId: user.id,
+        region: (req.query.region as string) || config.footprintRegion,
+        methodology,
+      });
+      // ExportTraceServiceResponse: partialSuccess is only populated when spans were rejected
+      res.json(result.rejected > 0
+        ? { partialSuccess: { rejectedSpans: String(result.rejected), errorMessage: result.errors.slice(0, 5).join("; ") } }
+        : {});
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      apiError(res, 500, "INTERNAL_ERROR", `Failed to store spans: ${msg}`);
+    }
+  });
+
+  // --- GET /api/v1/footprint/report ---
+  router.get("/api/v1/footprint/report", (req: Request, res: Response) => {
+    const user = getUser(req);
+    if (!user) return;
+
+    const period = ((req.query.period as string) || "day") as FootprintPeriod;
+    if (!["day", "week", "month"].includes(period)) {
+      apiError(res, 400, "INVALID_REQUEST", "period must be day, week, or month");
+      return;
+    }
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 12;
+    if (!Number.isInteger(limit) || limit < 1 || limit > 366) {
+      apiError(res, 400, "INVALID_REQUEST", "limit must be an integer between 1 and 366");
+      return;
+    }
+
+    const report = buildFootprintReport(period, {
+      projectTag: (req.query.project as string) || undefined,
+      userId: user.id,
+      limit,
+    });
+    res.json({
+      period: report.period,
+      project: report.projectTag,
+      periods: report.periods.map(({ period, sessions, energy_kwh, co2_kg }) => ({ period, sessions, energy_kwh, co2_kg })),
+      totals: {
+        sessions: report.totals.sessions,
+        energy_kwh: report.totals.energyKwh,
+        co2_kg: report.totals.co2Kg,
+      },
+    });
+  });
+
   // --- GET /api/v1/certificates/:id ---
   router.get("/api/v1/certificates/:id", async (req: Request, res: Response) => {
     const user = getUser(req);
@@ -405,5 +790,14 @@ export function createApiRoutes(
     }
   });
 
+  // --- GET /api/v1/diagnostics ---
+  // Health stats this server has accumulated for each external API since it started
+  router.get("/api/v1/diagnostics", (req: Request, res: Response) => {
+    const user = getUser(req);
+    if (!user) return;
+
+    res.json({ services: collectHealth() });
+  });
+
   return router;
 }
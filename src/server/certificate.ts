@@ -5,11 +5,18 @@
  *   GET /impact/:nodeId          — Full certificate HTML page
  *   GET /impact/:nodeId/badge.svg — Embeddable SVG badge
  *
- * Data is fetched from the Regen Indexer GraphQL API via getRetirementById().
+ * Data is fetched from the Regen Indexer GraphQL API via getRetirementById();
+ * project name, location, and methodology come from the project's resolved
+ * metadata IRI when available.
  */
 
 import { Router, Request, Response } from "express";
 import { getRetirementById, type Retirement } from "../services/indexer.js";
+import {
+  getProjectDetails,
+  projectIdFromBatchDenom,
+  type ProjectDetails,
+} from "../services/metadata.js";
 
 // --- Credit type visual themes ---
 
@@ -127,9 +134,15 @@ function explorerTxUrl(txHash: string): string {
 
 // --- HTML rendering ---
 
+/** Project details for the retired batch; null when the ledger or metadata is unavailable */
+async function lookupProject(retirement: Retirement): Promise<ProjectDetails | null> {
+  return getProjectDetails(projectIdFromBatchDenom(retirement.batchDenom)).catch(() => null);
+}
+
 function renderCertificatePage(
   retirement: Retirement,
-  baseUrl: string
+  baseUrl: string,
+  project: ProjectDetails | null = null
 ): string {
   const theme = getTheme(retirement);
   const abbrev = getCreditTypeAbbrev(retirement);
@@ -141,7 +154,10 @@ function renderCertificatePage(
     maximumFractionDigits: 6,
   });
 
-  const description = `${amount} ${theme.name.toLowerCase()} credits retired on Regen Network — funding verified ecological regeneration`;
+  const projectMeta = project?.metadata ?? null;
+  const projectImage = projectMeta?.images[0];
+
+  const description = `${amount} ${theme.name.toLowerCase()} credits retired on Regen Network${projectMeta?.name ? ` from ${projectMeta.name}` : ""} — funding verified ecological regeneration`;
 
   const embedSnippet = escapeHtml(
     `<a href="${certUrl}">\n  <img src="${badgeUrl}"\n       alt="${amount} ${theme.name.toLowerCase()} credits retired via Regenerative AI"\n       width="320" height="80" />\n</a>`
@@ -301,6 +317,19 @@ function renderCertificatePage(
       word-break: break-all;
     }
 
+    .details-table .value.text {
+      word-break: normal;
+    }
+
+    .project-image {
+      display: block;
+      width: 100%;
+      max-height: 240px;
+      object-fit: cover;
+      border-radius: 10px;
+      margin-bottom: 16px;
+    }
+
     .proof-section {
       margin-top: 24px;
       padding: 16px 20px;
@@ -444,7 +473,24 @@ function renderCertificatePage(
       </div>
 
       <div class="card-body">
+        ${projectImage ? `<img class="project-image" src="${escapeHtml(projectImage)}" alt="${escapeHtml(projectMeta?.name ?? "Project")}" />` : ""}
         <table class="details-table">
+          ${projectMeta?.name ? `<tr>
+            <td class="label">Project</td>
+            <td class="value text">${escapeHtml(projectMeta.name)}</td>
+          </tr>` : ""}
+          ${projectMeta?.location ? `<tr>
+            <td class="label">Location</td>
+            <td class="value text">${escapeHtml(projectMeta.location)}</td>
+          </tr>` : ""}
+          ${projectMeta?.methodology ? `<tr>
+            <td class="label">Methodology</td>
+            <td class="value text">${escapeHtml(projectMeta.methodology)}</td>
+          </tr>` : ""}
+          ${projectMeta?.coBenefits.length ? `<tr>
+            <td class="label">Co-Benefits</td>
+            <td class="value text">${escapeHtml(projectMeta.coBenefits.join(", "))}</td>
+          </tr>` : ""}
           <tr>
             <td class="label">Credit Batch</td>
             <td class="value">${escapeHtml(retirement.batchDenom)}</td>
@@ -612,7 +658,7 @@ export function createCertificateRoutes(baseUrl: string): Router {
       }
       res.setHeader("Content-Type", "text/html");
       res.setHeader("Cache-Control", "public, max-age=300");
-      res.send(renderCertificatePage(retirement, baseUrl));
+      res.send(renderCertificatePage(retirement, baseUrl, await lookupProject(retirement)));
     } catch {
       res.status(500).setHeader("Content-Type", "text/html");
       res.send(
@@ -8,6 +8,14 @@
  * - pool_runs: monthly batch retirement execution records
  * - attributions: per-subscriber fractional credit attribution per pool run
  * - burns: REGEN token burn records linked to pool runs
+ * - footprint_sessions: local ledger of footprint estimates (one row per estimate);
+ *   rows ingested over the API (e.g. OpenTelemetry spans) carry the API key owner's user_id
+ * - footprint_retirements: retirements made through retire_credits or auto-contribution
+ *   policies, for footprint coverage
+ * - cache_entries: optional persistence for the ledger/indexer data cache
+ * - treasury_lots: credits bought in bulk (kept tradable) with their cost basis
+ * - treasury_retirements: retirements served from treasury lots, with allocated cost
+ * - quotes: firm retirement price quotes (fill plan, total, expiry) executable once
  */
 
 import Database from "better-sqlite3";
@@ -137,6 +145,104 @@ export function getDb(dbPath = "data/regen-for-ai.db"): Database.Database {
 
     CREATE INDEX IF NOT EXISTS idx_api_usage_user_id ON api_usage(user_id);
     CREATE INDEX IF NOT EXISTS idx_api_usage_created_at ON api_usage(created_at);
+
+    CREATE TABLE IF NOT EXISTS footprint_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_tag TEXT,
+      model TEXT,
+      basis TEXT NOT NULL CHECK(basis IN ('tokens', 'duration')),
+      session_minutes REAL NOT NULL DEFAULT 0,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cached_tokens INTEGER NOT NULL DEFAULT 0,
+      energy_kwh REAL NOT NULL,
+      co2_kg REAL NOT NULL,
+      grid_region TEXT,
+      source TEXT NOT NULL DEFAULT 'mcp',
+      external_id TEXT,
+      methodology_id TEXT,
+      user_id INTEGER REFERENCES users(id),
+      recorded_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_footprint_sessions_recorded_at ON footprint_sessions(recorded_at);
+    CREATE INDEX IF NOT EXISTS idx_footprint_sessions_project_tag ON footprint_sessions(project_tag);
+    CREATE INDEX IF NOT EXISTS idx_footprint_sessions_user ON footprint_sessions(user_id);
+    -- External IDs (e.g. OTLP trace:span) are only unique per user: two
+    -- accounts may export the same span, and each records its own copy
+    DROP INDEX IF EXISTS idx_footprint_sessions_external;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_footprint_sessions_user_external
+      ON footprint_sessions(source, COALESCE(user_id, 0), external_id) WHERE external_id IS NOT NULL;
+
+    CREATE TABLE IF NOT EXISTS footprint_retirements (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tx_hash TEXT,
+      credit_class TEXT,
+      credits_retired REAL NOT NULL DEFAULT 0,
+      co2_tonnes_covered REAL NOT NULL DEFAULT 0,
+      source TEXT NOT NULL DEFAULT 'retire_credits',
+      cost_usd REAL,
+      footprint_co2_tonnes REAL,
+      project_tag TEXT,
+      recorded_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_footprint_retirements_recorded_at ON footprint_retirements(recorded_at);
+    CREATE INDEX IF NOT EXISTS idx_footprint_retirements_source ON footprint_retirements(source);
+    CREATE INDEX IF NOT EXISTS idx_footprint_retirements_project_tag ON footprint_retirements(project_tag);
+
+    CREATE TABLE IF NOT EXISTS cache_entries (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS treasury_lots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      batch_denom TEXT NOT NULL,
+      credit_class TEXT NOT NULL,
+      quantity_units TEXT NOT NULL,
+      remaining_units TEXT NOT NULL,
+      credit_precision INTEGER NOT NULL,
+      cost_micro TEXT NOT NULL,
+      cost_denom TEXT NOT NULL,
+      cost_exponent INTEGER NOT NULL,
+      tx_hash TEXT,
+      purchased_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_treasury_lots_batch ON treasury_lots(batch_denom);
+
+    CREATE TABLE IF NOT EXISTS treasury_retirements (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      lot_id INTEGER NOT NULL REFERENCES treasury_lots(id),
+      batch_denom TEXT NOT NULL,
+      quantity_units TEXT NOT NULL,
+      cost_micro TEXT NOT NULL,
+      tx_hash TEXT,
+      retired_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_treasury_retirements_lot ON treasury_retirements(lot_id);
+
+    CREATE TABLE IF NOT EXISTS quotes (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id),
+      credit_class TEXT,
+      quantity REAL NOT NULL,
+      orders TEXT NOT NULL,
+      total_cost_micro TEXT NOT NULL,
+      payment_denom TEXT NOT NULL,
+      display_denom TEXT NOT NULL,
+      exponent INTEGER NOT NULL,
+      cost_usd REAL,
+      rates TEXT NOT NULL DEFAULT '[]',
+      strategies TEXT NOT NULL DEFAULT '[]',
+      status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'executing', 'executed')),
+      tx_hash TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      expires_at TEXT NOT NULL
+    );
   `);
 
   return _db;
@@ -547,3 +653,397 @@ export function recordApiUsage(
     "INSERT INTO api_usage (user_id, endpoint, method, status_code, response_time_ms) VALUES (?, ?, ?, ?, ?)"
   ).run(userId, endpoint, method, statusCode, responseTimeMs ?? null);
 }
+
+// --- Footprint ledger ---
+
+export type FootprintPeriod = "day" | "week" | "month";
+
+export interface FootprintSession {
+  id: number;
+  project_tag: string | null;
+  model: string | null;
+  basis: "tokens" | "duration";
+  session_minutes: number;
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens: number;
+  energy_kwh: number;
+  co2_kg: number;
+  grid_region: string | null;
+  source: string;
+  /** Identifier from the originating system (e.g. transcript session ID), used to skip re-imports */
+  external_id: string | null;
+  methodology_id: string | null;
+  /** API key owner, for sessions ingested through the REST API */
+  user_id: number | null;
+  recorded_at: string;
+}
+
+export interface FootprintRetirement {
+  id: number;
+  tx_hash: string | null;
+  credit_class: string | null;
+  credits_retired: number;
+  co2_tonnes_covered: number;
+  /** "retire_credits", or "policy:<id>" for auto-contribution policies */
+  source: string;
+  /** Estimated USD cost, when known */
+  cost_usd: number | null;
+  /** Uncovered footprint (t CO2) this retirement was triggered to cover, when known */
+  footprint_co2_tonnes: number | null;
+  /** Project whose footprint it covers; null counts for the whole ledger only */
+  project_tag: string | null;
+  recorded_at: string;
+}
+
+/** Narrows footprint session totals to one project tag and/or API user */
+export interface FootprintFilter {
+  projectTag?: string;
+  userId?: number;
+}
+
+export interface FootprintPeriodTotals {
+  period: string;
+  sessions: number;
+  energy_kwh: number;
+  co2_kg: number;
+  co2_tonnes_covered: number;
+}
+
+// The Thursday of a timestamp's ISO 8601 week (Monday to Sunday); its year is the week-year
+const ISO_THURSDAY = "date(recorded_at, '-3 days', 'weekday 4')";
+
+// SQLite expressions that bucket recorded_at into its reporting period;
+// weeks are ISO 8601 ("2026-W01" is the week holding the year's first Thursday)
+const PERIOD_EXPRESSIONS: Record<FootprintPeriod, string> = {
+  day: "strftime('%Y-%m-%d', recorded_at)",
+  week: `strftime('%Y', ${ISO_THURSDAY}) || '-W' || printf('%02d', (strftime('%j', ${ISO_THURSDAY}) - 1) / 7 + 1)`,
+  month: "strftime('%Y-%m', recorded_at)",
+};
+
+function footprintWhere(filter: FootprintFilter): { sql: string; params: Array<string | number> } {
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+  if (filter.projectTag) {
+    clauses.push("project_tag = ?");
+    params.push(filter.projectTag);
+  }
+  if (filter.userId !== undefined) {
+    clauses.push("user_id = ?");
+    params.push(filter.userId);
+  }
+  return { sql: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+export function recordFootprintSession(
+  db: Database.Database,
+  entry: Omit<FootprintSession, "id" | "recorded_at" | "external_id" | "methodology_id" | "user_id"> & {
+    recorded_at?: string;
+    external_id?: string | null;
+    methodology_id?: string | null;
+    user_id?: number | null;
+  }
+): FootprintSession {
+  const result = db.prepare(`
+    INSERT INTO footprint_sessions (
+      project_tag, model, basis, session_minutes, input_tokens, output_tokens,
+      cached_tokens, energy_kwh, co2_kg, grid_region, source, external_id, methodology_id,
+      user_id, recorded_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now')))
+  `).run(
+    entry.project_tag, entry.model, entry.basis, entry.session_minutes,
+    entry.input_tokens, entry.output_tokens, entry.cached_tokens,
+    entry.energy_kwh, entry.co2_kg, entry.grid_region, entry.source,
+    entry.external_id ?? null, entry.methodology_id ?? null, entry.user_id ?? null,
+    entry.recorded_at ?? null
+  );
+  return db.prepare("SELECT * FROM footprint_sessions WHERE id = ?").get(result.lastInsertRowid) as FootprintSession;
+}
+
+/** Whether this user (or, with no user, the local ledger) already recorded the external ID */
+export function hasFootprintSession(
+  db: Database.Database,
+  source: string,
+  externalId: string,
+  userId: number | null = null
+): boolean {
+  return !!db.prepare(
+    "SELECT 1 FROM footprint_sessions WHERE source = ? AND COALESCE(user_id, 0) = ? AND external_id = ?"
+  ).get(source, userId ?? 0, externalId);
+}
+
+export function recordFootprintRetirement(
+  db: Database.Database,
+  entry: Omit<FootprintRetirement, "id" | "recorded_at" | "source" | "cost_usd" | "footprint_co2_tonnes" | "project_tag"> &
+    Partial<Pick<FootprintRetirement, "source" | "cost_usd" | "footprint_co2_tonnes" | "project_tag">>
+): FootprintRetirement {
+  const result = db.prepare(`
+    INSERT INTO footprint_retirements (
+      tx_hash, credit_class, credits_retired, co2_tonnes_covered, source, cost_usd, footprint_co2_tonnes, project_tag
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    entry.tx_hash, entry.credit_class, entry.credits_retired, entry.co2_tonnes_covered,
+    entry.source ?? "retire_credits", entry.cost_usd ?? null, entry.footprint_co2_tonnes ?? null,
+    entry.project_tag ?? null
+  );
+  return db.prepare("SELECT * FROM footprint_retirements WHERE id = ?").get(result.lastInsertRowid) as FootprintRetirement;
+}
+
+/** Retirements from one source since a "YYYY-MM-DD HH:MM:SS" timestamp (for policy caps and schedules). */
+export function getFootprintRetirementsSince(
+  db: Database.Database,
+  source: string,
+  since: string
+): { count: number; cost_usd: number } {
+  return db.prepare(`
+    SELECT COUNT(*) AS count, COALESCE(SUM(cost_usd), 0) AS cost_usd
+    FROM footprint_retirements
+    WHERE source = ? AND recorded_at >= ?
+  `).get(source, since) as { count: number; cost_usd: number };
+}
+
+/** Retirements covering one project's footprint, or all of them without a project tag */
+function retirementWhere(filter: FootprintFilter): { sql: string; params: string[] } {
+  return filter.projectTag ? { sql: "WHERE project_tag = ?", params: [filter.projectTag] } : { sql: "", params: [] };
+}
+
+/**
+ * Footprint and retirement coverage grouped by period, newest first.
+ * Retirements are not tagged by user, so coverage ignores the user filter;
+ * with a project tag only retirements tagged with it count.
+ */
+export function getFootprintTotalsByPeriod(
+  db: Database.Database,
+  period: FootprintPeriod,
+  filter: FootprintFilter = {},
+  limit = 12
+): FootprintPeriodTotals[] {
+  const bucket = PERIOD_EXPRESSIONS[period];
+  const where = footprintWhere(filter);
+  const sessions = db.prepare(`
+    SELECT
+      ${bucket} AS period,
+      COUNT(*) AS sessions,
+      COALESCE(SUM(energy_kwh), 0) AS energy_kwh,
+      COALESCE(SUM(co2_kg), 0) AS co2_kg
+    FROM footprint_sessions
+    ${where.sql}
+    GROUP BY period
+    ORDER BY period DESC
+    LIMIT ?
+  `).all(...where.params, limit) as Array<Omit<FootprintPeriodTotals, "co2_tonnes_covered">>;
+
+  const retirementFilter = retirementWhere(filter);
+  const covered = db.prepare(`
+    SELECT ${bucket} AS period, COALESCE(SUM(co2_tonnes_covered), 0) AS tonnes
+    FROM footprint_retirements
+    ${retirementFilter.sql}
+    GROUP BY period
+  `).all(...retirementFilter.params) as Array<{ period: string; tonnes: number }>;
+  const coveredByPeriod = new Map(covered.map((r) => [r.period, r.tonnes]));
+
+  return sessions.map((row) => ({
+    ...row,
+    co2_tonnes_covered: coveredByPeriod.get(row.period) ?? 0,
+  }));
+}
+
+export function getFootprintLifetimeTotals(
+  db: Database.Database,
+  filter: FootprintFilter = {}
+): { sessions: number; energy_kwh: number; co2_kg: number; co2_tonnes_covered: number; credits_retired: number } {
+  const where = footprintWhere(filter);
+  const sessions = db.prepare(`
+    SELECT
+      COUNT(*) AS sessions,
+      COALESCE(SUM(energy_kwh), 0) AS energy_kwh,
+      COALESCE(SUM(co2_kg), 0) AS co2_kg
+    FROM footprint_sessions
+    ${where.sql}
+  `).get(...where.params) as { sessions: number; energy_kwh: number; co2_kg: number };
+
+  const retirementFilter = retirementWhere(filter);
+  const retirements = db.prepare(`
+    SELECT
+      COALESCE(SUM(co2_tonnes_covered), 0) AS co2_tonnes_covered,
+      COALESCE(SUM(credits_retired), 0) AS credits_retired
+    FROM footprint_retirements
+    ${retirementFilter.sql}
+  `).get(...retirementFilter.params) as { co2_tonnes_covered: number; credits_retired: number };
+
+  return { ...sessions, ...retirements };
+}
+
+// --- Data cache persistence ---
+
+export interface CacheEntryRow {
+  key: string;
+  /** JSON-encoded value */
+  value: string;
+  /** Unix milliseconds */
+  fetched_at: number;
+}
+
+export function getCacheEntry(db: Database.Database, key: string): CacheEntryRow | undefined {
+  return db.prepare("SELECT * FROM cache_entries WHERE key = ?").get(key) as CacheEntryRow | undefined;
+}
+
+export function setCacheEntry(db: Database.Database, key: string, value: string, fetchedAt: number): void {
+  db.prepare(`
+    INSERT INTO cache_entries (key, value, fetched_at) VALUES (?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, fetched_at = excluded.fetched_at
+  `).run(key, value, fetchedAt);
+}
+
+/** Delete every entry whose key starts with one of the prefixes. */
+export function deleteCacheEntries(db: Database.Database, prefixes: string[]): void {
+  const del = db.prepare("DELETE FROM cache_entries WHERE substr(key, 1, length(?)) = ?");
+  db.transaction(() => {
+    for (const prefix of prefixes) del.run(prefix, prefix);
+  })();
+}
+
+// --- Treasury inventory ---
+
+export interface TreasuryLot {
+  id: number;
+  batch_denom: string;
+  credit_class: string;
+  /** Credits bought, in units of 10^-credit_precision credits (bigint as string) */
+  quantity_units: string;
+  /** Credits of this lot not yet retired, in the same units */
+  remaining_units: string;
+  /** Decimal places of the batch's credit type */
+  credit_precision: number;
+  /** Total purchase cost in micro-units of cost_denom (bigint as string) */
+  cost_micro: string;
+  cost_denom: string;
+  cost_exponent: number;
+  tx_hash: string | null;
+  purchased_at: string;
+}
+
+export function createTreasuryLot(
+  db: Database.Database,
+  lot: Omit<TreasuryLot, "id" | "remaining_units" | "purchased_at">
+): TreasuryLot {
+  const result = db.prepare(`
+    INSERT INTO treasury_lots (
+      batch_denom, credit_class, quantity_units, remaining_units, credit_precision,
+      cost_micro, cost_denom, cost_exponent, tx_hash
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    lot.batch_denom, lot.credit_class, lot.quantity_units, lot.quantity_units, lot.credit_precision,
+    lot.cost_micro, lot.cost_denom, lot.cost_exponent, lot.tx_hash
+  );
+  return db.prepare("SELECT * FROM treasury_lots WHERE id = ?").get(result.lastInsertRowid) as TreasuryLot;
+}
+
+/** Every lot, oldest purchase first */
+export function getTreasuryLots(db: Database.Database): TreasuryLot[] {
+  return db.prepare("SELECT * FROM treasury_lots ORDER BY purchased_at, id").all() as TreasuryLot[];
+}
+
+/** Lots with credits left to retire, oldest purchase first (FIFO) */
+export function getOpenTreasuryLots(db: Database.Database): TreasuryLot[] {
+  return db.prepare(
+    "SELECT * FROM treasury_lots WHERE remaining_units != '0' ORDER BY purchased_at, id"
+  ).all() as TreasuryLot[];
+}
+
+/**
+ * Take `quantityUnits` credits (in the lot's units) out of a lot and record the
+ * retirement with its allocated cost. A lot never goes below zero.
+ */
+export function consumeTreasuryLot(
+  db: Database.Database,
+  lotId: number,
+  quantityUnits: bigint,
+  costMicro: string,
+  txHash: string | null
+): void {
+  const lot = db.prepare("SELECT remaining_units FROM treasury_lots WHERE id = ?").get(lotId) as
+    | Pick<TreasuryLot, "remaining_units">
+    | undefined;
+  if (!lot) return;
+  const remaining = BigInt(lot.remaining_units);
+  const next = remaining > quantityUnits ? remaining - quantityUnits : 0n;
+  db.prepare("UPDATE treasury_lots SET remaining_units = ? WHERE id = ?").run(next.toString(), lotId);
+  db.prepare(`
+    INSERT INTO treasury_retirements (lot_id, batch_denom, quantity_units, cost_micro, tx_hash)
+    SELECT id, batch_denom, ?, ?, ? FROM treasury_lots WHERE id = ?
+  `).run(quantityUnits.toString(), costMicro, txHash, lotId);
+}
+
+// --- Retirement quotes ---
+
+export interface QuoteRow {
+  id: string;
+  user_id: number | null;
+  credit_class: string | null;
+  quantity: number;
+  /** JSON array of the selected sell orders (costMicro as a string) */
+  orders: string;
+  total_cost_micro: string;
+  payment_denom: string;
+  display_denom: string;
+  exponent: number;
+  /** USD value of the fill at the quoted rates; null when no rate covered its denom */
+  cost_usd: number | null;
+  /** JSON array of the USD rates the cross-denom comparison used */
+  rates: string;
+  /** JSON array of the selection strategy specs the fill was made with */
+  strategies: string;
+  /** "executing" while a retirement holds the quote, between payment and broadcast */
+  status: "open" | "executing" | "executed";
+  tx_hash: string | null;
+  created_at: string;
+  /** ISO 8601 */
+  expires_at: string;
+}
+
+export function generateQuoteId(): string {
+  return "qt_" + randomBytes(12).toString("hex");
+}
+
+export function createQuoteRow(
+  db: Database.Database,
+  quote: Omit<QuoteRow, "status" | "tx_hash" | "created_at">
+): QuoteRow {
+  db.prepare(`
+    INSERT INTO quotes (
+      id, user_id, credit_class, quantity, orders, total_cost_micro, payment_denom, display_denom, exponent,
+      cost_usd, rates, strategies, expires_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    quote.id, quote.user_id, quote.credit_class, quote.quantity, quote.orders, quote.total_cost_micro,
+    quote.payment_denom, quote.display_denom, quote.exponent, quote.cost_usd, quote.rates, quote.strategies,
+    quote.expires_at
+  );
+  return db.prepare("SELECT * FROM quotes WHERE id = ?").get(quote.id) as QuoteRow;
+}
+
+export function getQuoteRow(db: Database.Database, id: string): QuoteRow | undefined {
+  return db.prepare("SELECT * FROM quotes WHERE id = ?").get(id) as QuoteRow | undefined;
+}
+
+/**
+ * Claim an open quote for one retirement. Returns false when another
+ * retirement already holds it or it was executed.
+ */
+export function claimQuoteRow(db: Database.Database, id: string): boolean {
+  return db.prepare("UPDATE quotes SET status = 'executing' WHERE id = ? AND status = 'open'").run(id).changes > 0;
+}
+
+/** Give a claimed quote back after its retirement failed */
+export function releaseQuoteRow(db: Database.Database, id: string): void {
+  db.prepare("UPDATE quotes SET status = 'open' WHERE id = ? AND status = 'executing'").run(id);
+}
+
+/** Mark a claimed (or still open) quote executed. Returns false if it was already executed. */
+export function markQuoteExecuted(db: Database.Database, id: string, txHash: string): boolean {
+  const result = db.prepare(
+    "UPDATE quotes SET status = 'executed', tx_hash = ? WHERE id = ? AND status IN ('open', 'executing')"
+  ).run(txHash, id);
+  return result.changes > 0;
+}
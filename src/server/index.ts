@@ -49,6 +49,9 @@ export function startServer(options: { port?: number; dbPath?: string } = {}) {
     // Stripe webhooks need raw body for signature verification
     app.use("/webhook", express.raw({ type: "application/json" }));
 
+    // OTLP trace exports batch many spans, so allow larger bodies there
+    app.use("/api/v1/otel", express.json({ limit: "5mb" }));
+
     // Everything else uses JSON
     app.use(express.json());
 
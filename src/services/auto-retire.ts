@@ -0,0 +1,259 @@
+/**
+ * Auto-contribution policies.
+ *
+ * A policy retires carbon credits automatically when the footprint ledger
+ * shows uncovered emissions — either once the uncovered amount exceeds a
+ * threshold, or on a weekly schedule (whichever fires first). Each policy
+ * limits spend per day, week, or month and may restrict which credit
+ * classes can be bought.
+ *
+ * Policies live in a JSON file (REGEN_AUTO_RETIRE_POLICIES):
+ *
+ *   {
+ *     "policies": [{
+ *       "id": "weekly-carbon",
+ *       "trigger": { "uncovered_tonnes_above": 0.01, "weekday": "friday" },
+ *       "spend_cap_usd": 5,
+ *       "cap_period": "week",
+ *       "credit_classes": ["C01", "C03"]
+ *     }]
+ *   }
+ *
+ * Evaluation is driven by the `auto-retire` CLI command (optionally as a
+ * long-running daemon) and previewed by the preview_auto_retirement tool.
+ * Retirements are bounded by what is left of the cap and recorded in the
+ * footprint ledger with source "policy:<id>", the policy's project_tag,
+ * their USD cost, and the uncovered footprint they were triggered to cover.
+ */
+
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { loadConfig, isWalletConfigured } from "../config.js";
+import { getDb, getFootprintRetirementsSince } from "../server/db.js";
+import { buildFootprintReport, recordRetirement } from "./footprint-ledger.js";
+import { selectOrdersForScope } from "./order-selector.js";
+import { executeRetirement } from "./retirement.js";
+import { getBalance } from "./wallet.js";
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+const PolicySchema = z.object({
+  id: z.string().min(1),
+  enabled: z.boolean().default(true),
+  project_tag: z.string().optional(),
+  trigger: z
+    .object({
+      uncovered_tonnes_above: z.number().nonnegative().optional(),
+      weekday: z.enum(WEEKDAYS).optional(),
+    })
+    .refine((t) => t.uncovered_tonnes_above !== undefined || t.weekday !== undefined, {
+      message: "trigger needs uncovered_tonnes_above and/or weekday",
+    }),
+  spend_cap_usd: z.number().positive(),
+  cap_period: z.enum(["day", "week", "month"]).default("month"),
+  // Only carbon credits count towards footprint coverage
+  credit_classes: z.array(z.string().regex(/^C\d+$/, "only carbon (C) classes cover a footprint")).optional(),
+  beneficiary_name: z.string().optional(),
+  jurisdiction: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+const PolicyFileSchema = z.object({ policies: z.array(PolicySchema) });
+
+export type AutoRetirePolicy = z.infer<typeof PolicySchema>;
+
+export type PolicyOutcome =
+  | "disabled"
+  | "not_triggered"
+  | "nothing_to_cover"
+  | "cap_reached"
+  | "no_supply"
+  | "would_retire"
+  | "retired"
+  | "failed";
+
+export interface PolicyEvaluation {
+  policyId: string;
+  outcome: PolicyOutcome;
+  triggeredBy: Array<"threshold" | "schedule">;
+  uncoveredTonnes: number;
+  spentThisPeriodUsd: number;
+  capUsd: number;
+  quantity?: number;
+  estimatedCostUsd?: number;
+  /** USD cost of the retirement, at the rates it was bought at */
+  costUsd?: number;
+  txHash?: string;
+  message?: string;
+}
+
+/** Load and validate policies from a JSON file. Throws with the validation issues on bad input. */
+export function loadPolicies(path: string): AutoRetirePolicy[] {
+  const raw = JSON.parse(readFileSync(path, "utf8"));
+  const parsed = PolicyFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new Error(`Invalid auto-retire policy file ${path}: ${issues}`);
+  }
+  return parsed.data.policies;
+}
+
+function sqliteTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+/** Start of the cap period containing `now`, in UTC (weeks start on Monday, as in the ledger report). */
+export function periodStart(period: "day" | "week" | "month", now: Date): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === "week") {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (period === "month") {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+function floorMicro(quantity: number): number {
+  return Math.floor(quantity * 1_000_000) / 1_000_000;
+}
+
+export async function evaluatePolicy(
+  policy: AutoRetirePolicy,
+  options: { dryRun: boolean; now?: Date }
+): Promise<PolicyEvaluation> {
+  const now = options.now ?? new Date();
+  const config = loadConfig();
+  const db = getDb(config.dbPath);
+  const source = `policy:${policy.id}`;
+
+  const report = buildFootprintReport("day", { projectTag: policy.project_tag, limit: 1 });
+  const uncovered = floorMicro(report.totals.co2TonnesUncovered);
+  const spent = getFootprintRetirementsSince(db, source, sqliteTimestamp(periodStart(policy.cap_period, now))).cost_usd;
+
+  const evaluation: PolicyEvaluation = {
+    policyId: policy.id,
+    outcome: "not_triggered",
+    triggeredBy: [],
+    uncoveredTonnes: uncovered,
+    spentThisPeriodUsd: spent,
+    capUsd: policy.spend_cap_usd,
+  };
+
+  if (!policy.enabled) return { ...evaluation, outcome: "disabled" };
+
+  const threshold = policy.trigger.uncovered_tonnes_above;
+  if (threshold !== undefined && uncovered > threshold) {
+    evaluation.triggeredBy.push("threshold");
+  }
+  if (policy.trigger.weekday === WEEKDAYS[now.getUTCDay()]) {
+    const ranToday = getFootprintRetirementsSince(db, source, sqliteTimestamp(periodStart("day", now))).count > 0;
+    if (!ranToday) evaluation.triggeredBy.push("schedule");
+  }
+
+  if (evaluation.triggeredBy.length === 0) return evaluation;
+  if (uncovered <= 0) return { ...evaluation, outcome: "nothing_to_cover" };
+
+  const remainingUsd = policy.spend_cap_usd - spent;
+  if (remainingUsd <= 0) {
+    return { ...evaluation, outcome: "cap_reached", message: `Spent $${spent.toFixed(2)} of $${policy.spend_cap_usd} this ${policy.cap_period}` };
+  }
+
+  // Price the uncovered amount with the same cross-denom routing executeRetirement uses, then trim to the cap
+  const selection = await selectOrdersForScope({ creditTypeAbbrev: "C" }, uncovered, policy.credit_classes, {
+    balanceOf: isWalletConfigured() ? getBalance : undefined,
+  });
+  if (selection.orders.length === 0) {
+    return { ...evaluation, outcome: "no_supply", message: "No matching carbon sell orders" };
+  }
+
+  const costUsd = selection.costUsd;
+  if (costUsd === undefined) {
+    return { ...evaluation, outcome: "failed", message: `Cannot convert ${selection.displayDenom} asks to USD for the spend cap` };
+  }
+
+  const filled = parseFloat(selection.totalQuantity);
+  const quantity = costUsd > remainingUsd ? floorMicro(filled * (remainingUsd / costUsd)) : filled;
+  if (quantity <= 0) {
+    return { ...evaluation, outcome: "cap_reached", message: "Remaining cap is too small for any credits" };
+  }
+  const estimatedCostUsd = Math.round(costUsd * (quantity / filled) * 100) / 100;
+
+  evaluation.quantity = quantity;
+  evaluation.estimatedCostUsd = estimatedCostUsd;
+
+  if (options.dryRun) return { ...evaluation, outcome: "would_retire" };
+
+  const result = await executeRetirement({
+    creditClass: "C",
+    allowedClasses: policy.credit_classes,
+    quantity,
+    // The book may move after pricing; never spend past the cap
+    maxCostUsd: remainingUsd,
+    beneficiaryName: policy.beneficiary_name,
+    jurisdiction: policy.jurisdiction,
+    reason: policy.reason ?? `Auto-contribution policy "${policy.id}" covering AI footprint`,
+  });
+
+  if (result.status !== "success") {
+    return { ...evaluation, outcome: "failed", message: result.message };
+  }
+
+  recordRetirement(result, {
+    creditClass: "C",
+    source,
+    projectTag: policy.project_tag,
+    costUsd: result.costUsd,
+    footprintTonnes: uncovered,
+  });
+  return { ...evaluation, outcome: "retired", costUsd: result.costUsd, txHash: result.txHash };
+}
+
+/** Evaluate every policy in order. Policies never throw; failures become "failed" outcomes. */
+export async function evaluatePolicies(
+  policies: AutoRetirePolicy[],
+  options: { dryRun: boolean; now?: Date }
+): Promise<PolicyEvaluation[]> {
+  const results: PolicyEvaluation[] = [];
+  for (const policy of policies) {
+    try {
+      results.push(await evaluatePolicy(policy, options));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      results.push({
+        policyId: policy.id,
+        outcome: "failed",
+        triggeredBy: [],
+        uncoveredTonnes: 0,
+        spentThisPeriodUsd: 0,
+        capUsd: policy.spend_cap_usd,
+        message: msg,
+      });
+    }
+  }
+  return results;
+}
+
+export function formatPolicyEvaluations(results: PolicyEvaluation[], dryRun: boolean): string {
+  const lines: string[] = [
+    `## Auto-Contribution Policies${dryRun ? " (DRY RUN)" : ""}`,
+    ``,
+  ];
+
+  if (results.length === 0) {
+    lines.push(`No policies configured. Set REGEN_AUTO_RETIRE_POLICIES to a policy JSON file.`);
+    return lines.join("\n");
+  }
+
+  lines.push(
+    `| Policy | Outcome | Trigger | Uncovered (t) | Spent / cap (USD) | Quantity | Est. cost | Details |`,
+    `|--------|---------|---------|---------------|-------------------|----------|-----------|---------|`
+  );
+  for (const r of results) {
+    const details = r.txHash ? `tx \`${r.txHash}\`` : r.message ?? "";
+    lines.push(
+      `| ${r.policyId} | ${r.outcome} | ${r.triggeredBy.join(", ") || "-"} | ${r.uncoveredTonnes.toFixed(6)} | $${r.spentThisPeriodUsd.toFixed(2)} / $${r.capUsd.toFixed(2)} | ${r.quantity?.toFixed(6) ?? "-"} | ${r.estimatedCostUsd !== undefined ? `$${r.estimatedCostUsd.toFixed(2)}` : "-"} | ${details} |`
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,364 @@
+/**
+ * Basket token retirements.
+ *
+ * Regen Ledger baskets pool tradable credits from many batches into one
+ * fungible bank token (e.g. eco.uC.NCT). MsgTake with retire-on-take burns
+ * basket tokens and retires the basket's oldest credits. Tokens come from
+ * the wallet's bank balance or, for baskets listed in REGEN_BASKET_ROUTES,
+ * are minted in the same transaction by buying eligible credits from sell
+ * orders (auto-retire disabled) and depositing them with MsgPut.
+ */
+
+import { loadConfig } from "../config.js";
+import {
+  listBaskets,
+  listBasketBalances,
+  getBasketClasses,
+  listCreditTypes,
+  type Basket,
+  type BasketBalance,
+  type BasketDateCriteria,
+  type CreditType,
+} from "./ledger.js";
+import { getBalance, signAndBroadcast } from "./wallet.js";
+import { selectAcrossDenoms, type OrderSelection } from "./order-selector.js";
+import { invalidateMarketData } from "./cache.js";
+import { getPolicyScreen, describeBlockedBatches, type BlockedBatch, type PolicyScreen } from "./procurement-policy.js";
+import { DEFAULT_CREDIT_PRECISION, parseUnits, formatUnits, unitsToNumber, rescale } from "./decimal.js";
+
+export interface BasketSummary {
+  basket: Basket;
+  /** Credit classes the basket accepts */
+  classes: string[];
+  /** Deposited batches, oldest vintage first */
+  contents: BasketBalance[];
+  totalCredits: number;
+  /** Decimal places of the basket's credit type */
+  precision: number;
+}
+
+export interface BasketFilter {
+  basketDenom?: string;
+  /** "carbon" or "biodiversity" */
+  creditType?: string;
+  /** Credit type abbreviation, e.g. "C" */
+  creditTypeAbbrev?: string;
+}
+
+export interface BasketPlan {
+  basket: Basket;
+  quantity: number;
+  /** Basket token units burned by the take */
+  takeAmount: bigint;
+  /** Part of takeAmount paid from the wallet's basket token balance */
+  heldAmount: bigint;
+  /** Credits bought and deposited to mint the rest, via REGEN_BASKET_ROUTES */
+  purchase: OrderSelection | null;
+  /** Batches the take is expected to retire, oldest vintage first */
+  batches: Array<{ batchDenom: string; quantity: string }>;
+}
+
+/** Without a plan, `blocked` lists batches the take would retire that the procurement policy excludes */
+export type BasketPlanResult =
+  | { plan: BasketPlan }
+  | { plan: null; message: string; blocked?: BlockedBatch[] };
+
+export interface BasketRetirement {
+  txHash: string;
+  blockHeight: number;
+}
+
+/** Every basket with its accepted classes and current contents */
+export async function listBasketSummaries(): Promise<BasketSummary[]> {
+  const [baskets, creditTypes] = await Promise.all([
+    listBaskets(),
+    // Credit types all use 6 decimals today; list baskets at that precision if the registry is down
+    listCreditTypes().catch((): CreditType[] => []),
+  ]);
+  const typePrecision = new Map(creditTypes.map((t) => [t.abbreviation, t.precision]));
+  return Promise.all(
+    baskets.map(async (basket) => {
+      const [classes, contents] = await Promise.all([
+        getBasketClasses(basket.basket_denom),
+        listBasketBalances(basket.basket_denom),
+      ]);
+      const precision = typePrecision.get(basket.credit_type_abbrev) ?? DEFAULT_CREDIT_PRECISION;
+      const totalUnits = contents.reduce((sum, b) => sum + balanceUnits(b.balance, precision), 0n);
+      return { basket, classes, contents, totalCredits: unitsToNumber(totalUnits, precision), precision };
+    })
+  );
+}
+
+/** A basket balance in credit units; unreadable balances count as empty */
+function balanceUnits(balance: string, precision: number): bigint {
+  try {
+    return parseUnits(balance, precision);
+  } catch {
+    return 0n;
+  }
+}
+
+function yyyymmdd(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * Earliest batch start date (YYYYMMDD) a basket accepts deposits from, or
+ * undefined when it has no date criteria.
+ */
+export function minVintageStart(criteria: BasketDateCriteria | null | undefined, now = new Date()): string | undefined {
+  if (!criteria) return undefined;
+  if (criteria.min_start_date) return yyyymmdd(new Date(criteria.min_start_date));
+  if (criteria.start_date_window) {
+    const seconds = parseFloat(criteria.start_date_window);
+    if (Number.isFinite(seconds)) return yyyymmdd(new Date(now.getTime() - seconds * 1000));
+  }
+  if (criteria.years_in_the_past) {
+    return `${now.getUTCFullYear() - Number(criteria.years_in_the_past)}0101`;
+  }
+  return undefined;
+}
+
+function matchesFilter(basket: Basket, filter: BasketFilter): boolean {
+  if (filter.basketDenom) return basket.basket_denom === filter.basketDenom;
+  if (filter.creditTypeAbbrev && basket.credit_type_abbrev !== filter.creditTypeAbbrev) return false;
+  if (filter.creditType === "carbon" && basket.credit_type_abbrev !== "C") return false;
+  if (filter.creditType === "biodiversity" && basket.credit_type_abbrev === "C") return false;
+  return true;
+}
+
+/** Credits → basket token units, e.g. 1.5 credits at exponent 6 → 1500000n */
+function toBasketUnits(quantity: number, exponent: number): bigint {
+  return parseUnits(quantity, exponent);
+}
+
+function fromBasketUnits(amount: bigint, exponent: number): number {
+  return unitsToNumber(amount, exponent);
+}
+
+/**
+ * Which batches a take of `quantity` credit units draws from: the basket's
+ * contents plus anything deposited first, oldest batch start date first.
+ * Quantities are units at `precision` decimals.
+ */
+export function predictTake(
+  contents: Array<{ batchDenom: string; startDate: string; quantity: bigint }>,
+  quantity: bigint,
+  precision: number
+): Array<{ batchDenom: string; quantity: string }> {
+  const byBatch = new Map<string, { startDate: string; quantity: bigint }>();
+  for (const c of contents) {
+    const entry = byBatch.get(c.batchDenom) ?? { startDate: c.startDate, quantity: 0n };
+    entry.quantity += c.quantity;
+    byBatch.set(c.batchDenom, entry);
+  }
+  const ordered = [...byBatch].sort(
+    ([aDenom, a], [bDenom, b]) => a.startDate.localeCompare(b.startDate) || aDenom.localeCompare(bDenom)
+  );
+
+  let remaining = quantity;
+  const taken: Array<{ batchDenom: string; quantity: string }> = [];
+  for (const [batchDenom, { quantity: available }] of ordered) {
+    if (remaining <= 0n) break;
+    const take = remaining < available ? remaining : available;
+    if (take <= 0n) continue;
+    taken.push({ batchDenom, quantity: formatUnits(take, precision, precision) });
+    remaining -= take;
+  }
+  return taken;
+}
+
+async function planForBasket(
+  summary: BasketSummary,
+  quantity: number,
+  screen: PolicyScreen | null
+): Promise<BasketPlanResult> {
+  const { basket, classes, contents, precision } = summary;
+  const takeAmount = toBasketUnits(quantity, basket.exponent);
+  const held = await getBalance(basket.basket_denom);
+  const heldAmount = held < takeAmount ? held : takeAmount;
+
+  let purchase: OrderSelection | null = null;
+  if (heldAmount < takeAmount) {
+    // Credits to deposit, rounded up so the take is fully covered
+    const shortfall = rescale(takeAmount - heldAmount, basket.exponent, precision, "ceil");
+    if (!loadConfig().basketRoutes.includes(basket.basket_denom)) {
+      return {
+        plan: null,
+        message:
+          `The wallet holds ${fromBasketUnits(held, basket.exponent)} ${basket.name} basket credits ` +
+          `(requested ${quantity}) and ${basket.basket_denom} has no purchase route in REGEN_BASKET_ROUTES.`,
+      };
+    }
+
+    purchase = await selectAcrossDenoms(
+      undefined,
+      unitsToNumber(shortfall, precision),
+      [basket.credit_type_abbrev],
+      classes,
+      { tradable: true, minVintageStart: minVintageStart(basket.date_criteria), balanceOf: getBalance }
+    );
+    if (purchase.orders.length === 0 || purchase.insufficientSupply) {
+      return {
+        plan: null,
+        message:
+          `Only ${parseFloat(purchase.totalQuantity).toFixed(4)} credits eligible for ${basket.name} are for sale ` +
+          `without auto-retirement (needed ${formatUnits(shortfall, precision)} beyond the wallet's basket tokens).`,
+      };
+    }
+  }
+
+  const batches = predictTake(
+    [
+      ...contents.map((c) => ({
+        batchDenom: c.batch_denom,
+        startDate: c.batch_start_date.slice(0, 10).replace(/-/g, ""),
+        quantity: balanceUnits(c.balance, precision),
+      })),
+      ...(purchase?.orders ?? []).map((o) => ({
+        batchDenom: o.batchDenom,
+        startDate: o.batchDenom.split("-")[2] ?? "",
+        quantity: parseUnits(o.quantity, precision),
+      })),
+    ],
+    parseUnits(quantity, precision),
+    precision
+  );
+
+  // A take can't pick its batches, so one excluded batch in the draw rules the basket out
+  const blocked = batches.flatMap((b) => {
+    const reason = screen?.batchReason(b.batchDenom);
+    return reason ? [{ batchDenom: b.batchDenom, reason }] : [];
+  });
+  if (blocked.length > 0) {
+    return {
+      plan: null,
+      message: `A take from ${basket.name} would retire its oldest credits, and ${describeBlockedBatches(blocked)}.`,
+      blocked,
+    };
+  }
+
+  return { plan: { basket, quantity, takeAmount, heldAmount, purchase, batches } };
+}
+
+/**
+ * Plan a basket retirement of `quantity` credits. Baskets the wallet can
+ * pay for from its own basket tokens come first; otherwise the routed
+ * basket whose purchase costs the least in USD is used. Baskets whose take
+ * would retire a batch the procurement policy excludes are passed over.
+ * When no basket fits, the message gives every basket's reason.
+ */
+export async function planBasketRetirement(quantity: number, filter: BasketFilter = {}): Promise<BasketPlanResult> {
+  const summaries = (await listBasketSummaries()).filter((s) => matchesFilter(s.basket, filter));
+  if (summaries.length === 0) {
+    return {
+      plan: null,
+      message: filter.basketDenom
+        ? `No basket found with denom ${filter.basketDenom}. Use \`browse_baskets\` to list baskets.`
+        : "No basket holds credits of the requested type.",
+    };
+  }
+
+  const screen = await getPolicyScreen();
+  const results = await Promise.all(summaries.map((s) => planForBasket(s, quantity, screen)));
+  const plans = results.flatMap((r) => (r.plan ? [r.plan] : []));
+  if (plans.length === 0) {
+    const failures = results.flatMap((r) => (r.plan ? [] : [r]));
+    if (failures.length === 1) return failures[0];
+    // Each message names its basket
+    const blocked = new Map(failures.flatMap((r) => r.blocked ?? []).map((b) => [b.batchDenom, b]));
+    return {
+      plan: null,
+      message: `No basket can serve ${quantity} credits. ${failures.map((r) => r.message).join(" ")}`,
+      ...(blocked.size > 0 ? { blocked: [...blocked.values()] } : {}),
+    };
+  }
+
+  const fromWallet = plans.find((p) => !p.purchase);
+  if (fromWallet) return { plan: fromWallet };
+
+  // Purchases may be priced in different denoms; compare them in USD when they can be
+  plans.sort((a, b) => {
+    const aUsd = a.purchase?.costUsd;
+    const bUsd = b.purchase?.costUsd;
+    if (aUsd !== undefined && bUsd !== undefined) return aUsd - bUsd;
+    const aCost = a.purchase?.totalCostMicro ?? 0n;
+    const bCost = b.purchase?.totalCostMicro ?? 0n;
+    return aCost < bCost ? -1 : aCost > bCost ? 1 : 0;
+  });
+  return { plan: plans[0] };
+}
+
+/**
+ * Messages for a basket plan: buy and deposit the shortfall (if any), then
+ * take with retire-on-take.
+ */
+export function basketTakeMessages(
+  address: string,
+  plan: BasketPlan,
+  jurisdiction: string,
+  reason: string
+): Array<{ typeUrl: string; value: unknown }> {
+  const { basket, purchase } = plan;
+  const messages: Array<{ typeUrl: string; value: unknown }> = [];
+
+  if (purchase) {
+    messages.push({
+      typeUrl: "/regen.ecocredit.marketplace.v1.MsgBuyDirect",
+      value: {
+        buyer: address,
+        orders: purchase.orders.map((order) => ({
+          sellOrderId: BigInt(order.sellOrderId),
+          quantity: order.quantity,
+          bidPrice: { denom: order.askDenom, amount: order.askAmount },
+          disableAutoRetire: true,
+          retirementJurisdiction: "",
+          retirementReason: "",
+        })),
+      },
+    });
+    messages.push({
+      typeUrl: "/regen.ecocredit.basket.v1.MsgPut",
+      value: {
+        owner: address,
+        basketDenom: basket.basket_denom,
+        credits: purchase.orders.map((order) => ({ batchDenom: order.batchDenom, amount: order.quantity })),
+      },
+    });
+  }
+
+  messages.push({
+    typeUrl: "/regen.ecocredit.basket.v1.MsgTake",
+    value: {
+      owner: address,
+      basketDenom: basket.basket_denom,
+      amount: plan.takeAmount.toString(),
+      retirementLocation: "",
+      retireOnTake: true,
+      retirementJurisdiction: jurisdiction,
+      retirementReason: reason,
+    },
+  });
+
+  return messages;
+}
+
+/**
+ * Execute a basket plan in one transaction. Throws if the chain rejects it.
+ */
+export async function executeBasketTake(
+  address: string,
+  plan: BasketPlan,
+  jurisdiction: string,
+  reason: string
+): Promise<BasketRetirement> {
+  const txResult = await signAndBroadcast(basketTakeMessages(address, plan, jurisdiction, reason));
+  if (txResult.code !== 0) {
+    throw new Error(`Basket take rejected (code ${txResult.code}): ${txResult.rawLog || "unknown error"}`);
+  }
+
+  // Basket contents, sell orders, and supply all changed
+  invalidateMarketData();
+
+  return { txHash: txResult.transactionHash, blockHeight: txResult.height };
+}
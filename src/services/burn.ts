@@ -13,6 +13,7 @@
  */
 
 import { loadConfig } from "../config.js";
+import { getRegenPrice } from "./price-oracle.js";
 import { initWallet, getBalance, signAndBroadcast } from "./wallet.js";
 import {
   getDb,
@@ -20,6 +21,10 @@ import {
   updateBurn,
   type Burn,
 } from "../server/db.js";
+import { centsToTokenUnits, formatUnits, unitsToNumber } from "./decimal.js";
+
+/** uregen per REGEN is 10^6 */
+const REGEN_EXPONENT = 6;
 
 export interface BurnResult {
   burnId: number;
@@ -32,21 +37,6 @@ export interface BurnResult {
   error: string | null;
 }
 
-/** Fetch current REGEN/USD price from CoinGecko (or configured API). */
-export async function getRegenPrice(): Promise<number> {
-  const config = loadConfig();
-  const response = await fetch(config.regenPriceApiUrl);
-  if (!response.ok) {
-    throw new Error(`Price API error: ${response.status} ${response.statusText}`);
-  }
-  const data = (await response.json()) as { regen?: { usd?: number } };
-  const price = data?.regen?.usd;
-  if (typeof price !== "number" || price <= 0) {
-    throw new Error(`Invalid REGEN price from API: ${JSON.stringify(data)}`);
-  }
-  return price;
-}
-
 /**
  * Execute a REGEN burn as part of a pool run.
  *
@@ -106,11 +96,8 @@ export async function executeBurn(options: {
     return result;
   }
 
-  // 2. Calculate target burn amount
-  const allocationUsd = options.allocationCents / 100;
-  const targetRegen = allocationUsd / regenPriceUsd;
-  // uregen = REGEN * 10^6
-  const targetUregen = BigInt(Math.floor(targetRegen * 1_000_000));
+  // 2. Calculate target burn amount (uregen = REGEN * 10^6, rounded down)
+  const targetUregen = centsToTokenUnits(options.allocationCents, regenPriceUsd, REGEN_EXPONENT);
 
   if (targetUregen <= 0n) {
     result.error = `Allocation too small for any REGEN at $${regenPriceUsd}/REGEN`;
@@ -153,8 +140,9 @@ export async function executeBurn(options: {
   const burnUregen = spendableUregen < targetUregen ? spendableUregen : targetUregen;
 
   if (burnUregen <= 0n) {
-    const availableRegen = Number(availableUregen) / 1_000_000;
-    result.error = `Insufficient REGEN balance: have ${availableRegen.toFixed(6)} REGEN, need ${targetRegen.toFixed(6)} REGEN (+ gas reserve). Fund wallet with REGEN to enable burns.`;
+    const availableRegen = formatUnits(availableUregen, REGEN_EXPONENT, REGEN_EXPONENT);
+    const targetRegen = formatUnits(targetUregen, REGEN_EXPONENT, REGEN_EXPONENT);
+    result.error = `Insufficient REGEN balance: have ${availableRegen} REGEN, need ${targetRegen} REGEN (+ gas reserve). Fund wallet with REGEN to enable burns.`;
     result.status = "skipped";
     updateBurn(db, burn.id, {
       status: "skipped",
@@ -164,7 +152,7 @@ export async function executeBurn(options: {
     return result;
   }
 
-  const burnRegen = Number(burnUregen) / 1_000_000;
+  const burnRegen = unitsToNumber(burnUregen, REGEN_EXPONENT);
   result.amountUregen = burnUregen.toString();
   result.amountRegen = burnRegen;
 
@@ -0,0 +1,213 @@
+/**
+ * Shared TTL cache for Regen Ledger and indexer data.
+ *
+ * Every tool, the REST API, and pool runs read sell orders, classes,
+ * denoms, and resolved metadata through this cache instead of refetching them per call. Each
+ * resource has its own freshness window (ttlMs) and a further stale window
+ * (staleMs):
+ *
+ * - age < ttlMs: served from cache
+ * - ttlMs ≤ age < ttlMs + staleMs: served from cache while one background
+ *   request refreshes it (stale-while-revalidate)
+ * - older, or missing: loaded before returning; concurrent callers share
+ *   the same in-flight request
+ *
+ * Our own retirements change sell order quantities and batch supply, so
+ * retirement flows call invalidateMarketData() once a transaction lands.
+ *
+ * With REGEN_CACHE_PERSIST=true, entries are also written to the SQLite
+ * database (REGEN_DB_PATH) so a restarted process or the payment server
+ * starts warm. Persistence is best-effort: database errors never fail a read.
+ */
+
+import { loadConfig } from "../config.js";
+import { getDb, getCacheEntry, setCacheEntry, deleteCacheEntries } from "../server/db.js";
+
+export type CacheResource =
+  | "sell_orders"
+  | "credit_classes"
+  | "projects"
+  | "batches"
+  | "batch_supply"
+  | "balances"
+  | "allowed_denoms"
+  | "baskets"
+  | "basket_balances"
+  | "retirement"
+  | "recent_retirements"
+  | "recent_orders"
+  | "retirement_stats"
+  | "order_stats"
+  | "metadata";
+
+interface ResourcePolicy {
+  ttlMs: number;
+  staleMs: number;
+}
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+const DEFAULT_POLICIES: Record<CacheResource, ResourcePolicy> = {
+  // Orders are filled by other buyers at any time; keep the window short
+  sell_orders: { ttlMs: 30_000, staleMs: 30_000 },
+  credit_classes: { ttlMs: HOUR, staleMs: 24 * HOUR },
+  projects: { ttlMs: HOUR, staleMs: 24 * HOUR },
+  batches: { ttlMs: 10 * MINUTE, staleMs: HOUR },
+  batch_supply: { ttlMs: MINUTE, staleMs: 5 * MINUTE },
+  // Shown to the holder right after they trade or retire; no stale serving
+  balances: { ttlMs: 30_000, staleMs: 0 },
+  allowed_denoms: { ttlMs: HOUR, staleMs: 24 * HOUR },
+  baskets: { ttlMs: HOUR, staleMs: 24 * HOUR },
+  basket_balances: { ttlMs: MINUTE, staleMs: 5 * MINUTE },
+  // Indexed retirements never change
+  retirement: { ttlMs: 24 * HOUR, staleMs: 0 },
+  recent_retirements: { ttlMs: MINUTE, staleMs: 5 * MINUTE },
+  recent_orders: { ttlMs: MINUTE, staleMs: 5 * MINUTE },
+  retirement_stats: { ttlMs: 5 * MINUTE, staleMs: HOUR },
+  order_stats: { ttlMs: 5 * MINUTE, staleMs: HOUR },
+  // Metadata IRIs are content hashes: the document behind one never changes
+  metadata: { ttlMs: 7 * 24 * HOUR, staleMs: 0 },
+};
+
+/** Resources that change when credits are bought or retired */
+const MARKET_RESOURCES: CacheResource[] = [
+  "sell_orders",
+  "batches",
+  "batch_supply",
+  "balances",
+  "basket_balances",
+  "recent_retirements",
+  "recent_orders",
+  "retirement_stats",
+  "order_stats",
+];
+
+interface Entry {
+  value: unknown;
+  fetchedAt: number;
+}
+
+const entries = new Map<string, Entry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+function policyFor(resource: CacheResource): ResourcePolicy {
+  const override = loadConfig().cacheTtlOverridesMs?.[resource];
+  return override !== undefined
+    ? { ...DEFAULT_POLICIES[resource], ttlMs: override }
+    : DEFAULT_POLICIES[resource];
+}
+
+function persistenceDb() {
+  const config = loadConfig();
+  return config.cachePersist ? getDb(config.dbPath) : null;
+}
+
+function readPersisted(key: string): Entry | undefined {
+  try {
+    const db = persistenceDb();
+    const row = db ? getCacheEntry(db, key) : undefined;
+    return row ? { value: JSON.parse(row.value), fetchedAt: row.fetched_at } : undefined;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[cache] failed to read ${key}: ${msg}`);
+    return undefined;
+  }
+}
+
+function writePersisted(key: string, entry: Entry): void {
+  try {
+    const db = persistenceDb();
+    if (db) setCacheEntry(db, key, JSON.stringify(entry.value), entry.fetchedAt);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[cache] failed to persist ${key}: ${msg}`);
+  }
+}
+
+function load<T>(key: string, loader: () => Promise<T>, shouldCache: (value: T) => boolean): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const request: Promise<T> = loader()
+    .then((value) => {
+      // Skip the write if the key was invalidated while this load was in flight
+      if (inFlight.get(key) === request && shouldCache(value)) {
+        const entry = { value, fetchedAt: Date.now() };
+        entries.set(key, entry);
+        writePersisted(key, entry);
+      }
+      return value;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === request) inFlight.delete(key);
+    });
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Return the cached value for `resource` + `key`, loading it with `loader`
+ * when missing or expired. Values rejected by `shouldCache` (e.g. a null
+ * "not indexed yet") are returned but not stored.
+ */
+export async function cached<T>(
+  resource: CacheResource,
+  key: string,
+  loader: () => Promise<T>,
+  shouldCache: (value: T) => boolean = () => true
+): Promise<T> {
+  if (loadConfig().cacheEnabled === false) return loader();
+
+  const fullKey = `${resource}:${key}`;
+  const { ttlMs, staleMs } = policyFor(resource);
+
+  let entry = entries.get(fullKey);
+  if (!entry) {
+    entry = readPersisted(fullKey);
+    if (entry) entries.set(fullKey, entry);
+  }
+
+  if (entry) {
+    const age = Date.now() - entry.fetchedAt;
+    if (age < ttlMs) return entry.value as T;
+    if (age < ttlMs + staleMs) {
+      load(fullKey, loader, shouldCache).catch((err) => {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error(`[cache] background refresh of ${fullKey} failed: ${msg}`);
+      });
+      return entry.value as T;
+    }
+  }
+
+  return load(fullKey, loader, shouldCache);
+}
+
+/** Drop every cached entry of the given resources (memory and SQLite). */
+export function invalidateCache(...resources: CacheResource[]): void {
+  const matches = (key: string) => resources.some((r) => key.startsWith(`${r}:`));
+  for (const key of [...entries.keys()]) {
+    if (matches(key)) entries.delete(key);
+  }
+  for (const key of [...inFlight.keys()]) {
+    if (matches(key)) inFlight.delete(key);
+  }
+  try {
+    const db = persistenceDb();
+    if (db) deleteCacheEntries(db, resources.map((r) => `${r}:`));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[cache] failed to invalidate persisted entries: ${msg}`);
+  }
+}
+
+/** Invalidate order book, supply, and activity data after one of our own retirements. */
+export function invalidateMarketData(): void {
+  invalidateCache(...MARKET_RESOURCES);
+}
+
+/** Empty the in-memory cache (persisted entries are kept). */
+export function clearCache(): void {
+  entries.clear();
+  inFlight.clear();
+}
@@ -0,0 +1,133 @@
+/**
+ * Exact fixed-point arithmetic for credit quantities and money.
+ *
+ * Every quantity and amount is carried as a bigint count of its smallest
+ * unit, with the number of decimal places (its "scale") alongside it:
+ *
+ * - credits at their credit type's precision (6 on Regen Ledger today),
+ * - coins at their denom's exponent (1 REGEN = 10^6 uregen),
+ * - USD in cents (scale 2).
+ *
+ * Conversions that can't be exact round so a purchase never spends more
+ * than it was allowed to: costs round up, and the quantity a budget can buy
+ * rounds down.
+ */
+
+/** Decimal places of a credit quantity when the credit type doesn't say */
+export const DEFAULT_CREDIT_PRECISION = 6;
+
+/** Decimal places of a USD amount held in cents */
+export const USD_SCALE = 2;
+
+/** Decimal places kept when a float price (e.g. REGEN/USD) enters exact math */
+const PRICE_SCALE = 12;
+
+export type Rounding = "floor" | "ceil";
+
+const DECIMAL_RE = /^(\d*)(?:\.(\d*))?$/;
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+/** Integer division of non-negative values, rounded as asked */
+export function divide(numerator: bigint, denominator: bigint, rounding: Rounding): bigint {
+  if (denominator <= 0n) throw new RangeError("Division by a non-positive amount");
+  const quotient = numerator / denominator;
+  return rounding === "ceil" && quotient * denominator !== numerator ? quotient + 1n : quotient;
+}
+
+/** Plain decimal notation for a finite number ("1e-7" → "0.0000001") */
+function numberToDecimal(value: number): string {
+  const text = String(value);
+  const match = text.match(/^(\d+)(?:\.(\d+))?e([+-]\d+)$/);
+  if (!match) return text;
+
+  const digits = match[1] + (match[2] ?? "");
+  const point = match[1].length + parseInt(match[3], 10);
+  if (point <= 0) return `0.${"0".repeat(-point)}${digits}`;
+  if (point >= digits.length) return digits + "0".repeat(point - digits.length);
+  return `${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * Parse a non-negative decimal ("12.5", or a number) into units of
+ * 10^-scale. Digits beyond the scale are rounded as asked.
+ */
+export function parseUnits(value: string | number, scale: number, rounding: Rounding = "floor"): bigint {
+  if (typeof value === "number" && (!Number.isFinite(value) || value < 0)) {
+    throw new RangeError(`Expected a non-negative finite amount, got ${value}`);
+  }
+  const text = typeof value === "number" ? numberToDecimal(value) : value.trim();
+  const match = text.match(DECIMAL_RE);
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new RangeError(`Invalid decimal amount: "${value}"`);
+  }
+
+  const fraction = match[2] ?? "";
+  const kept = fraction.slice(0, scale).padEnd(scale, "0");
+  const units = BigInt((match[1] || "0") + kept);
+  return rounding === "ceil" && /[1-9]/.test(fraction.slice(scale)) ? units + 1n : units;
+}
+
+/**
+ * Format units of 10^-scale as a decimal string. Trailing fractional zeros
+ * are trimmed down to `minFractionDigits` (pass the scale for "2.000000").
+ */
+export function formatUnits(units: bigint, scale: number, minFractionDigits = 0): string {
+  const negative = units < 0n;
+  const abs = negative ? -units : units;
+  const divisor = pow10(scale);
+  const whole = abs / divisor;
+  let fraction = (abs % divisor).toString().padStart(scale, "0");
+  while (fraction.length > minFractionDigits && fraction.endsWith("0")) {
+    fraction = fraction.slice(0, -1);
+  }
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/** Units as a JS number, for display fields and legacy numeric columns */
+export function unitsToNumber(units: bigint, scale: number): number {
+  return Number(formatUnits(units, scale));
+}
+
+/** Re-express units of 10^-from as units of 10^-to */
+export function rescale(units: bigint, from: number, to: number, rounding: Rounding): bigint {
+  if (to >= from) return units * pow10(to - from);
+  return divide(units, pow10(from - to), rounding);
+}
+
+/**
+ * Cost in the ask denom's base units of `quantity` (units of 10^-precision
+ * credits) at `unitPrice` base units per whole credit, rounded up.
+ */
+export function costOf(quantity: bigint, precision: number, unitPrice: bigint): bigint {
+  return divide(quantity * unitPrice, pow10(precision), "ceil");
+}
+
+/**
+ * Most credits (units of 10^-precision) whose costOf() fits in `budget`
+ * base units at `unitPrice` per whole credit.
+ */
+export function affordableQuantity(budget: bigint, precision: number, unitPrice: bigint): bigint {
+  if (budget <= 0n) return 0n;
+  return divide(budget * pow10(precision), unitPrice, "floor");
+}
+
+/**
+ * Base units of a token that `cents` buys at `priceUsd` per whole token,
+ * rounded down.
+ */
+export function centsToTokenUnits(cents: number, priceUsd: number, exponent: number): bigint {
+  const price = parseUnits(priceUsd, PRICE_SCALE, "ceil");
+  return divide(BigInt(cents) * pow10(exponent + PRICE_SCALE - USD_SCALE), price, "floor");
+}
+
+/**
+ * Cents worth of `amount` base units of a token at `priceUsd` per whole
+ * token, rounded up.
+ */
+export function tokenUnitsToCents(amount: bigint, priceUsd: number, exponent: number): number {
+  const price = parseUnits(priceUsd, PRICE_SCALE, "ceil");
+  return Number(divide(amount * price, pow10(exponent + PRICE_SCALE - USD_SCALE), "ceil"));
+}
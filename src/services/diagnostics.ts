@@ -0,0 +1,138 @@
+/**
+ * Connectivity diagnostics for the external APIs.
+ *
+ * Probes every configured endpoint of each shared HTTP client once and
+ * reports the result next to the client's health stats (circuit state,
+ * request and failure counts, latency, last error).
+ *
+ * Health stats live in the process that made the requests, so a fresh CLI
+ * process only sees its own probes. collectHealth() reports the stats a
+ * long-running process has accumulated; the payment server exposes them at
+ * GET /api/v1/diagnostics, which fetchServerDiagnostics() reads.
+ */
+
+import { loadConfig } from "../config.js";
+import { listHttpClients, type EndpointHealth, type HttpClient } from "./http-client.js";
+import { ledgerClient } from "./ledger.js";
+import { indexerClient } from "./indexer.js";
+import { ecoBridgeClient } from "./ecobridge.js";
+import { priceClient } from "./price-oracle.js";
+import { metadataClient } from "./metadata.js";
+
+/** Probe fields are absent for stats that were collected without probing */
+export interface ServiceDiagnostics {
+  name: string;
+  label: string;
+  endpoints: Array<EndpointHealth & { probeOk?: boolean; probeLatencyMs?: number; probeError?: string }>;
+}
+
+interface Probe {
+  client: () => HttpClient;
+  path: string;
+  init?: RequestInit;
+  /** Error statuses that still prove the endpoint is up */
+  reachableStatuses?: number[];
+}
+
+function probes(): Probe[] {
+  const list: Probe[] = [
+    { client: ledgerClient, path: "/regen/ecocredit/marketplace/v1/allowed-denoms" },
+    {
+      client: indexerClient,
+      path: "",
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query: "{ __typename }" }),
+      },
+    },
+    { client: priceClient, path: "" },
+    // The graph answers 404 for an unknown IRI, which is enough to show it is serving
+    { client: metadataClient, path: `/${encodeURIComponent("regen:diagnostics-probe")}`, reachableStatuses: [404] },
+  ];
+  if (loadConfig().ecoBridgeEnabled) {
+    list.push({ client: ecoBridgeClient, path: "/registry/version" });
+  }
+  return list;
+}
+
+export async function runDiagnostics(): Promise<ServiceDiagnostics[]> {
+  const results: ServiceDiagnostics[] = [];
+  for (const probe of probes()) {
+    const client = probe.client();
+    const outcomes = await client.probe(probe.path, probe.init);
+    const health = client.health();
+    results.push({
+      name: client.name,
+      label: client.label,
+      endpoints: health.map((h, i) => {
+        const reachable = outcomes[i].ok || probe.reachableStatuses?.includes(outcomes[i].status ?? 0);
+        return {
+          ...h,
+          probeOk: !!reachable,
+          probeLatencyMs: outcomes[i].latencyMs,
+          probeError: reachable ? undefined : outcomes[i].error,
+        };
+      }),
+    });
+  }
+  return results;
+}
+
+/** Health stats this process has accumulated for every client it has used, without probing */
+export function collectHealth(): ServiceDiagnostics[] {
+  return listHttpClients().map((client) => ({
+    name: client.name,
+    label: client.label,
+    endpoints: client.health(),
+  }));
+}
+
+/** Accumulated health stats of a running payment server (GET /api/v1/diagnostics) */
+export async function fetchServerDiagnostics(baseUrl: string, apiKey: string): Promise<ServiceDiagnostics[]> {
+  const res = await fetch(`${baseUrl.replace(/\/+$/, "")}/api/v1/diagnostics`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+    signal: AbortSignal.timeout(10_000),
+  });
+  if (!res.ok) {
+    const body = (await res.json().catch(() => null)) as { error?: { message?: string } } | null;
+    throw new Error(`Server diagnostics failed: ${res.status} ${body?.error?.message ?? res.statusText}`);
+  }
+  return ((await res.json()) as { services: ServiceDiagnostics[] }).services;
+}
+
+export function formatDiagnostics(results: ServiceDiagnostics[], source?: string): string {
+  const lines: string[] = [`## Connectivity Diagnostics`, ``];
+  if (source) lines.push(`Accumulated stats from ${source}.`, ``);
+
+  for (const service of results) {
+    lines.push(
+      `### ${service.label} (\`${service.name}\`)`,
+      ``,
+      `| Endpoint | Probe | Latency | Circuit | Requests | Failures | Timeouts | Avg latency | Last error |`,
+      `|----------|-------|---------|---------|----------|----------|----------|-------------|------------|`
+    );
+    for (const e of service.endpoints) {
+      lines.push(
+        `| ${e.endpoint} | ${e.probeOk === undefined ? "-" : e.probeOk ? "OK" : "FAIL"} | ${e.probeLatencyMs !== undefined ? `${e.probeLatencyMs}ms` : "-"} | ${e.state} | ${e.requests} | ${e.failures} | ${e.timeouts} | ${e.avgLatencyMs !== null ? `${e.avgLatencyMs}ms` : "-"} | ${e.probeError ?? e.lastError ?? "-"} |`
+      );
+    }
+    lines.push(``);
+  }
+
+  if (results.length === 0) {
+    lines.push(`No external API has been called yet.`);
+    return lines.join("\n");
+  }
+
+  // Without probes, an open circuit is the sign of an unreachable endpoint
+  const failing = results.flatMap((s) =>
+    s.endpoints.filter((e) => (e.probeOk === undefined ? e.state === "open" : !e.probeOk)).map((e) => e.endpoint)
+  );
+  lines.push(
+    failing.length === 0
+      ? `All endpoints reachable.`
+      : `${failing.length} endpoint(s) unreachable. Requests fail over to the remaining endpoints of the same service.`
+  );
+  return lines.join("\n");
+}
@@ -10,6 +10,7 @@
  */
 
 import { loadConfig } from "../config.js";
+import { getHttpClient, type HttpClient } from "./http-client.js";
 
 // --- Type definitions ---
 
@@ -72,14 +73,13 @@ function getCacheTtlMs(): number {
   return loadConfig().ecoBridgeCacheTtlMs;
 }
 
+/** Shared ecoBridge API client */
+export function ecoBridgeClient(): HttpClient {
+  return getHttpClient("ecobridge", "ecoBridge API", [getApiUrl()]);
+}
+
 async function fetchJSON<T>(path: string): Promise<T> {
-  const response = await fetch(`${getApiUrl()}${path}`);
-  if (!response.ok) {
-    throw new Error(
-      `ecoBridge API error: ${response.status} ${response.statusText}`
-    );
-  }
-  return response.json() as Promise<T>;
+  return ecoBridgeClient().requestJSON<T>(path);
 }
 
 /**
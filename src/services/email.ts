@@ -21,6 +21,7 @@ import {
   type CumulativeAttribution,
 } from "../server/db.js";
 import type { PoolRunResult, CreditTypeResult } from "./pool.js";
+import { getProjectDetails, projectIdFromBatchDenom } from "./metadata.js";
 
 const POSTMARK_API_URL = "https://api.postmarkapp.com/email";
 
@@ -37,9 +38,18 @@ interface EmailData {
   cumulative: CumulativeAttribution;
   certificateUrl: string | null;
   txHashes: { label: string; hash: string; url: string }[];
+  projects: ProjectSummary[];
   manageUrl: string;
 }
 
+/** A project funded by the pool run, with fields from its resolved metadata */
+interface ProjectSummary {
+  id: string;
+  name: string;
+  location: string | null;
+  methodology: string | null;
+}
+
 /** Pick the best certificate URL from the pool run result */
 function pickCertificateUrl(result: PoolRunResult, baseUrl: string): string | null {
   // Prefer carbon tx (50% budget, most recognized), fall back to biodiversity, then USS
@@ -77,6 +87,26 @@ function collectTxHashes(result: PoolRunResult): { label: string; hash: string;
   return hashes;
 }
 
+/** Resolve the projects behind every batch retired in this run (best-effort) */
+async function collectProjects(result: PoolRunResult): Promise<ProjectSummary[]> {
+  const projectIds = new Set(
+    [result.carbon, result.biodiversity, result.uss]
+      .flatMap((r) => r.batchDenoms)
+      .map(projectIdFromBatchDenom)
+  );
+  const details = await Promise.all(
+    [...projectIds].map((id) => getProjectDetails(id).catch(() => null))
+  );
+  return details
+    .filter((d) => d !== null)
+    .map((d) => ({
+      id: d.id,
+      name: d.metadata?.name ?? d.id,
+      location: d.metadata?.location ?? (d.jurisdiction || null),
+      methodology: d.metadata?.methodology ?? null,
+    }));
+}
+
 function truncateHash(hash: string): string {
   if (hash.length <= 16) return hash;
   return hash.slice(0, 8) + "..." + hash.slice(-8);
@@ -112,6 +142,22 @@ function renderEmailHtml(data: EmailData): string {
     ? `https://www.linkedin.com/sharing/share-offsite/?url=${shareUrl}`
     : "";
 
+  // Build funded project rows
+  let projectRows = "";
+  for (const project of data.projects) {
+    const detail = [project.location, project.methodology]
+      .filter((v): v is string => v !== null)
+      .map(escapeHtml)
+      .join(" &middot; ");
+    projectRows += `
+                            <tr>
+                              <td style="padding: 6px 0; font-family: Arial, sans-serif; font-size: 14px; color: #1a1a1a;">
+                                <strong>${escapeHtml(project.name)}</strong>
+                                ${detail ? `<br><span style="font-size: 12px; color: #6b7280;">${detail}</span>` : ""}
+                              </td>
+                            </tr>`;
+  }
+
   // Build tx hash rows
   let txRows = "";
   for (const tx of data.txHashes) {
@@ -210,6 +256,20 @@ function renderEmailHtml(data: EmailData): string {
                       </tr>
                     </table>
 
+                    <!-- Projects box -->
+                    ${data.projects.length > 0 ? `
+                    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #ffffff; border-radius: 8px; border: 1px solid #e5e7eb; margin-bottom: 16px;">
+                      <tr>
+                        <td style="padding: 20px;">
+                          <p style="margin: 0 0 8px; font-family: Arial, sans-serif; font-size: 12px; font-weight: 700; letter-spacing: 0.08em; text-transform: uppercase; color: #2d6a4f;">Projects You Supported</p>
+                          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+                            ${projectRows}
+                          </table>
+                        </td>
+                      </tr>
+                    </table>
+                    ` : ""}
+
                     <!-- Cumulative box -->
                     <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f9fafb; border-radius: 8px; border: 1px solid #e5e7eb; margin-bottom: 24px;">
                       <tr>
@@ -398,6 +458,7 @@ export async function sendMonthlyEmails(
 
   const certificateUrl = pickCertificateUrl(result, serverUrl);
   const txHashes = collectTxHashes(result);
+  const projects = await collectProjects(result);
 
   // Per-subscriber manage URL — routes through our /manage endpoint which
   // creates a Stripe Billing Portal session dynamically.
@@ -430,6 +491,7 @@ export async function sendMonthlyEmails(
       cumulative,
       certificateUrl,
       txHashes,
+      projects,
       manageUrl,
     };
 
@@ -4,74 +4,230 @@
  * Provides heuristic estimates of the ecological footprint of AI sessions.
  * These are approximate — MCP servers cannot access internal compute metrics.
  *
- * Methodology sources:
- * - IEA: Data centres and AI are driving a surge in global electricity demand (2024)
- * - Luccioni et al.: "Power Hungry Processing" — energy and carbon costs of AI (2023)
- * - de Vries: "The growing energy footprint of artificial intelligence" (2023)
+ * All constants come from a versioned methodology in methodology.ts (current
+ * by default, or pinned by ID); each estimate records the methodology it used.
  *
- * Key assumptions:
- * - Average AI query energy: ~0.01 kWh (GPT-4 class, incl. data center overhead)
- * - Grid carbon intensity: ~0.4 kg CO2/kWh (global average, IEA 2023)
+ * Two estimation bases:
+ * - "tokens": when the caller supplies per-model token counts, energy is
+ *   computed from the versioned per-family table in model-energy.ts
+ * - "duration": otherwise, queries per minute × energy per query
+ *
+ * Key assumptions (duration basis):
+ * - Grid carbon intensity: regional factor from grid-intensity.ts when a
+ *   region is given and the methodology supports it, else the global average
  * - Tool calls are a rough proxy for compute intensity
  * - A "session" of moderate use ≈ 20-50 queries
+ *
+ * Every estimate also carries low / central / high bounds derived from the
+ * parameter ranges in footprint-uncertainty.ts, plus water use and embodied
+ * hardware emissions from lifecycle-factors.ts. Embodied CO2 is reported
+ * separately and only counted in the suggested retirement when requested.
  */
 
-// Energy per AI interaction (kWh) — conservative estimate for LLM inference
-// Includes PUE (Power Usage Effectiveness) overhead of ~1.2x
-const KWH_PER_QUERY = 0.01;
-
-// Estimated queries per minute of active AI session
-const QUERIES_PER_MINUTE = 1.5;
-
-// Global average grid carbon intensity (kg CO2 per kWh)
-// Source: IEA 2023 global average
-const KG_CO2_PER_KWH = 0.4;
+import { getModelEnergyProfile, type ModelFamily } from "./model-energy.js";
+import { resolveGridIntensity, type GridIntensity } from "./grid-intensity.js";
+import {
+  combineUncertainty,
+  getUncertaintyRanges,
+  gridIntensityRange,
+  proportionalFactor,
+  scaleRange,
+  type FootprintUncertainty,
+  type ParameterFactor,
+  type UncertaintyRanges,
+} from "./footprint-uncertainty.js";
+import { getMethodology, type MethodologyConstants } from "./methodology.js";
+import {
+  estimateWater,
+  estimateEmbodied,
+  type WaterFootprint,
+  type EmbodiedFootprint,
+} from "./lifecycle-factors.js";
 
-// Average price per tonne CO2 for Regen carbon credits (USD)
-const USD_PER_TONNE_CO2 = 40;
+/** Token counts reported for one model during a session */
+export interface ModelTokenUsage {
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens?: number;
+}
 
-// Average price per biodiversity credit (USD)
-const USD_PER_BIO_CREDIT = 26;
+export interface ModelFootprint {
+  model: string;
+  family: ModelFamily;
+  input_tokens: number;
+  output_tokens: number;
+  cached_tokens: number;
+  energy_kwh: number;
+}
 
 export interface FootprintEstimate {
   session_minutes: number;
   estimated_queries: number;
+  basis: "tokens" | "duration";
   energy_kwh: number;
   co2_kg: number;
   co2_tonnes: number;
   equivalent_carbon_credits: number;
   equivalent_cost_usd: number;
+  model_breakdown?: ModelFootprint[];
+  energy_table_version?: string;
+  grid_intensity: GridIntensity;
+  /** ID of the methodology (see methodology.ts) whose constants produced this estimate */
+  methodology_id: string;
+  uncertainty: FootprintUncertainty;
+  water: WaterFootprint;
+  embodied: EmbodiedFootprint;
   methodology_note: string;
 }
 
+export interface EstimateOptions {
+  /** Per-model token counts. When present, replaces the duration heuristic. */
+  usage?: ModelTokenUsage[];
+  /** Country, subregion, or cloud region for the grid intensity factor. Defaults to the global average. */
+  region?: string;
+  /** Count embodied hardware emissions in the suggested credits and cost. Defaults to false. */
+  includeEmbodied?: boolean;
+  /** Methodology ID to pin. Defaults to the current methodology; unknown IDs throw. */
+  methodology?: string;
+}
+
+function hasTokenData(usage: ModelTokenUsage[] | undefined): usage is ModelTokenUsage[] {
+  return !!usage && usage.some(
+    (u) => u.input_tokens > 0 || u.output_tokens > 0 || (u.cached_tokens ?? 0) > 0
+  );
+}
+
+/** Energy for each model's token counts, using the family table of the given version (current by default). */
+export function estimateTokenEnergy(usage: ModelTokenUsage[], tableVersion?: string): ModelFootprint[] {
+  return usage.map((u) => {
+    const profile = getModelEnergyProfile(u.model, tableVersion);
+    const cached = u.cached_tokens ?? 0;
+    const energyKwh =
+      (u.input_tokens / 1000) * profile.kwh_per_1k_input +
+      (u.output_tokens / 1000) * profile.kwh_per_1k_output +
+      (cached / 1000) * profile.kwh_per_1k_cached;
+    return {
+      model: u.model,
+      family: profile.family,
+      input_tokens: u.input_tokens,
+      output_tokens: u.output_tokens,
+      cached_tokens: cached,
+      energy_kwh: Math.round(energyKwh * 1_000_000) / 1_000_000,
+    };
+  });
+}
+
+// Estimate query count from session duration, with tool calls as a floor
+function estimateQueries(sessionMinutes: number, toolCalls: number | undefined, queriesPerMinute: number): number {
+  const estimatedFromDuration = sessionMinutes * queriesPerMinute;
+  return toolCalls
+    ? Math.max(toolCalls * 2, estimatedFromDuration) // Each tool call likely involves ~2 LLM round-trips
+    : estimatedFromDuration;
+}
+
+/** Energy-side parameter factors for the basis in use (grid is handled separately). */
+function energyFactors(
+  basis: "tokens" | "duration",
+  sessionMinutes: number,
+  toolCalls: number | undefined,
+  constants: MethodologyConstants,
+  ranges: UncertaintyRanges["parameters"]
+): ParameterFactor[] {
+  const pue = proportionalFactor("pue", scaleRange(ranges.pue, constants.pue));
+  if (basis === "tokens") {
+    return [proportionalFactor("token_energy_factor", ranges.token_energy_factor), pue];
+  }
+
+  // The tool-call floor caps how far a low queries-per-minute value can pull the estimate down
+  const qpm = scaleRange(ranges.queries_per_minute, constants.queries_per_minute);
+  const central = estimateQueries(sessionMinutes, toolCalls, qpm.central);
+  const queries: ParameterFactor = {
+    parameter: "queries_per_minute",
+    range: qpm,
+    low_factor: central > 0 ? estimateQueries(sessionMinutes, toolCalls, qpm.low) / central : 1,
+    high_factor: central > 0 ? estimateQueries(sessionMinutes, toolCalls, qpm.high) / central : 1,
+  };
+  return [queries, proportionalFactor("kwh_per_query", scaleRange(ranges.kwh_per_query, constants.kwh_per_query)), pue];
+}
+
 export function estimateFootprint(
   sessionMinutes: number,
-  toolCalls?: number
+  toolCalls?: number,
+  options: EstimateOptions = {}
 ): FootprintEstimate {
-  // Estimate query count from session duration, with tool calls as a floor
-  const estimatedFromDuration = sessionMinutes * QUERIES_PER_MINUTE;
-  const estimatedQueries = toolCalls
-    ? Math.max(toolCalls * 2, estimatedFromDuration) // Each tool call likely involves ~2 LLM round-trips
-    : estimatedFromDuration;
+  const methodology = getMethodology(options.methodology);
+  const constants = methodology.constants;
+  const estimatedQueries = estimateQueries(sessionMinutes, toolCalls, constants.queries_per_minute);
 
-  const energyKwh = estimatedQueries * KWH_PER_QUERY;
-  const co2Kg = energyKwh * KG_CO2_PER_KWH;
+  // Methodologies without a token table (or grid dataset) ignore token usage (or region);
+  // tables are looked up at the version the methodology names, so pinning reproduces them
+  const breakdown = constants.energy_table_version && hasTokenData(options.usage)
+    ? estimateTokenEnergy(options.usage, constants.energy_table_version)
+    : undefined;
+  const energyKwh = breakdown
+    ? breakdown.reduce((sum, m) => sum + m.energy_kwh, 0)
+    : estimatedQueries * constants.kwh_per_query;
+  const grid: GridIntensity = constants.grid_dataset_version
+    ? resolveGridIntensity(options.region, constants.grid_dataset_version)
+    : {
+        ...resolveGridIntensity(),
+        kg_co2_per_kwh: constants.default_kg_co2_per_kwh,
+        requested_region: options.region ?? null,
+        fallback: !!options.region,
+      };
+  const co2Kg = energyKwh * grid.kg_co2_per_kwh;
   const co2Tonnes = co2Kg / 1000;
-  const equivalentCredits = co2Tonnes; // 1 carbon credit = 1 tonne CO2
-  const equivalentCostUsd = co2Tonnes * USD_PER_TONNE_CO2;
+  const includeEmbodied = options.includeEmbodied ?? false;
+  const embodied = estimateEmbodied(energyKwh, includeEmbodied, constants.embodied_kg_co2_per_kwh);
+  const embodiedTonnes = includeEmbodied ? embodied.co2_kg / 1000 : 0;
+  const equivalentCredits = co2Tonnes + embodiedTonnes; // 1 carbon credit = 1 tonne CO2
+  const equivalentCostUsd = equivalentCredits * constants.usd_per_tonne_co2;
+  const basis = breakdown ? "tokens" : "duration";
 
-  return {
+  const ranges = getUncertaintyRanges(constants.uncertainty_version);
+  const gridRange = gridIntensityRange(grid, ranges);
+  const uncertainty = combineUncertainty(
+    {
+      energy_kwh: energyKwh,
+      co2_kg: co2Kg,
+      cost_usd: equivalentCostUsd,
+      embodied_cost_usd: embodiedTonnes * constants.usd_per_tonne_co2,
+    },
+    energyFactors(basis, sessionMinutes, toolCalls, constants, ranges.parameters),
+    proportionalFactor("grid_intensity", gridRange)
+  );
+
+  const estimate: FootprintEstimate = {
     session_minutes: sessionMinutes,
     estimated_queries: Math.round(estimatedQueries),
+    basis,
     energy_kwh: Math.round(energyKwh * 10000) / 10000,
     co2_kg: Math.round(co2Kg * 1000) / 1000,
     co2_tonnes: Math.round(co2Tonnes * 100000) / 100000,
-    equivalent_carbon_credits: Math.round(co2Tonnes * 100000) / 100000,
+    equivalent_carbon_credits: Math.round(equivalentCredits * 100000) / 100000,
     equivalent_cost_usd: Math.round(equivalentCostUsd * 100) / 100,
+    grid_intensity: grid,
+    methodology_id: methodology.id,
+    uncertainty,
+    water: estimateWater(energyKwh, constants.wue_l_per_kwh, constants.ewif_l_per_kwh),
+    embodied,
     methodology_note:
       "This is an approximate estimate based on published research on AI energy consumption " +
       "(IEA 2024, Luccioni et al. 2023). Actual energy use varies by model, data center, " +
-      "and grid energy mix. This estimate uses global averages and should be treated as " +
+      "and grid energy mix. This estimate uses average factors and should be treated as " +
       "directional, not precise.",
   };
+
+  if (breakdown) {
+    estimate.model_breakdown = breakdown;
+    estimate.energy_table_version = constants.energy_table_version!;
+    estimate.methodology_note =
+      `Energy is computed from reported token counts using per-model-family energy factors ` +
+      `(table version ${constants.energy_table_version}; Luccioni et al. 2023, Samsi et al. 2023). ` +
+      "Actual energy use varies by hardware, batching, data center, and grid energy mix. " +
+      "This estimate uses average grid factors and should be treated as directional, not precise.";
+  }
+
+  return estimate;
 }
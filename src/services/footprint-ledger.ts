@@ -0,0 +1,225 @@
+/**
+ * Local footprint ledger.
+ *
+ * Persists every footprint estimate and every retirement made through
+ * retire_credits to the local SQLite database, so accumulated AI usage can be
+ * reported by day, week, or month and compared against what has already been
+ * retired on-chain.
+ *
+ * Coverage: one carbon credit retires one tonne CO2e, so only credits from
+ * carbon (C) classes count towards covering the footprint. Biodiversity and
+ * other credit types are recorded but reported separately.
+ */
+
+import { loadConfig } from "../config.js";
+import {
+  getDb,
+  recordFootprintSession,
+  hasFootprintSession,
+  recordFootprintRetirement,
+  getFootprintTotalsByPeriod,
+  getFootprintLifetimeTotals,
+  type FootprintPeriod,
+  type FootprintPeriodTotals,
+  type FootprintSession,
+} from "../server/db.js";
+import type { FootprintEstimate } from "./estimator.js";
+import type { RetirementResult } from "./retirement.js";
+
+export type { FootprintPeriod } from "../server/db.js";
+
+export interface RecordEstimateOptions {
+  projectTag?: string;
+  source?: string;
+  /** Originating system's ID for this session; estimates already recorded under it are skipped */
+  externalId?: string;
+  recordedAt?: string;
+  dbPath?: string;
+}
+
+export interface FootprintReport {
+  period: FootprintPeriod;
+  projectTag: string | null;
+  periods: FootprintPeriodTotals[];
+  totals: {
+    sessions: number;
+    energyKwh: number;
+    co2Kg: number;
+    co2Tonnes: number;
+    co2TonnesCovered: number;
+    co2TonnesUncovered: number;
+    coveragePct: number;
+    creditsRetired: number;
+  };
+}
+
+/** Carbon class batch denoms look like "C01-001-20200101-20201231-001" */
+function isCarbonBatch(batchDenom: string): boolean {
+  return /^C\d/.test(batchDenom);
+}
+
+/**
+ * Record a footprint estimate in the ledger. Returns null (without throwing)
+ * when the ledger is disabled, the database cannot be opened, or the
+ * externalId was already recorded — the estimate itself must never fail
+ * because of local bookkeeping.
+ */
+export function recordEstimate(
+  estimate: FootprintEstimate,
+  options: RecordEstimateOptions = {}
+): FootprintSession | null {
+  const config = loadConfig();
+  if (!config.footprintLedgerEnabled) return null;
+
+  try {
+    const db = getDb(options.dbPath ?? config.dbPath);
+    const source = options.source ?? "mcp";
+    if (options.externalId && hasFootprintSession(db, source, options.externalId)) return null;
+
+    const models = estimate.model_breakdown ?? [];
+    return recordFootprintSession(db, {
+      project_tag: options.projectTag ?? null,
+      model: models.length > 0 ? models.map((m) => m.model).join(", ") : null,
+      basis: estimate.basis,
+      session_minutes: estimate.session_minutes,
+      input_tokens: models.reduce((sum, m) => sum + m.input_tokens, 0),
+      output_tokens: models.reduce((sum, m) => sum + m.output_tokens, 0),
+      cached_tokens: models.reduce((sum, m) => sum + m.cached_tokens, 0),
+      energy_kwh: estimate.energy_kwh,
+      co2_kg: estimate.co2_kg,
+      grid_region: estimate.grid_intensity.region,
+      source,
+      external_id: options.externalId,
+      methodology_id: estimate.methodology_id,
+      recorded_at: options.recordedAt,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[footprint-ledger] failed to record estimate: ${msg}`);
+    return null;
+  }
+}
+
+export interface RecordRetirementOptions {
+  creditClass?: string;
+  /** Defaults to "retire_credits"; auto-contribution policies use "policy:<id>" */
+  source?: string;
+  /** Project the retirement covers; it then only counts towards that project's coverage */
+  projectTag?: string;
+  costUsd?: number;
+  /** Uncovered footprint (t CO2) the retirement was meant to cover */
+  footprintTonnes?: number;
+  dbPath?: string;
+}
+
+/** Record a successful on-chain retirement so it counts towards footprint coverage. */
+export function recordRetirement(result: RetirementResult, options: RecordRetirementOptions = {}): void {
+  const config = loadConfig();
+  if (!config.footprintLedgerEnabled || result.status !== "success") return;
+
+  const batches = result.batches ?? [];
+  const carbonTonnes = batches
+    .filter((b) => isCarbonBatch(b.batchDenom))
+    .reduce((sum, b) => sum + parseFloat(b.quantity), 0);
+
+  try {
+    const db = getDb(options.dbPath ?? config.dbPath);
+    recordFootprintRetirement(db, {
+      tx_hash: result.txHash ?? null,
+      credit_class: options.creditClass ?? null,
+      credits_retired: parseFloat(result.creditsRetired ?? "0"),
+      co2_tonnes_covered: carbonTonnes,
+      source: options.source,
+      project_tag: options.projectTag,
+      cost_usd: options.costUsd,
+      footprint_co2_tonnes: options.footprintTonnes,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[footprint-ledger] failed to record retirement: ${msg}`);
+  }
+}
+
+export function buildFootprintReport(
+  period: FootprintPeriod,
+  options: { projectTag?: string; userId?: number; limit?: number; dbPath?: string } = {}
+): FootprintReport {
+  const db = getDb(options.dbPath ?? loadConfig().dbPath);
+  const filter = { projectTag: options.projectTag, userId: options.userId };
+  const periods = getFootprintTotalsByPeriod(db, period, filter, options.limit);
+  const lifetime = getFootprintLifetimeTotals(db, filter);
+
+  const co2Tonnes = lifetime.co2_kg / 1000;
+  const covered = Math.min(lifetime.co2_tonnes_covered, co2Tonnes);
+
+  return {
+    period,
+    projectTag: options.projectTag ?? null,
+    periods,
+    totals: {
+      sessions: lifetime.sessions,
+      energyKwh: lifetime.energy_kwh,
+      co2Kg: lifetime.co2_kg,
+      co2Tonnes,
+      co2TonnesCovered: lifetime.co2_tonnes_covered,
+      co2TonnesUncovered: Math.max(co2Tonnes - lifetime.co2_tonnes_covered, 0),
+      coveragePct: co2Tonnes > 0 ? (covered / co2Tonnes) * 100 : 0,
+      creditsRetired: lifetime.credits_retired,
+    },
+  };
+}
+
+/** Format a footprint report as markdown (used by both the MCP tool and the CLI). */
+export function formatFootprintReport(report: FootprintReport): string {
+  const { totals } = report;
+  const lines: string[] = [
+    `## AI Footprint Report (by ${report.period})`,
+    ``,
+  ];
+
+  if (report.projectTag) {
+    lines.push(`Project: **${report.projectTag}**`, ``);
+  }
+
+  if (report.periods.length === 0) {
+    lines.push(
+      `No footprint estimates recorded yet. Estimates are added to the ledger each time`,
+      `\`estimate_session_footprint\` runs (unless REGEN_FOOTPRINT_LEDGER=false).`
+    );
+    return lines.join("\n");
+  }
+
+  lines.push(
+    `| Period | Sessions | Energy (kWh) | CO2 (kg) | Retired (t CO2) |`,
+    `|--------|----------|--------------|----------|-----------------|`
+  );
+  for (const p of report.periods) {
+    lines.push(
+      `| ${p.period} | ${p.sessions} | ${p.energy_kwh.toFixed(4)} | ${p.co2_kg.toFixed(3)} | ${p.co2_tonnes_covered.toFixed(5)} |`
+    );
+  }
+
+  lines.push(
+    ``,
+    `### Lifetime Totals`,
+    `| Metric | Value |`,
+    `|--------|-------|`,
+    `| Sessions recorded | ${totals.sessions} |`,
+    `| Energy | ${totals.energyKwh.toFixed(4)} kWh |`,
+    `| CO2 equivalent | ${totals.co2Kg.toFixed(3)} kg (${totals.co2Tonnes.toFixed(5)} t) |`,
+    `| Covered by carbon retirements | ${totals.co2TonnesCovered.toFixed(5)} t (${totals.coveragePct.toFixed(1)}%) |`,
+    `| Not yet covered | ${totals.co2TonnesUncovered.toFixed(5)} t |`,
+    `| Credits retired via retire_credits | ${totals.creditsRetired.toFixed(6)} |`,
+    ``
+  );
+
+  if (totals.co2TonnesUncovered > 0) {
+    lines.push(
+      `To cover the remaining footprint, use \`retire_credits\` with credit_class "C" and quantity ${Math.max(totals.co2TonnesUncovered, 0.000001).toFixed(6)}.`
+    );
+  } else {
+    lines.push(`The recorded footprint is fully covered by carbon credit retirements.`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,211 @@
+/**
+ * Uncertainty ranges for footprint estimates.
+ *
+ * Every estimate is the product of a handful of uncertain parameters. Each
+ * parameter gets a low / central / high value taken from the literature; the
+ * central values are the ones the estimator already uses. Bounds are formed by
+ * moving every parameter to the same extreme at once, so they are deliberately
+ * conservative (a plausible worst/best case, not a confidence interval).
+ *
+ * Variance attribution works in log space: a parameter spanning a factor of
+ * high/low contributes ln(high/low)^2, and its share of the sum tells the
+ * reader which assumption matters most for this particular estimate.
+ *
+ * Sources:
+ * - Queries per minute and kWh per query: Luccioni et al. (2023), de Vries (2023), Epoch AI (2025)
+ * - PUE: Uptime Institute Global Data Center Survey (2024) — industry average ~1.56,
+ *   hyperscale facilities ~1.1
+ * - Grid intensity: Ember / eGRID annual averages differ from hourly and marginal
+ *   factors by roughly ±20%; unknown regions fall back to a much wider band
+ */
+
+import type { GridIntensity } from "./grid-intensity.js";
+
+export type UncertaintyParameter =
+  | "queries_per_minute"
+  | "kwh_per_query"
+  | "token_energy_factor"
+  | "pue"
+  | "grid_intensity";
+
+export interface ParameterRange {
+  low: number;
+  central: number;
+  high: number;
+  unit: string;
+}
+
+export interface Bounds {
+  low: number;
+  central: number;
+  high: number;
+}
+
+export interface ParameterContribution extends ParameterRange {
+  parameter: UncertaintyParameter;
+  /** Fraction (0-1) of log-space variance in CO2 attributable to this parameter */
+  variance_share: number;
+}
+
+export interface FootprintUncertainty {
+  energy_kwh: Bounds;
+  co2_kg: Bounds;
+  cost_usd: Bounds;
+  parameters: ParameterContribution[];
+  dominant_parameter: UncertaintyParameter;
+}
+
+/** Version of the current uncertainty ranges (see UNCERTAINTY_RANGE_SETS) */
+export const UNCERTAINTY_RANGES_VERSION = "2026-03";
+
+/** Relative band around the grid factor */
+interface GridBand {
+  low: number;
+  high: number;
+}
+
+export interface UncertaintyRanges {
+  /**
+   * Ranges for parameters that do not depend on the estimate itself.
+   * kwh_per_query and the token table are expressed at the central PUE; the
+   * PUE range scales them relative to that.
+   */
+  parameters: Record<Exclude<UncertaintyParameter, "grid_intensity">, ParameterRange>;
+  /** Band for a known region */
+  grid_known: GridBand;
+  /** Wider band when the region was unknown or only the global average applies */
+  grid_fallback: GridBand;
+}
+
+/**
+ * Every published set of ranges, keyed by version. Never edit one in place:
+ * add a new set under a new version and point UNCERTAINTY_RANGES_VERSION at
+ * it, so pinned methodologies keep reproducing their bounds.
+ */
+const UNCERTAINTY_RANGE_SETS: Record<string, UncertaintyRanges> = {
+  "2026-03": {
+    parameters: {
+      queries_per_minute: { low: 0.5, central: 1.5, high: 3, unit: "queries/min" },
+      kwh_per_query: { low: 0.003, central: 0.01, high: 0.03, unit: "kWh/query" },
+      token_energy_factor: { low: 0.5, central: 1, high: 2.5, unit: "x energy table" },
+      pue: { low: 1.1, central: 1.2, high: 1.6, unit: "PUE" },
+    },
+    grid_known: { low: 0.8, high: 1.2 },
+    grid_fallback: { low: 0.5, high: 1.75 },
+  },
+};
+
+/** Look up a set of ranges by version; defaults to the current one. Throws on unknown versions. */
+export function getUncertaintyRanges(version: string = UNCERTAINTY_RANGES_VERSION): UncertaintyRanges {
+  const ranges = UNCERTAINTY_RANGE_SETS[version];
+  if (!ranges) {
+    throw new Error(
+      `Unknown uncertainty ranges version "${version}". Available: ${Object.keys(UNCERTAINTY_RANGE_SETS).join(", ")}`
+    );
+  }
+  return ranges;
+}
+
+/** Re-centre a range on a methodology's central value, keeping its relative spread. */
+export function scaleRange(range: ParameterRange, central: number): ParameterRange {
+  if (range.central === 0 || range.central === central) return range;
+  const ratio = central / range.central;
+  return { ...range, low: round(range.low * ratio, 6), central, high: round(range.high * ratio, 6) };
+}
+
+export function gridIntensityRange(grid: GridIntensity, ranges: UncertaintyRanges = getUncertaintyRanges()): ParameterRange {
+  const band = grid.fallback || grid.requested_region === null ? ranges.grid_fallback : ranges.grid_known;
+  return {
+    low: round(grid.kg_co2_per_kwh * band.low, 4),
+    central: grid.kg_co2_per_kwh,
+    high: round(grid.kg_co2_per_kwh * band.high, 4),
+    unit: "kg CO2/kWh",
+  };
+}
+
+/** One parameter's range plus the factor it applies to the central estimate at each extreme. */
+export interface ParameterFactor {
+  parameter: UncertaintyParameter;
+  range: ParameterRange;
+  low_factor: number;
+  high_factor: number;
+}
+
+/** Factor form of a range whose effect on the result is proportional to its value. */
+export function proportionalFactor(parameter: UncertaintyParameter, range: ParameterRange): ParameterFactor {
+  if (range.central === 0) return { parameter, range, low_factor: 1, high_factor: 1 };
+  return {
+    parameter,
+    range,
+    low_factor: range.low / range.central,
+    high_factor: range.high / range.central,
+  };
+}
+
+/**
+ * Combine parameter factors into low / central / high bounds.
+ * Energy factors scale energy, CO2, and cost; the grid factor scales only CO2
+ * and the operational part of cost (embodied_cost_usd scales with energy alone).
+ */
+export function combineUncertainty(
+  central: { energy_kwh: number; co2_kg: number; cost_usd: number; embodied_cost_usd?: number },
+  energyFactors: ParameterFactor[],
+  gridFactor: ParameterFactor
+): FootprintUncertainty {
+  const product = (factors: ParameterFactor[], side: "low_factor" | "high_factor") =>
+    factors.reduce((acc, f) => acc * f[side], 1);
+
+  const energyLow = product(energyFactors, "low_factor");
+  const energyHigh = product(energyFactors, "high_factor");
+  const co2Low = energyLow * gridFactor.low_factor;
+  const co2High = energyHigh * gridFactor.high_factor;
+
+  const all = [...energyFactors, gridFactor];
+  const weights = all.map((f) => {
+    const span = Math.log(Math.max(f.high_factor, f.low_factor) / Math.min(f.high_factor, f.low_factor));
+    return Number.isFinite(span) ? span * span : 0;
+  });
+  const total = weights.reduce((a, b) => a + b, 0);
+
+  const parameters: ParameterContribution[] = all.map((f, i) => ({
+    parameter: f.parameter,
+    ...f.range,
+    variance_share: total > 0 ? round(weights[i] / total, 3) : 0,
+  }));
+  const dominant = parameters.reduce((best, p) => (p.variance_share > best.variance_share ? p : best));
+
+  return {
+    energy_kwh: bounds(central.energy_kwh, energyLow, energyHigh, 4),
+    co2_kg: bounds(central.co2_kg, co2Low, co2High, 3),
+    cost_usd: costBounds(central.cost_usd, central.embodied_cost_usd ?? 0, [co2Low, co2High], [energyLow, energyHigh]),
+    parameters,
+    dominant_parameter: dominant.parameter,
+  };
+}
+
+function bounds(central: number, lowFactor: number, highFactor: number, digits: number): Bounds {
+  return {
+    low: round(central * lowFactor, digits),
+    central: round(central, digits),
+    high: round(central * highFactor, digits),
+  };
+}
+
+function costBounds(
+  total: number,
+  embodied: number,
+  [co2Low, co2High]: [number, number],
+  [energyLow, energyHigh]: [number, number]
+): Bounds {
+  const operational = total - embodied;
+  return {
+    low: round(operational * co2Low + embodied * energyLow, 2),
+    central: round(total, 2),
+    high: round(operational * co2High + embodied * energyHigh, 2),
+  };
+}
+
+function round(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
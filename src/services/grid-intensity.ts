@@ -0,0 +1,245 @@
+/**
+ * Offline grid carbon-intensity dataset.
+ *
+ * Bundled so the estimator never needs a network call. Regions are keyed by:
+ * - ISO 3166-1 alpha-2 country codes ("US", "DE") — same format as retirement jurisdictions
+ * - ISO 3166-2 subregions ("US-OR", "CA-QC") where grid mixes differ sharply within a country
+ * - Cloud provider regions ("us-east-1", "europe-west4", "westeurope"), mapped to the grid they draw from
+ *
+ * Lookup falls back from subregion → country → global average, and the result
+ * always reports which factor, source, and source year were actually used.
+ *
+ * Values are operational (scope 2, location-based) emission factors in kg CO2e per kWh.
+ * Published datasets are frozen in GRID_DATASETS under their version: to
+ * change a factor or a cloud mapping, add a new dataset under a new version
+ * and point GRID_DATASET_VERSION at it.
+ */
+
+export const GRID_DATASET_VERSION = "2026-03";
+
+export const GLOBAL_REGION = "GLOBAL";
+
+export type CloudProvider = "aws" | "gcp" | "azure";
+
+export interface GridRegion {
+  name: string;
+  kg_co2_per_kwh: number;
+  source: string;
+  source_year: number;
+}
+
+export interface GridIntensity extends GridRegion {
+  /** Region string the caller asked for, as given */
+  requested_region: string | null;
+  /** Grid region code the factor came from ("US-VA", "DE", "GLOBAL") */
+  region: string;
+  cloud_provider?: CloudProvider;
+  /** True when the requested region was unknown or only matched at a coarser level */
+  fallback: boolean;
+}
+
+const EMBER = "Ember Yearly Electricity Data";
+const EGRID = "US EPA eGRID2022 (state output emission rates)";
+const CANADA_NIR = "Canada National Inventory Report 2024 (Annex 13)";
+const AU_NGA = "Australian National Greenhouse Accounts Factors 2023";
+
+const GRID_REGIONS_2026_03: Record<string, GridRegion> = {
+  [GLOBAL_REGION]: { name: "Global average", kg_co2_per_kwh: 0.4, source: "IEA Electricity 2024", source_year: 2023 },
+
+  // --- Countries ---
+  US: { name: "United States", kg_co2_per_kwh: 0.369, source: EMBER, source_year: 2023 },
+  CA: { name: "Canada", kg_co2_per_kwh: 0.128, source: EMBER, source_year: 2023 },
+  MX: { name: "Mexico", kg_co2_per_kwh: 0.423, source: EMBER, source_year: 2023 },
+  BR: { name: "Brazil", kg_co2_per_kwh: 0.098, source: EMBER, source_year: 2023 },
+  AR: { name: "Argentina", kg_co2_per_kwh: 0.344, source: EMBER, source_year: 2023 },
+  CL: { name: "Chile", kg_co2_per_kwh: 0.291, source: EMBER, source_year: 2023 },
+  CO: { name: "Colombia", kg_co2_per_kwh: 0.164, source: EMBER, source_year: 2023 },
+  PE: { name: "Peru", kg_co2_per_kwh: 0.262, source: EMBER, source_year: 2023 },
+  GB: { name: "United Kingdom", kg_co2_per_kwh: 0.238, source: EMBER, source_year: 2023 },
+  IE: { name: "Ireland", kg_co2_per_kwh: 0.282, source: EMBER, source_year: 2023 },
+  FR: { name: "France", kg_co2_per_kwh: 0.056, source: EMBER, source_year: 2023 },
+  DE: { name: "Germany", kg_co2_per_kwh: 0.381, source: EMBER, source_year: 2023 },
+  NL: { name: "Netherlands", kg_co2_per_kwh: 0.268, source: EMBER, source_year: 2023 },
+  BE: { name: "Belgium", kg_co2_per_kwh: 0.138, source: EMBER, source_year: 2023 },
+  ES: { name: "Spain", kg_co2_per_kwh: 0.174, source: EMBER, source_year: 2023 },
+  PT: { name: "Portugal", kg_co2_per_kwh: 0.165, source: EMBER, source_year: 2023 },
+  IT: { name: "Italy", kg_co2_per_kwh: 0.331, source: EMBER, source_year: 2023 },
+  CH: { name: "Switzerland", kg_co2_per_kwh: 0.035, source: EMBER, source_year: 2023 },
+  AT: { name: "Austria", kg_co2_per_kwh: 0.158, source: EMBER, source_year: 2023 },
+  SE: { name: "Sweden", kg_co2_per_kwh: 0.041, source: EMBER, source_year: 2023 },
+  NO: { name: "Norway", kg_co2_per_kwh: 0.030, source: EMBER, source_year: 2023 },
+  FI: { name: "Finland", kg_co2_per_kwh: 0.079, source: EMBER, source_year: 2023 },
+  DK: { name: "Denmark", kg_co2_per_kwh: 0.151, source: EMBER, source_year: 2023 },
+  PL: { name: "Poland", kg_co2_per_kwh: 0.662, source: EMBER, source_year: 2023 },
+  CZ: { name: "Czechia", kg_co2_per_kwh: 0.449, source: EMBER, source_year: 2023 },
+  IN: { name: "India", kg_co2_per_kwh: 0.713, source: EMBER, source_year: 2023 },
+  CN: { name: "China", kg_co2_per_kwh: 0.582, source: EMBER, source_year: 2023 },
+  JP: { name: "Japan", kg_co2_per_kwh: 0.485, source: EMBER, source_year: 2023 },
+  KR: { name: "South Korea", kg_co2_per_kwh: 0.436, source: EMBER, source_year: 2023 },
+  TW: { name: "Taiwan", kg_co2_per_kwh: 0.561, source: EMBER, source_year: 2023 },
+  SG: { name: "Singapore", kg_co2_per_kwh: 0.470, source: EMBER, source_year: 2023 },
+  ID: { name: "Indonesia", kg_co2_per_kwh: 0.676, source: EMBER, source_year: 2023 },
+  AU: { name: "Australia", kg_co2_per_kwh: 0.548, source: EMBER, source_year: 2023 },
+  NZ: { name: "New Zealand", kg_co2_per_kwh: 0.112, source: EMBER, source_year: 2023 },
+  ZA: { name: "South Africa", kg_co2_per_kwh: 0.708, source: EMBER, source_year: 2023 },
+  KE: { name: "Kenya", kg_co2_per_kwh: 0.070, source: EMBER, source_year: 2023 },
+  AE: { name: "United Arab Emirates", kg_co2_per_kwh: 0.492, source: EMBER, source_year: 2023 },
+
+  // --- Subregions ---
+  "US-AZ": { name: "Arizona, US", kg_co2_per_kwh: 0.335, source: EGRID, source_year: 2022 },
+  "US-CA": { name: "California, US", kg_co2_per_kwh: 0.203, source: EGRID, source_year: 2022 },
+  "US-GA": { name: "Georgia, US", kg_co2_per_kwh: 0.365, source: EGRID, source_year: 2022 },
+  "US-IA": { name: "Iowa, US", kg_co2_per_kwh: 0.330, source: EGRID, source_year: 2022 },
+  "US-IL": { name: "Illinois, US", kg_co2_per_kwh: 0.254, source: EGRID, source_year: 2022 },
+  "US-NC": { name: "North Carolina, US", kg_co2_per_kwh: 0.300, source: EGRID, source_year: 2022 },
+  "US-NV": { name: "Nevada, US", kg_co2_per_kwh: 0.321, source: EGRID, source_year: 2022 },
+  "US-NY": { name: "New York, US", kg_co2_per_kwh: 0.209, source: EGRID, source_year: 2022 },
+  "US-OH": { name: "Ohio, US", kg_co2_per_kwh: 0.540, source: EGRID, source_year: 2022 },
+  "US-OR": { name: "Oregon, US", kg_co2_per_kwh: 0.162, source: EGRID, source_year: 2022 },
+  "US-SC": { name: "South Carolina, US", kg_co2_per_kwh: 0.245, source: EGRID, source_year: 2022 },
+  "US-TX": { name: "Texas, US", kg_co2_per_kwh: 0.373, source: EGRID, source_year: 2022 },
+  "US-UT": { name: "Utah, US", kg_co2_per_kwh: 0.594, source: EGRID, source_year: 2022 },
+  "US-VA": { name: "Virginia, US", kg_co2_per_kwh: 0.282, source: EGRID, source_year: 2022 },
+  "US-WA": { name: "Washington, US", kg_co2_per_kwh: 0.080, source: EGRID, source_year: 2022 },
+  "CA-AB": { name: "Alberta, CA", kg_co2_per_kwh: 0.530, source: CANADA_NIR, source_year: 2022 },
+  "CA-BC": { name: "British Columbia, CA", kg_co2_per_kwh: 0.013, source: CANADA_NIR, source_year: 2022 },
+  "CA-ON": { name: "Ontario, CA", kg_co2_per_kwh: 0.030, source: CANADA_NIR, source_year: 2022 },
+  "CA-QC": { name: "Quebec, CA", kg_co2_per_kwh: 0.002, source: CANADA_NIR, source_year: 2022 },
+  "AU-NSW": { name: "New South Wales, AU", kg_co2_per_kwh: 0.680, source: AU_NGA, source_year: 2023 },
+  "AU-VIC": { name: "Victoria, AU", kg_co2_per_kwh: 0.790, source: AU_NGA, source_year: 2023 },
+};
+
+/** Cloud region → [provider, grid region it draws from] */
+const CLOUD_REGIONS_2026_03: Record<string, [CloudProvider, string]> = {
+  // AWS
+  "us-east-1": ["aws", "US-VA"],
+  "us-east-2": ["aws", "US-OH"],
+  "us-west-1": ["aws", "US-CA"],
+  "us-west-2": ["aws", "US-OR"],
+  "ca-central-1": ["aws", "CA-QC"],
+  "sa-east-1": ["aws", "BR"],
+  "eu-west-1": ["aws", "IE"],
+  "eu-west-2": ["aws", "GB"],
+  "eu-west-3": ["aws", "FR"],
+  "eu-central-1": ["aws", "DE"],
+  "eu-north-1": ["aws", "SE"],
+  "eu-south-1": ["aws", "IT"],
+  "ap-south-1": ["aws", "IN"],
+  "ap-northeast-1": ["aws", "JP"],
+  "ap-northeast-2": ["aws", "KR"],
+  "ap-southeast-1": ["aws", "SG"],
+  "ap-southeast-2": ["aws", "AU-NSW"],
+
+  // Google Cloud
+  "us-central1": ["gcp", "US-IA"],
+  "us-east1": ["gcp", "US-SC"],
+  "us-east4": ["gcp", "US-VA"],
+  "us-west1": ["gcp", "US-OR"],
+  "us-west2": ["gcp", "US-CA"],
+  "us-west4": ["gcp", "US-NV"],
+  "northamerica-northeast1": ["gcp", "CA-QC"],
+  "southamerica-east1": ["gcp", "BR"],
+  "europe-west1": ["gcp", "BE"],
+  "europe-west2": ["gcp", "GB"],
+  "europe-west3": ["gcp", "DE"],
+  "europe-west4": ["gcp", "NL"],
+  "europe-north1": ["gcp", "FI"],
+  "asia-east1": ["gcp", "TW"],
+  "asia-northeast1": ["gcp", "JP"],
+  "asia-southeast1": ["gcp", "SG"],
+  "australia-southeast1": ["gcp", "AU-NSW"],
+
+  // Azure
+  "eastus": ["azure", "US-VA"],
+  "eastus2": ["azure", "US-VA"],
+  "centralus": ["azure", "US-IA"],
+  "westus": ["azure", "US-CA"],
+  "westus2": ["azure", "US-WA"],
+  "canadacentral": ["azure", "CA-ON"],
+  "brazilsouth": ["azure", "BR"],
+  "northeurope": ["azure", "IE"],
+  "westeurope": ["azure", "NL"],
+  "uksouth": ["azure", "GB"],
+  "francecentral": ["azure", "FR"],
+  "germanywestcentral": ["azure", "DE"],
+  "swedencentral": ["azure", "SE"],
+  "centralindia": ["azure", "IN"],
+  "japaneast": ["azure", "JP"],
+  "southeastasia": ["azure", "SG"],
+  "australiaeast": ["azure", "AU-NSW"],
+};
+
+/** Grid factors plus the grid each cloud region draws from, as of one version */
+interface GridDataset {
+  regions: Record<string, GridRegion>;
+  cloud: Record<string, [CloudProvider, string]>;
+}
+
+/** Every published dataset, keyed by version. Never edit one in place. */
+const GRID_DATASETS: Record<string, GridDataset> = {
+  "2026-03": { regions: GRID_REGIONS_2026_03, cloud: CLOUD_REGIONS_2026_03 },
+};
+
+function getGridDataset(version: string): GridDataset {
+  const dataset = GRID_DATASETS[version];
+  if (!dataset) {
+    throw new Error(
+      `Unknown grid intensity dataset version "${version}". Available: ${Object.keys(GRID_DATASETS).join(", ")}`
+    );
+  }
+  return dataset;
+}
+
+function toIntensity(
+  dataset: GridDataset,
+  requested: string | null,
+  code: string,
+  fallback: boolean,
+  cloudProvider?: CloudProvider
+): GridIntensity {
+  const region = dataset.regions[code];
+  return {
+    ...region,
+    requested_region: requested,
+    region: code,
+    ...(cloudProvider ? { cloud_provider: cloudProvider } : {}),
+    fallback,
+  };
+}
+
+/**
+ * Resolve a location to a grid carbon-intensity factor.
+ *
+ * Accepts a cloud region ("us-east-1"), an ISO 3166-2 subregion ("US-OR"),
+ * or an ISO 3166-1 country ("DE"). Unknown subregions fall back to their
+ * country; anything else falls back to the global average. Uses the
+ * current dataset unless a version is pinned; unknown versions throw.
+ */
+export function resolveGridIntensity(region?: string | null, version: string = GRID_DATASET_VERSION): GridIntensity {
+  const dataset = getGridDataset(version);
+  const requested = region?.trim() || null;
+  if (!requested) return toIntensity(dataset, null, GLOBAL_REGION, false);
+
+  const cloud = dataset.cloud[requested.toLowerCase()];
+  if (cloud) {
+    const [provider, gridCode] = cloud;
+    return toIntensity(dataset, requested, gridCode, false, provider);
+  }
+
+  const code = requested.toUpperCase();
+  if (dataset.regions[code]) return toIntensity(dataset, requested, code, false);
+
+  const country = code.split("-")[0];
+  if (dataset.regions[country]) return toIntensity(dataset, requested, country, true);
+
+  return toIntensity(dataset, requested, GLOBAL_REGION, true);
+}
+
+/** List all known grid and cloud region codes (for tool descriptions and validation messages). */
+export function listGridRegions(version: string = GRID_DATASET_VERSION): { grid: string[]; cloud: string[] } {
+  const dataset = getGridDataset(version);
+  return {
+    grid: Object.keys(dataset.regions).filter((k) => k !== GLOBAL_REGION),
+    cloud: Object.keys(dataset.cloud),
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Selection of tradable credits from a wallet's own ecocredit balance.
+ *
+ * Used by the MsgRetire path of executeRetirement(): instead of buying from
+ * sell orders, credits the treasury already holds (bought earlier or received
+ * as transfers) are retired directly. Oldest vintages are retired first.
+ */
+
+import { listBalances, listCreditClasses } from "./ledger.js";
+import type { BlockedBatch } from "./procurement-policy.js";
+
+export interface WalletCreditFilter {
+  /** "carbon" or "biodiversity", matched on the class's credit type */
+  creditType?: string;
+  /** Credit type abbreviation, e.g. "C" or "BT" */
+  creditTypeAbbrev?: string;
+  /** Restrict to these credit class IDs (e.g. ["C01", "C03"]) */
+  classIds?: string[];
+  /** Restrict to one project, e.g. "C01-001" */
+  projectId?: string;
+  /** Retire only from this batch */
+  batchDenom?: string;
+  /** Why the procurement policy blocks a batch (null when allowed); blocked batches are skipped */
+  batchReason?: (batchDenom: string) => string | null;
+}
+
+export interface WalletCreditSelection {
+  credits: Array<{ batchDenom: string; amount: string }>;
+  totalQuantity: string;
+  /** Tradable credits matching the filter */
+  availableQuantity: string;
+  insufficientBalance: boolean;
+  /** Matching batches the procurement policy kept out of the selection */
+  blocked: BlockedBatch[];
+}
+
+/** "C01-001-20150101-20151231-001" → "20150101" (sortable vintage start) */
+function vintageStart(batchDenom: string): string {
+  return batchDenom.split("-")[2] ?? "";
+}
+
+export async function selectWalletCredits(
+  address: string,
+  quantity: number,
+  filter: WalletCreditFilter = {}
+): Promise<WalletCreditSelection> {
+  const [balances, classes] = await Promise.all([
+    listBalances(address),
+    filter.creditType || filter.creditTypeAbbrev ? listCreditClasses() : Promise.resolve([]),
+  ]);
+  const classTypeMap = new Map(classes.map((c) => [c.id, c.credit_type_abbrev]));
+
+  const matchesFilter = (batchDenom: string): boolean => {
+    if (filter.batchDenom) return batchDenom === filter.batchDenom;
+
+    const classId = batchDenom.split("-")[0];
+    if (filter.classIds && !filter.classIds.includes(classId)) return false;
+    if (filter.projectId && !batchDenom.startsWith(`${filter.projectId}-`)) return false;
+    if (filter.creditType || filter.creditTypeAbbrev) {
+      const abbrev = classTypeMap.get(classId);
+      if (!abbrev) return false;
+      if (filter.creditTypeAbbrev && abbrev !== filter.creditTypeAbbrev) return false;
+      if (filter.creditType === "carbon" && abbrev !== "C") return false;
+      if (filter.creditType === "biodiversity" && abbrev === "C") return false;
+    }
+    return true;
+  };
+
+  const blocked: BlockedBatch[] = [];
+  const eligible = balances.filter((b) => {
+    if ((parseFloat(b.tradable_amount) || 0) <= 0 || !matchesFilter(b.batch_denom)) return false;
+    const reason = filter.batchReason?.(b.batch_denom);
+    if (reason) blocked.push({ batchDenom: b.batch_denom, reason });
+    return !reason;
+  });
+
+  eligible.sort(
+    (a, b) =>
+      vintageStart(a.batch_denom).localeCompare(vintageStart(b.batch_denom)) ||
+      a.batch_denom.localeCompare(b.batch_denom)
+  );
+
+  let remaining = quantity;
+  let available = 0;
+  const credits: WalletCreditSelection["credits"] = [];
+  for (const balance of eligible) {
+    const tradable = parseFloat(balance.tradable_amount);
+    available += tradable;
+    if (remaining <= 0) continue;
+
+    const take = Math.min(remaining, tradable);
+    credits.push({ batchDenom: balance.batch_denom, amount: take.toFixed(6) });
+    remaining -= take;
+  }
+
+  return {
+    credits,
+    totalQuantity: (quantity - Math.max(remaining, 0)).toFixed(6),
+    availableQuantity: available.toFixed(6),
+    insufficientBalance: remaining > 0.000001,
+    blocked,
+  };
+}
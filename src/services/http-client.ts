@@ -0,0 +1,293 @@
+/**
+ * Shared HTTP client for the external APIs (Regen Ledger LCD, indexer,
+ * ecoBridge, REGEN price feed).
+ *
+ * Each named client owns an ordered list of endpoints (base URLs) and adds:
+ * - a per-attempt timeout (covers the response body too)
+ * - retries with full-jitter exponential backoff on network errors,
+ *   timeouts, 429 and 5xx responses (other 4xx fail immediately)
+ * - failover: each retry moves to the next endpoint whose circuit is closed
+ * - a per-endpoint circuit breaker: after `circuitThreshold` consecutive
+ *   failures the endpoint is skipped for `circuitCooldownMs`, then allowed
+ *   one trial request (half-open) that closes or re-opens it
+ * - per-endpoint health stats for the `diagnostics` command
+ *
+ * Clients are shared per name for the life of the process, so the stats and
+ * breaker state reflect every caller.
+ */
+
+import { loadConfig } from "../config.js";
+
+export interface HttpClientOptions {
+  /** Registry name, e.g. "lcd" */
+  name: string;
+  /** Prefix for error messages, e.g. "Regen Ledger API" */
+  label: string;
+  /** Base URLs in order of preference */
+  endpoints: string[];
+  timeoutMs?: number;
+  /** Extra attempts after the first */
+  retries?: number;
+  /** Base backoff delay; attempt n waits a random 0..base·2ⁿ ms */
+  backoffMs?: number;
+  circuitThreshold?: number;
+  circuitCooldownMs?: number;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface EndpointHealth {
+  endpoint: string;
+  state: CircuitState;
+  requests: number;
+  successes: number;
+  failures: number;
+  timeouts: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+/** Error for a failed request; `status` is set when the server answered. */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly endpoint: string,
+    readonly status?: number,
+    readonly retryable = true
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+interface EndpointState {
+  url: string;
+  requests: number;
+  successes: number;
+  failures: number;
+  timeouts: number;
+  consecutiveFailures: number;
+  totalLatencyMs: number;
+  openUntil: number;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+}
+
+const MAX_BACKOFF_MS = 5_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class HttpClient {
+  readonly name: string;
+  readonly label: string;
+  private readonly endpoints: EndpointState[];
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly backoffMs: number;
+  private readonly circuitThreshold: number;
+  private readonly circuitCooldownMs: number;
+
+  constructor(options: HttpClientOptions) {
+    if (options.endpoints.length === 0) {
+      throw new Error(`HTTP client "${options.name}" needs at least one endpoint`);
+    }
+    this.name = options.name;
+    this.label = options.label;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.retries = options.retries ?? 2;
+    this.backoffMs = options.backoffMs ?? 200;
+    this.circuitThreshold = options.circuitThreshold ?? 5;
+    this.circuitCooldownMs = options.circuitCooldownMs ?? 30_000;
+    this.endpoints = options.endpoints.map((url) => ({
+      url: url.replace(/\/+$/, ""),
+      requests: 0,
+      successes: 0,
+      failures: 0,
+      timeouts: 0,
+      consecutiveFailures: 0,
+      totalLatencyMs: 0,
+      openUntil: 0,
+      lastSuccessAt: null,
+      lastError: null,
+      lastErrorAt: null,
+    }));
+  }
+
+  /**
+   * Request `path` (appended to the endpoint base URL) and parse the JSON
+   * body, retrying and failing over as configured. Pass `retry: false` for
+   * requests that must not be repeated.
+   */
+  async requestJSON<T>(path: string, init: RequestInit & { retry?: boolean } = {}): Promise<T> {
+    const { retry = true, ...fetchInit } = init;
+    const attempts = retry ? this.retries + 1 : 1;
+    let lastError: HttpError | undefined;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await sleep(Math.random() * Math.min(this.backoffMs * 2 ** (attempt - 1), MAX_BACKOFF_MS));
+      }
+      const endpoint = this.pickEndpoint(attempt);
+      try {
+        return await this.attempt<T>(endpoint, path, fetchInit);
+      } catch (err) {
+        lastError = err as HttpError;
+        if (!lastError.retryable) break;
+      }
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Send one request to every endpoint, ignoring circuit state (for diagnostics).
+   * `status` is the HTTP status of a failed request the server answered.
+   */
+  async probe(
+    path: string,
+    init: RequestInit = {}
+  ): Promise<Array<{ endpoint: string; ok: boolean; latencyMs: number; status?: number; error?: string }>> {
+    const results = [];
+    for (const endpoint of this.endpoints) {
+      const started = Date.now();
+      try {
+        await this.attempt(endpoint, path, init);
+        results.push({ endpoint: endpoint.url, ok: true, latencyMs: Date.now() - started });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        const status = err instanceof HttpError ? err.status : undefined;
+        results.push({ endpoint: endpoint.url, ok: false, latencyMs: Date.now() - started, status, error: msg });
+      }
+    }
+    return results;
+  }
+
+  health(): EndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map((e) => ({
+      endpoint: e.url,
+      state: this.circuitState(e, now),
+      requests: e.requests,
+      successes: e.successes,
+      failures: e.failures,
+      timeouts: e.timeouts,
+      consecutiveFailures: e.consecutiveFailures,
+      avgLatencyMs: e.successes > 0 ? Math.round(e.totalLatencyMs / e.successes) : null,
+      lastSuccessAt: e.lastSuccessAt ? new Date(e.lastSuccessAt).toISOString() : null,
+      lastError: e.lastError,
+      lastErrorAt: e.lastErrorAt ? new Date(e.lastErrorAt).toISOString() : null,
+    }));
+  }
+
+  private circuitState(endpoint: EndpointState, now: number): CircuitState {
+    if (endpoint.consecutiveFailures < this.circuitThreshold) return "closed";
+    return now < endpoint.openUntil ? "open" : "half_open";
+  }
+
+  /**
+   * The endpoint for attempt n: the n-th endpoint whose circuit allows
+   * traffic, wrapping around. When every circuit is open, the one that
+   * re-opens soonest is tried anyway rather than failing without a request.
+   */
+  private pickEndpoint(attempt: number): EndpointState {
+    const now = Date.now();
+    const available = this.endpoints.filter((e) => this.circuitState(e, now) !== "open");
+    if (available.length > 0) return available[attempt % available.length];
+    return this.endpoints.reduce((a, b) => (b.openUntil < a.openUntil ? b : a));
+  }
+
+  private async attempt<T>(endpoint: EndpointState, path: string, init: RequestInit): Promise<T> {
+    const started = Date.now();
+    endpoint.requests++;
+    try {
+      const response = await fetch(`${endpoint.url}${path}`, {
+        ...init,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) {
+        // Only throttling and server errors are worth another try
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new HttpError(
+          `${this.label} error: ${response.status} ${response.statusText}`,
+          endpoint.url,
+          response.status,
+          retryable
+        );
+      }
+      const body = (await response.json()) as T;
+      this.recordSuccess(endpoint, Date.now() - started);
+      return body;
+    } catch (err) {
+      const error = this.toHttpError(err, endpoint);
+      // A 4xx is the caller's problem, not the endpoint's: keep the circuit closed
+      if (error.retryable) this.recordFailure(endpoint, error);
+      else this.recordSuccess(endpoint, Date.now() - started);
+      throw error;
+    }
+  }
+
+  private toHttpError(err: unknown, endpoint: EndpointState): HttpError {
+    if (err instanceof HttpError) return err;
+    if (err instanceof Error && (err.name === "TimeoutError" || err.name === "AbortError")) {
+      endpoint.timeouts++;
+      return new HttpError(`${this.label} timed out after ${this.timeoutMs}ms (${endpoint.url})`, endpoint.url);
+    }
+    const msg = err instanceof Error ? err.message : String(err);
+    return new HttpError(`${this.label} request failed: ${msg} (${endpoint.url})`, endpoint.url);
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.successes++;
+    endpoint.totalLatencyMs += latencyMs;
+    endpoint.consecutiveFailures = 0;
+    endpoint.openUntil = 0;
+    endpoint.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(endpoint: EndpointState, error: HttpError): void {
+    const now = Date.now();
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error.message;
+    endpoint.lastErrorAt = now;
+    if (endpoint.consecutiveFailures >= this.circuitThreshold) {
+      endpoint.openUntil = now + this.circuitCooldownMs;
+    }
+  }
+}
+
+// --- Shared clients ---
+
+const clients = new Map<string, HttpClient>();
+
+/**
+ * The process-wide client for `name`, created on first use with the
+ * timeout, retry, and circuit settings from config.
+ */
+export function getHttpClient(name: string, label: string, endpoints: string[]): HttpClient {
+  let client = clients.get(name);
+  if (!client) {
+    const config = loadConfig();
+    client = new HttpClient({
+      name,
+      label,
+      endpoints,
+      timeoutMs: config.httpTimeoutMs,
+      retries: config.httpRetries,
+      circuitThreshold: config.httpCircuitThreshold,
+      circuitCooldownMs: config.httpCircuitCooldownMs,
+    });
+    clients.set(name, client);
+  }
+  return client;
+}
+
+export function listHttpClients(): HttpClient[] {
+  return [...clients.values()];
+}
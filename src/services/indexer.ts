@@ -7,32 +7,29 @@
  * Schema discovered via introspection on 2026-02-18.
  */
 
-const REGEN_INDEXER_URL =
-  process.env.REGEN_INDEXER_URL ||
-  "https://api.regen.network/indexer/v1/graphql";
+import { loadConfig } from "../config.js";
+import { getHttpClient, type HttpClient } from "./http-client.js";
+import { cached } from "./cache.js";
 
 interface GraphQLResponse<T> {
   data: T;
   errors?: Array<{ message: string }>;
 }
 
+/** Shared client over the REGEN_INDEXER_URL endpoints (each is a full GraphQL URL) */
+export function indexerClient(): HttpClient {
+  return getHttpClient("indexer", "Indexer GraphQL", loadConfig().indexerUrls);
+}
+
 async function queryGraphQL<T>(
   query: string,
   variables?: Record<string, unknown>
 ): Promise<T> {
-  const response = await fetch(REGEN_INDEXER_URL, {
+  const result = await indexerClient().requestJSON<GraphQLResponse<T>>("", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ query, variables }),
   });
-
-  if (!response.ok) {
-    throw new Error(
-      `Indexer GraphQL error: ${response.status} ${response.statusText}`
-    );
-  }
-
-  const result = (await response.json()) as GraphQLResponse<T>;
   if (result.errors?.length) {
     throw new Error(
       `GraphQL error: ${result.errors.map((e) => e.message).join(", ")}`
@@ -58,8 +55,18 @@ export interface Retirement {
   chainNum: number;
 }
 
+/**
+ * Look up a retirement by node ID or tx hash. Found retirements are cached
+ * (they never change); misses are not, so waitForRetirement keeps polling.
+ */
 export async function getRetirementById(
   id: string
+): Promise<Retirement | null> {
+  return cached("retirement", id.startsWith("Wy") ? id : id.toLowerCase(), () => fetchRetirementById(id), (r) => r !== null);
+}
+
+async function fetchRetirementById(
+  id: string
 ): Promise<Retirement | null> {
   // If it looks like a base64 nodeId, look up directly
   if (id.startsWith("Wy")) {
@@ -105,6 +112,12 @@ export async function getRetirementById(
 
 export async function getRecentRetirements(
   count: number = 5
+): Promise<Retirement[]> {
+  return cached("recent_retirements", String(count), () => fetchRecentRetirements(count));
+}
+
+async function fetchRecentRetirements(
+  count: number
 ): Promise<Retirement[]> {
   const query = `
     query RecentRetirements($count: Int!) {
@@ -137,6 +150,10 @@ export interface RetirementStats {
 }
 
 export async function getRetirementStats(): Promise<RetirementStats> {
+  return cached("retirement_stats", "all", fetchRetirementStats);
+}
+
+async function fetchRetirementStats(): Promise<RetirementStats> {
   const query = `
     query RetirementStats {
       allRetirements(first: 0) {
@@ -174,6 +191,12 @@ export interface MarketplaceOrder {
 
 export async function getRecentOrders(
   count: number = 10
+): Promise<MarketplaceOrder[]> {
+  return cached("recent_orders", String(count), () => fetchRecentOrders(count));
+}
+
+async function fetchRecentOrders(
+  count: number
 ): Promise<MarketplaceOrder[]> {
   const query = `
     query RecentOrders($count: Int!) {
@@ -237,6 +260,10 @@ export async function getNetworkStats(): Promise<NetworkStats> {
 }
 
 export async function getOrderStats(): Promise<{ totalOrders: number }> {
+  return cached("order_stats", "all", fetchOrderStats);
+}
+
+async function fetchOrderStats(): Promise<{ totalOrders: number }> {
   const query = `
     query OrderStats {
       allOrders(first: 0) {
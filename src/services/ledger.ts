@@ -1,12 +1,19 @@
 /**
  * Regen Ledger REST API client
  *
- * Queries credit classes, projects, batches, and sell orders
- * from the Regen Network blockchain.
+ * Queries credit types, credit classes, projects, batches, batch supply,
+ * sell orders, ecocredit balances, and baskets from the Regen Network
+ * blockchain.
+ *
+ * List endpoints are paginated by the LCD. The `iterate*` functions follow
+ * `pagination.next_key` and yield items page by page, for streaming large
+ * result sets; the `list*` functions collect every page into an array and
+ * are served through the shared data cache (see cache.ts).
  */
 
-const REGEN_LCD_URL =
-  process.env.REGEN_LCD_URL || "https://lcd-regen.keplr.app";
+import { loadConfig } from "../config.js";
+import { getHttpClient, HttpError, type HttpClient } from "./http-client.js";
+import { cached } from "./cache.js";
 
 export interface CreditClass {
   id: string;
@@ -15,6 +22,14 @@ export interface CreditClass {
   credit_type_abbrev: string;
 }
 
+/** A credit type; `precision` is the number of decimal places its credits divide into */
+export interface CreditType {
+  abbreviation: string;
+  name: string;
+  unit: string;
+  precision: number;
+}
+
 export interface Project {
   id: string;
   class_id: string;
@@ -33,6 +48,23 @@ export interface CreditBatch {
   metadata: string;
 }
 
+/** Credits of a batch by state; amounts are decimal strings */
+export interface BatchSupply {
+  batch_denom: string;
+  tradable_amount: string;
+  retired_amount: string;
+  cancelled_amount: string;
+}
+
+/** Ecocredits of one batch held by an address; amounts are decimal strings */
+export interface BatchBalance {
+  address: string;
+  batch_denom: string;
+  tradable_amount: string;
+  retired_amount: string;
+  escrowed_amount: string;
+}
+
 export interface SellOrder {
   id: string;
   seller: string;
@@ -44,55 +76,227 @@ export interface SellOrder {
   expiration: string | null;
 }
 
+/** Basket eligibility by batch start date; at most one field is set */
+export interface BasketDateCriteria {
+  /** RFC 3339 timestamp */
+  min_start_date?: string | null;
+  /** Duration before the current block time, e.g. "315576000s" */
+  start_date_window?: string | null;
+  /** Start of the calendar year this many years before the current one */
+  years_in_the_past?: number | null;
+}
+
+export interface Basket {
+  basket_denom: string;
+  name: string;
+  credit_type_abbrev: string;
+  disable_auto_retire: boolean;
+  /** Basket token units per credit are 10^exponent */
+  exponent: number;
+  curator: string;
+  date_criteria: BasketDateCriteria | null;
+}
+
+/** Credits of one batch deposited in a basket; balance is a decimal string */
+export interface BasketBalance {
+  batch_denom: string;
+  balance: string;
+  batch_start_date: string;
+}
+
 export interface AllowedDenom {
   bank_denom: string;
   display_denom: string;
   exponent: number;
 }
 
+/** Items requested per LCD page when no pageSize is given */
+export const DEFAULT_PAGE_SIZE = 100;
+
+export interface PageOptions {
+  /** Items per LCD request (pagination.limit) */
+  pageSize?: number;
+}
+
+interface PageResponse {
+  pagination?: { next_key?: string | null; total?: string } | null;
+}
+
+/** Shared LCD client over the REGEN_LCD_URL endpoints */
+export function ledgerClient(): HttpClient {
+  return getHttpClient("lcd", "Regen Ledger API", loadConfig().lcdUrls);
+}
+
 async function fetchJSON<T>(path: string): Promise<T> {
-  const response = await fetch(`${REGEN_LCD_URL}${path}`);
-  if (!response.ok) {
-    throw new Error(
-      `Regen Ledger API error: ${response.status} ${response.statusText}`
-    );
+  return ledgerClient().requestJSON<T>(path);
+}
+
+/**
+ * Yield every item of a paginated LCD list endpoint, following next_key
+ * until the last page. `field` is the response property holding the items.
+ */
+async function* paginate<T>(
+  path: string,
+  field: string,
+  options: PageOptions = {}
+): AsyncGenerator<T> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new Error(`pageSize must be a positive integer, got ${pageSize}`);
   }
-  return response.json() as Promise<T>;
+
+  const seenKeys = new Set<string>();
+  let key: string | undefined;
+  do {
+    const params = new URLSearchParams({ "pagination.limit": String(pageSize) });
+    if (key) params.set("pagination.key", key);
+
+    const data = await fetchJSON<PageResponse & Record<string, unknown>>(`${path}?${params}`);
+    const items = (data[field] as T[] | undefined) ?? [];
+    for (const item of items) yield item;
+
+    key = data.pagination?.next_key || undefined;
+    if (key) {
+      // A node that keeps returning the same key would otherwise loop forever
+      if (seenKeys.has(key)) {
+        throw new Error(`Regen Ledger API returned a repeated pagination key for ${path}`);
+      }
+      seenKeys.add(key);
+    }
+  } while (key);
 }
 
-export async function listCreditClasses(): Promise<CreditClass[]> {
-  const data = await fetchJSON<{ classes: CreditClass[] }>(
-    "/regen/ecocredit/v1/classes"
-  );
-  return data.classes;
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const all: T[] = [];
+  for await (const item of items) all.push(item);
+  return all;
 }
 
-export async function listProjects(classId?: string): Promise<Project[]> {
+export function iterateCreditClasses(options?: PageOptions): AsyncGenerator<CreditClass> {
+  return paginate<CreditClass>("/regen/ecocredit/v1/classes", "classes", options);
+}
+
+export function iterateProjects(classId?: string, options?: PageOptions): AsyncGenerator<Project> {
   const path = classId
     ? `/regen/ecocredit/v1/projects-by-class/${classId}`
     : "/regen/ecocredit/v1/projects";
-  const data = await fetchJSON<{ projects: Project[] }>(path);
-  return data.projects;
+  return paginate<Project>(path, "projects", options);
 }
 
-export async function listBatches(projectId?: string): Promise<CreditBatch[]> {
+export function iterateBatches(projectId?: string, options?: PageOptions): AsyncGenerator<CreditBatch> {
   const path = projectId
     ? `/regen/ecocredit/v1/batches-by-project/${projectId}`
     : "/regen/ecocredit/v1/batches";
-  const data = await fetchJSON<{ batches: CreditBatch[] }>(path);
-  return data.batches;
+  return paginate<CreditBatch>(path, "batches", options);
 }
 
-export async function listSellOrders(): Promise<SellOrder[]> {
-  const data = await fetchJSON<{ sell_orders: SellOrder[] }>(
-    "/regen/ecocredit/marketplace/v1/sell-orders"
+/** Every batch balance held by `address` (credits listed in sell orders are escrowed) */
+export function iterateBalances(address: string, options?: PageOptions): AsyncGenerator<BatchBalance> {
+  return paginate<BatchBalance>(`/regen/ecocredit/v1/balances/${address}`, "balances", options);
+}
+
+export function iterateSellOrders(options?: PageOptions): AsyncGenerator<SellOrder> {
+  return paginate<SellOrder>("/regen/ecocredit/marketplace/v1/sell-orders", "sell_orders", options);
+}
+
+export function iterateBaskets(options?: PageOptions): AsyncGenerator<Basket> {
+  return paginate<Basket>("/regen/ecocredit/basket/v1/baskets", "baskets", options);
+}
+
+export function iterateBasketBalances(basketDenom: string, options?: PageOptions): AsyncGenerator<BasketBalance> {
+  return paginate<BasketBalance>(
+    `/regen/ecocredit/basket/v1/basket-balances/${encodeURIComponent(basketDenom)}`,
+    "balances",
+    options
   );
-  return data.sell_orders;
 }
 
-export async function getAllowedDenoms(): Promise<AllowedDenom[]> {
-  const data = await fetchJSON<{ allowed_denoms: AllowedDenom[] }>(
-    "/regen/ecocredit/marketplace/v1/allowed-denoms"
+export async function listCreditClasses(options?: PageOptions): Promise<CreditClass[]> {
+  return cached("credit_classes", "all", () => collect(iterateCreditClasses(options)));
+}
+
+export async function listCreditTypes(): Promise<CreditType[]> {
+  return cached("credit_classes", "types", async () => {
+    const data = await fetchJSON<{ credit_types?: CreditType[] }>("/regen/ecocredit/v1/credit-types");
+    return (data.credit_types ?? []).map((t) => ({ ...t, precision: Number(t.precision) }));
+  });
+}
+
+export async function listProjects(classId?: string, options?: PageOptions): Promise<Project[]> {
+  return cached("projects", classId ?? "all", () => collect(iterateProjects(classId, options)));
+}
+
+export async function listBatches(projectId?: string, options?: PageOptions): Promise<CreditBatch[]> {
+  return cached("batches", projectId ?? "all", () => collect(iterateBatches(projectId, options)));
+}
+
+export async function listSellOrders(options?: PageOptions): Promise<SellOrder[]> {
+  return cached("sell_orders", "all", () => collect(iterateSellOrders(options)));
+}
+
+export async function listBalances(address: string, options?: PageOptions): Promise<BatchBalance[]> {
+  return cached("balances", address, () => collect(iterateBalances(address, options)));
+}
+
+export async function listBaskets(options?: PageOptions): Promise<Basket[]> {
+  return cached("baskets", "all", async () =>
+    (await collect(iterateBaskets(options))).map((b) => ({ ...b, exponent: Number(b.exponent) }))
   );
-  return data.allowed_denoms;
+}
+
+/** Batches deposited in a basket, oldest vintage first (the order a take draws from) */
+export async function listBasketBalances(basketDenom: string, options?: PageOptions): Promise<BasketBalance[]> {
+  return cached("basket_balances", basketDenom, async () => {
+    const balances = await collect(iterateBasketBalances(basketDenom, options));
+    return balances.sort((a, b) => a.batch_start_date.localeCompare(b.batch_start_date));
+  });
+}
+
+/** Credit class IDs a basket accepts deposits from */
+export async function getBasketClasses(basketDenom: string): Promise<string[]> {
+  return cached("baskets", `classes:${basketDenom}`, async () => {
+    const data = await fetchJSON<{ classes?: string[] }>(
+      `/regen/ecocredit/basket/v1/basket/${encodeURIComponent(basketDenom)}`
+    );
+    return data.classes ?? [];
+  });
+}
+
+/** Look up a single batch; null if the ledger does not know the denom. */
+export async function getBatch(batchDenom: string): Promise<CreditBatch | null> {
+  return cached("batches", `denom:${batchDenom}`, async () => {
+    try {
+      const data = await fetchJSON<{ batch: CreditBatch }>(
+        `/regen/ecocredit/v1/batches/${encodeURIComponent(batchDenom)}`
+      );
+      return data.batch;
+    } catch (err) {
+      if (err instanceof HttpError && err.status === 404) return null;
+      throw err;
+    }
+  }, (batch) => batch !== null);
+}
+
+/** Tradable, retired, and cancelled totals of a batch. */
+export async function getBatchSupply(batchDenom: string): Promise<BatchSupply> {
+  return cached("batch_supply", batchDenom, async () => {
+    const data = await fetchJSON<Omit<BatchSupply, "batch_denom">>(
+      `/regen/ecocredit/v1/batches/${encodeURIComponent(batchDenom)}/supply`
+    );
+    return {
+      batch_denom: batchDenom,
+      tradable_amount: data.tradable_amount,
+      retired_amount: data.retired_amount,
+      cancelled_amount: data.cancelled_amount,
+    };
+  });
+}
+
+export async function getAllowedDenoms(): Promise<AllowedDenom[]> {
+  return cached("allowed_denoms", "all", async () => {
+    const data = await fetchJSON<{ allowed_denoms: AllowedDenom[] }>(
+      "/regen/ecocredit/marketplace/v1/allowed-denoms"
+    );
+    return data.allowed_denoms;
+  });
 }
@@ -0,0 +1,136 @@
+/**
+ * Live-market cost of covering a footprint.
+ *
+ * Quotes what it would actually cost, right now, to retire enough credits
+ * to cover an estimate, using the same cross-denom routing as retirements
+ * (selectAcrossDenoms). Carbon, biodiversity, and USS options are quoted
+ * side by side, every one at the same price oracle rates (see
+ * price-oracle.ts); asks in denoms the oracle can't price are skipped.
+ *
+ * When the ledger or the price feed is unreachable, each option falls back
+ * to the methodology's fixed per-credit price and is labelled as such.
+ */
+
+import { selectAcrossDenoms } from "./order-selector.js";
+import { getAllowedDenoms } from "./ledger.js";
+import { getPriceOracle, getUsdRates, type DenomRate, type PriceOracle } from "./price-oracle.js";
+import { getMethodology } from "./methodology.js";
+
+export type MarketCreditType = "carbon" | "biodiversity" | "uss";
+
+/** Credit type abbreviation filters for order-selector (same split as the pool) */
+const CREDIT_ABBREVS: Record<MarketCreditType, string[]> = {
+  carbon: ["C"],
+  biodiversity: ["BT"],
+  uss: ["MBS", "USS", "KSH"],
+};
+
+// Average price per biodiversity credit (USD), used when the market is unreachable
+const USD_PER_BIO_CREDIT = 26;
+
+export interface MarketCostOption {
+  credit_type: MarketCreditType;
+  quantity: number;
+  cost_usd: number | null;
+  usd_per_credit: number | null;
+  /** Display denom the cheapest orders are priced in, e.g. "REGEN" or "USDC" */
+  payment_denom: string | null;
+  orders: number;
+  insufficient_supply: boolean;
+  source: "market" | "fallback";
+  note?: string;
+}
+
+export interface MarketCostQuote {
+  quoted_at: string;
+  regen_usd_price: number | null;
+  options: MarketCostOption[];
+}
+
+function fallbackOption(creditType: MarketCreditType, quantity: number, methodologyId: string | undefined, note: string): MarketCostOption {
+  const price = creditType === "carbon"
+    ? getMethodology(methodologyId).constants.usd_per_tonne_co2
+    : creditType === "biodiversity"
+      ? USD_PER_BIO_CREDIT
+      : null;
+  return {
+    credit_type: creditType,
+    quantity,
+    cost_usd: price === null ? null : Math.round(quantity * price * 100) / 100,
+    usd_per_credit: price,
+    payment_denom: null,
+    orders: 0,
+    insufficient_supply: false,
+    source: "fallback",
+    note,
+  };
+}
+
+async function quoteCreditType(
+  creditType: MarketCreditType,
+  quantity: number,
+  oracle: PriceOracle
+): Promise<MarketCostOption | null> {
+  const selection = await selectAcrossDenoms(undefined, quantity, CREDIT_ABBREVS[creditType], undefined, { oracle });
+  if (selection.orders.length === 0 || selection.costUsd === undefined) return null;
+
+  const costUsd = selection.costUsd;
+  const filled = parseFloat(selection.totalQuantity);
+  return {
+    credit_type: creditType,
+    quantity,
+    cost_usd: Math.round(costUsd * 100) / 100,
+    usd_per_credit: filled > 0 ? Math.round((costUsd / filled) * 100) / 100 : null,
+    payment_denom: selection.displayDenom,
+    orders: selection.orders.length,
+    insufficient_supply: selection.insufficientSupply,
+    source: "market",
+    ...(selection.insufficientSupply
+      ? { note: `Only ${selection.totalQuantity} credits currently listed` }
+      : {}),
+  };
+}
+
+/**
+ * Quote the live cost of retiring `quantity` credits of each type.
+ * Never throws: unreachable data sources produce fallback-priced options.
+ */
+export async function quoteMarketCost(quantity: number, methodologyId?: string): Promise<MarketCostQuote> {
+  const quotedAt = new Date().toISOString();
+  const types = Object.keys(CREDIT_ABBREVS) as MarketCreditType[];
+
+  const source = getPriceOracle();
+  let rates: DenomRate[];
+  try {
+    rates = await getUsdRates(await getAllowedDenoms(), source);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      quoted_at: quotedAt,
+      regen_usd_price: null,
+      options: types.map((t) => fallbackOption(t, quantity, methodologyId, `Market unreachable (${msg})`)),
+    };
+  }
+
+  // Quote every credit type at the rates fetched once above
+  const oracle: PriceOracle = {
+    name: source.name,
+    usdPrice: async (denom) => rates.find((r) => r.bankDenom === denom.bank_denom)?.usdPerUnit ?? null,
+  };
+  const regenUsd = rates.find((r) => r.displayDenom.toUpperCase() === "REGEN")?.usdPerUnit ?? null;
+
+  const options: MarketCostOption[] = [];
+  for (const creditType of types) {
+    try {
+      const option = await quoteCreditType(creditType, quantity, oracle);
+      options.push(
+        option ?? fallbackOption(creditType, quantity, methodologyId, "No sell orders priced in a denom with a USD rate")
+      );
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      options.push(fallbackOption(creditType, quantity, methodologyId, `Market unreachable (${msg})`));
+    }
+  }
+
+  return { quoted_at: quotedAt, regen_usd_price: regenUsd, options };
+}
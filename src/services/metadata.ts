@@ -0,0 +1,200 @@
+/**
+ * Metadata IRI resolver for credit classes and projects.
+ *
+ * On-chain classes, projects, and batches only carry a metadata IRI
+ * (e.g. "regen:13toVgf5...rdf"). The JSON-LD document behind it holds the
+ * human-readable details: name, location, methodology, co-benefits, images.
+ *
+ * Resolution order:
+ *   1. Regen metadata graph (REGEN_METADATA_API_URL)/{iri}
+ *   2. Ledger data module: the resolvers registered for the IRI
+ *      (/regen/data/v2/resolvers-by-iri/{iri}), fetched as {resolver}/{iri}
+ *
+ * Documents are content-addressed, so resolved metadata is cached for a long
+ * time. Resolution never throws — callers fall back to on-chain fields.
+ */
+
+import { loadConfig } from "../config.js";
+import { cached } from "./cache.js";
+import { getHttpClient, type HttpClient } from "./http-client.js";
+import { ledgerClient, listCreditClasses, listProjects } from "./ledger.js";
+
+export interface ResolvedMetadata {
+  iri: string;
+  name: string | null;
+  description: string | null;
+  location: string | null;
+  methodology: string | null;
+  coBenefits: string[];
+  images: string[];
+}
+
+export interface ProjectDetails {
+  id: string;
+  classId: string;
+  jurisdiction: string;
+  metadata: ResolvedMetadata | null;
+}
+
+export interface ClassDetails {
+  id: string;
+  creditTypeAbbrev: string;
+  metadata: ResolvedMetadata | null;
+}
+
+type JsonLd = Record<string, unknown>;
+
+/** Shared client for the metadata graph API */
+export function metadataClient(): HttpClient {
+  return getHttpClient("metadata", "Regen metadata graph", [loadConfig().metadataApiUrl]);
+}
+
+// --- JSON-LD field extraction ---
+
+/** Read the first present key, accepting both prefixed and bare forms ("schema:name" / "name") */
+function pick(doc: JsonLd, ...keys: string[]): unknown {
+  for (const key of keys) {
+    if (doc[key] !== undefined && doc[key] !== null) return doc[key];
+  }
+  return undefined;
+}
+
+/** Unwrap JSON-LD values ({"@value": ...}, {"@id": ...}, language maps) into plain text */
+function text(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const t = text(item);
+      if (t) return t;
+    }
+    return null;
+  }
+  if (typeof value === "object") {
+    const obj = value as JsonLd;
+    return text(pick(obj, "@value", "schema:name", "name", "place_name", "schema:url", "@id"));
+  }
+  return null;
+}
+
+function texts(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return items.map(text).filter((t): t is string => t !== null);
+}
+
+function locationOf(doc: JsonLd): string | null {
+  const location = pick(doc, "schema:location", "location", "regen:projectLocation");
+  if (location && typeof location === "object" && !Array.isArray(location)) {
+    // GeoJSON features from the Regen app carry a place_name (Mapbox geocoding)
+    const feature = location as JsonLd;
+    return text(pick(feature, "place_name", "schema:name", "name", "@value"));
+  }
+  return text(location) ?? text(pick(doc, "regen:region", "schema:addressRegion"));
+}
+
+function imagesOf(doc: JsonLd): string[] {
+  const images = [
+    ...texts(pick(doc, "regen:previewPhoto")),
+    ...texts(pick(doc, "schema:image", "image")),
+    ...texts(pick(doc, "regen:galleryPhotos")),
+  ];
+  return [...new Set(images)].filter((url) => /^https?:\/\//.test(url));
+}
+
+/** Extract the typed fields we display from a resolved JSON-LD document. */
+export function parseMetadata(iri: string, doc: unknown): ResolvedMetadata {
+  const root = (Array.isArray(doc) ? doc[0] : doc) as JsonLd | undefined;
+  // Graph responses may wrap the node in @graph
+  const node: JsonLd =
+    root && Array.isArray(root["@graph"]) ? (root["@graph"][0] as JsonLd) : root ?? {};
+
+  return {
+    iri,
+    name: text(pick(node, "schema:name", "name", "regen:name")),
+    description: text(pick(node, "schema:description", "description", "regen:description")),
+    location: locationOf(node),
+    methodology: text(
+      pick(node, "regen:approvedMethodologies", "regen:offsetGenerationMethod", "regen:methodology")
+    ),
+    coBenefits: texts(pick(node, "regen:coBenefits", "coBenefits")),
+    images: imagesOf(node),
+  };
+}
+
+// --- Resolution ---
+
+async function fetchFromGraph(iri: string): Promise<unknown> {
+  // The data module is the fallback, so don't spend retries here
+  return metadataClient().requestJSON(`/${encodeURIComponent(iri)}`, { retry: false });
+}
+
+async function fetchFromDataModule(iri: string): Promise<unknown> {
+  const data = await ledgerClient().requestJSON<{ resolvers?: { url: string }[] }>(
+    `/regen/data/v2/resolvers-by-iri/${encodeURIComponent(iri)}`
+  );
+  const resolver = data.resolvers?.[0];
+  if (!resolver) throw new Error(`No resolver registered for ${iri}`);
+
+  const res = await fetch(`${resolver.url.replace(/\/$/, "")}/${encodeURIComponent(iri)}`, {
+    headers: { Accept: "application/ld+json, application/json" },
+    signal: AbortSignal.timeout(loadConfig().httpTimeoutMs),
+  });
+  if (!res.ok) throw new Error(`Resolver ${resolver.url} error: ${res.status} ${res.statusText}`);
+  return res.json();
+}
+
+async function loadMetadata(iri: string): Promise<ResolvedMetadata | null> {
+  for (const source of [fetchFromGraph, fetchFromDataModule]) {
+    try {
+      return parseMetadata(iri, await source(iri));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`[metadata] ${source.name} failed for ${iri}: ${msg}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve a metadata IRI into readable fields. Returns null when the IRI is
+ * empty or no source could resolve it; failures are not cached.
+ */
+export async function resolveMetadata(iri: string | null | undefined): Promise<ResolvedMetadata | null> {
+  if (!iri) return null;
+  try {
+    return await cached("metadata", iri, () => loadMetadata(iri), (m) => m !== null);
+  } catch {
+    return null;
+  }
+}
+
+/** "C01-001-20150101-20151231-001" → "C01-001" */
+export function projectIdFromBatchDenom(batchDenom: string): string {
+  return batchDenom.split("-").slice(0, 2).join("-");
+}
+
+/** On-chain project fields plus resolved metadata, or null for an unknown project. */
+export async function getProjectDetails(projectId: string): Promise<ProjectDetails | null> {
+  const projects = await listProjects();
+  const project = projects.find((p) => p.id === projectId);
+  if (!project) return null;
+  return {
+    id: project.id,
+    classId: project.class_id,
+    jurisdiction: project.jurisdiction,
+    metadata: await resolveMetadata(project.metadata),
+  };
+}
+
+/** On-chain class fields plus resolved metadata, or null for an unknown class. */
+export async function getClassDetails(classId: string): Promise<ClassDetails | null> {
+  const classes = await listCreditClasses();
+  const cls = classes.find((c) => c.id === classId);
+  if (!cls) return null;
+  return {
+    id: cls.id,
+    creditTypeAbbrev: cls.credit_type_abbrev,
+    metadata: await resolveMetadata(cls.metadata),
+  };
+}
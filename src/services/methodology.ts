@@ -0,0 +1,134 @@
+/**
+ * Versioned footprint methodology registry.
+ *
+ * A methodology is a named, immutable record of every constant the estimator
+ * uses, the sources behind them, and the dates it was the default. Every
+ * FootprintEstimate records the methodology ID it was computed with, and
+ * callers can pin an older methodology to reproduce earlier estimates.
+ *
+ * Never edit a published methodology. To change a constant, add a new record
+ * with a new ID, set valid_until on the previous one, and point
+ * CURRENT_METHODOLOGY_ID at the new record. The token energy table, grid
+ * dataset and uncertainty ranges are referenced by version: the estimator
+ * looks up the frozen copy each methodology names, so a methodology's
+ * versions are literals here, never the current-version constants.
+ */
+
+export interface MethodologyConstants {
+  /** Estimated LLM queries per minute of active session (duration basis) */
+  queries_per_minute: number;
+  /** Energy per query in kWh, including PUE overhead (duration basis) */
+  kwh_per_query: number;
+  /** PUE assumed inside kwh_per_query and the token energy table */
+  pue: number;
+  /** Grid factor used when no regional dataset applies, kg CO2/kWh */
+  default_kg_co2_per_kwh: number;
+  /** Token energy table version; null means token usage is not supported */
+  energy_table_version: string | null;
+  /** Regional grid dataset version; null means the default factor is always used */
+  grid_dataset_version: string | null;
+  /** Uncertainty ranges version (footprint-uncertainty.ts) */
+  uncertainty_version: string;
+  /** Average price per tonne CO2 for Regen carbon credits, USD */
+  usd_per_tonne_co2: number;
+  /** On-site data centre water, litres per kWh */
+  wue_l_per_kwh: number;
+  /** Off-site electricity-generation water, litres per kWh */
+  ewif_l_per_kwh: number;
+  /** Embodied hardware emissions amortised per kWh, kg CO2e */
+  embodied_kg_co2_per_kwh: number;
+}
+
+export interface FootprintMethodology {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  /** First date (YYYY-MM-DD) this methodology was the default */
+  valid_from: string;
+  /** Date it was superseded, or null while current */
+  valid_until: string | null;
+  constants: MethodologyConstants;
+  sources: string[];
+}
+
+const METHODOLOGIES: FootprintMethodology[] = [
+  {
+    id: "regen-footprint-v1",
+    name: "Session duration heuristic",
+    version: "1.0",
+    description:
+      "Original estimator: queries inferred from session minutes (tool calls as a floor), " +
+      "a fixed energy per query, and the global average grid factor for every region.",
+    valid_from: "2025-01-01",
+    valid_until: "2026-10-19",
+    constants: {
+      queries_per_minute: 1.5,
+      kwh_per_query: 0.01,
+      pue: 1.2,
+      default_kg_co2_per_kwh: 0.4,
+      energy_table_version: null,
+      grid_dataset_version: null,
+      uncertainty_version: "2026-03",
+      usd_per_tonne_co2: 40,
+      wue_l_per_kwh: 1.8,
+      ewif_l_per_kwh: 3.1,
+      embodied_kg_co2_per_kwh: 0.0251,
+    },
+    sources: [
+      "IEA: Data centres and AI are driving a surge in global electricity demand (2024)",
+      "Luccioni et al.: Power Hungry Processing (2023)",
+      "de Vries: The growing energy footprint of artificial intelligence (2023)",
+    ],
+  },
+  {
+    id: "regen-footprint-v2",
+    name: "Token-based with regional grids",
+    version: "2.0",
+    description:
+      "Energy from per-model-family token factors when token counts are supplied (duration heuristic otherwise), " +
+      "regional grid intensity for countries, subregions, and cloud regions, plus water and embodied hardware impacts.",
+    valid_from: "2026-10-19",
+    valid_until: null,
+    constants: {
+      queries_per_minute: 1.5,
+      kwh_per_query: 0.01,
+      pue: 1.2,
+      default_kg_co2_per_kwh: 0.4,
+      energy_table_version: "2026-03",
+      grid_dataset_version: "2026-03",
+      uncertainty_version: "2026-03",
+      usd_per_tonne_co2: 40,
+      wue_l_per_kwh: 1.8,
+      ewif_l_per_kwh: 3.1,
+      embodied_kg_co2_per_kwh: 0.0251,
+    },
+    sources: [
+      "IEA Electricity 2024",
+      "Luccioni et al.: Power Hungry Processing (2023)",
+      "Samsi et al.: From Words to Watts (2023)",
+      "Epoch AI: How much energy does ChatGPT use? (2025)",
+      "Ember Yearly Electricity Data (2023); US EPA eGRID2022",
+      "Shehabi et al.: United States Data Center Energy Usage Report, LBNL (2016)",
+      "Li et al.: Making AI Less 'Thirsty' (2023)",
+      "Luccioni et al.: Estimating the Carbon Footprint of BLOOM (2022)",
+    ],
+  },
+];
+
+export const CURRENT_METHODOLOGY_ID = "regen-footprint-v2";
+
+export function listMethodologies(): FootprintMethodology[] {
+  return [...METHODOLOGIES];
+}
+
+/** Look up a methodology by ID; defaults to the current one. Throws on unknown IDs. */
+export function getMethodology(id: string = CURRENT_METHODOLOGY_ID): FootprintMethodology {
+  const methodology = METHODOLOGIES.find((m) => m.id === id);
+  if (!methodology) {
+    throw new Error(
+      `Unknown footprint methodology "${id}". Available: ${METHODOLOGIES.map((m) => m.id).join(", ")}`
+    );
+  }
+  return methodology;
+}
@@ -0,0 +1,106 @@
+/**
+ * Per-model energy table for token-based footprint estimation.
+ *
+ * Energy is expressed in kWh per 1,000 tokens, split by token kind:
+ * - input: prompt tokens processed in the prefill pass
+ * - output: generated tokens (autoregressive decode, the dominant cost)
+ * - cached: prompt tokens served from a prompt cache (KV reuse)
+ *
+ * Values include data center PUE overhead (~1.2x) and are grouped by
+ * model family rather than by exact model, since providers do not publish
+ * per-model energy figures. Published tables are frozen in ENERGY_TABLES
+ * under their version: to change a value, add a new table under a new
+ * version and point ENERGY_TABLE_VERSION at it, so methodologies that name
+ * an older version keep reproducing their estimates.
+ *
+ * Sources:
+ * - Luccioni et al.: "Power Hungry Processing" (2023)
+ * - Samsi et al.: "From Words to Watts: Benchmarking the Energy Costs of LLM Inference" (2023)
+ * - Epoch AI: "How much energy does ChatGPT use?" (2025)
+ */
+
+export const ENERGY_TABLE_VERSION = "2026-03";
+
+export type ModelFamily = "small" | "medium" | "large" | "frontier";
+
+export interface ModelEnergyProfile {
+  family: ModelFamily;
+  description: string;
+  kwh_per_1k_input: number;
+  kwh_per_1k_output: number;
+  kwh_per_1k_cached: number;
+}
+
+export type ModelEnergyTable = Record<ModelFamily, ModelEnergyProfile>;
+
+/** Every published table, keyed by version. Never edit one in place. */
+const ENERGY_TABLES: Record<string, ModelEnergyTable> = {
+  "2026-03": {
+    small: {
+      family: "small",
+      description: "Small / distilled models (<15B active params): Haiku, GPT-4o mini, Gemini Flash, Llama 8B",
+      kwh_per_1k_input: 0.00005,
+      kwh_per_1k_output: 0.0003,
+      kwh_per_1k_cached: 0.000005,
+    },
+    medium: {
+      family: "medium",
+      description: "Mid-size open and hosted models (15-100B active params): Llama 70B, Mixtral, Mistral Medium",
+      kwh_per_1k_input: 0.0001,
+      kwh_per_1k_output: 0.001,
+      kwh_per_1k_cached: 0.00001,
+    },
+    large: {
+      family: "large",
+      description: "Large hosted models: Claude Sonnet, GPT-4o, Gemini Pro",
+      kwh_per_1k_input: 0.0003,
+      kwh_per_1k_output: 0.003,
+      kwh_per_1k_cached: 0.00003,
+    },
+    frontier: {
+      family: "frontier",
+      description: "Frontier and reasoning models: Claude Opus, GPT-4 / GPT-4.5, o1 / o3, Gemini Ultra",
+      kwh_per_1k_input: 0.0006,
+      kwh_per_1k_output: 0.006,
+      kwh_per_1k_cached: 0.00006,
+    },
+  },
+};
+
+/** Look up a table by version; defaults to the current one. Throws on unknown versions. */
+export function getEnergyTable(version: string = ENERGY_TABLE_VERSION): ModelEnergyTable {
+  const table = ENERGY_TABLES[version];
+  if (!table) {
+    throw new Error(
+      `Unknown model energy table version "${version}". Available: ${Object.keys(ENERGY_TABLES).join(", ")}`
+    );
+  }
+  return table;
+}
+
+/** The current table */
+export const MODEL_ENERGY_TABLE: ModelEnergyTable = getEnergyTable();
+
+/** Family used when a model name matches none of the patterns below */
+export const DEFAULT_MODEL_FAMILY: ModelFamily = "large";
+
+// Ordered: first match wins, so more specific patterns come first
+// (e.g. "gpt-4o-mini" must match small before "gpt-4o" matches large).
+const FAMILY_PATTERNS: Array<[RegExp, ModelFamily]> = [
+  [/haiku|[-_.]mini\b|nano|flash|lite|small|gemma|phi-|llama-?3(\.\d)?-?8b|\b[1-9]b\b/i, "small"],
+  [/opus|gpt-4\.5|gpt-4(?!o|\.1)|\bo1\b|\bo3\b|o1-|o3-|ultra|reasoner|\b405b\b/i, "frontier"],
+  [/70b|mixtral|mistral|llama|qwen|deepseek|command/i, "medium"],
+  [/sonnet|gpt-4o|gpt-4\.1|gpt-5|gemini|claude/i, "large"],
+];
+
+/** Map a model name (e.g. "claude-sonnet-4", "gpt-4o-mini") to its energy family. */
+export function resolveModelFamily(model: string): ModelFamily {
+  for (const [pattern, family] of FAMILY_PATTERNS) {
+    if (pattern.test(model)) return family;
+  }
+  return DEFAULT_MODEL_FAMILY;
+}
+
+export function getModelEnergyProfile(model: string, version: string = ENERGY_TABLE_VERSION): ModelEnergyProfile {
+  return getEnergyTable(version)[resolveModelFamily(model)];
+}
@@ -2,11 +2,47 @@
  * Best-price sell order routing.
  *
  * Finds the cheapest sell orders that match criteria and fills
- * greedily across multiple orders if needed.
+ * greedily across multiple orders if needed. Quantities and costs are
+ * exact (see decimal.ts): each order is filled to its credit type's
+ * precision and its cost is rounded up to the payment denom's base unit.
+ *
+ * selectBestOrders fills in one payment denom; selectAcrossDenoms compares
+ * the fills of every allowed denom in USD through the price oracle. Other
+ * fill orders and caps (newest vintage, preferred jurisdictions, project
+ * diversity, batch share) come from selection-strategy.ts, and every
+ * selected order says why it was chosen. Orders the procurement policy
+ * (procurement-policy.ts) blocks are never selected and are reported with
+ * the reason.
  */
 
-import { listSellOrders, listCreditClasses, listBatches, getAllowedDenoms } from "./ledger.js";
-import type { SellOrder, CreditClass, AllowedDenom } from "./ledger.js";
+import {
+  listSellOrders,
+  listCreditClasses,
+  listCreditTypes,
+  listBatches,
+  listProjects,
+  getAllowedDenoms,
+} from "./ledger.js";
+import type { SellOrder, CreditClass, CreditType, Project, AllowedDenom } from "./ledger.js";
+import {
+  DEFAULT_CREDIT_PRECISION,
+  parseUnits,
+  formatUnits,
+  unitsToNumber,
+  costOf,
+  affordableQuantity,
+  centsToTokenUnits,
+  tokenUnitsToCents,
+} from "./decimal.js";
+import { getUsdRates, usdRateFor, type DenomRate, type PriceOracle } from "./price-oracle.js";
+import {
+  compareCandidates,
+  explainTake,
+  type Candidate,
+  type FillState,
+  type SelectionStrategy,
+} from "./selection-strategy.js";
+import { getPolicyScreen } from "./procurement-policy.js";
 
 export interface OrderSelection {
   orders: SelectedOrder[];
@@ -16,6 +52,18 @@ export interface OrderSelection {
   displayDenom: string;
   exponent: number;
   insufficientSupply: boolean;
+  /** USD cost of the fill (selectAcrossDenoms only) */
+  costUsd?: number;
+  /** USD rates the cross-denom comparison used (selectAcrossDenoms only) */
+  rates?: DenomRate[];
+  /** Otherwise eligible orders (in any denom) the procurement policy excluded */
+  blocked?: BlockedOrder[];
+}
+
+export interface BlockedOrder {
+  sellOrderId: string;
+  batchDenom: string;
+  reason: string;
 }
 
 export interface SelectedOrder {
@@ -25,18 +73,140 @@ export interface SelectedOrder {
   askAmount: string;
   askDenom: string;
   costMicro: bigint;
+  /** Why the order was chosen, e.g. "newest vintage (starts 2023-01-01); ask 2 REGEN per credit" */
+  reason?: string;
+}
+
+export interface SelectionOptions {
+  /**
+   * Select orders whose credits can be bought without auto-retirement
+   * (disable_auto_retire), for treasury purchases kept as inventory.
+   */
+  tradable?: boolean;
+  /** Restrict to these project IDs (e.g. ["C01-001"]) */
+  projectIds?: string[];
+  /** Restrict to these batch denoms */
+  batchDenoms?: string[];
+  /** Earliest batch start date as YYYYMMDD (e.g. a basket's date criteria) */
+  minVintageStart?: string;
+  /**
+   * Stop filling once this much of the payment denom (base units) is spent;
+   * the selection may then cover less than the requested quantity.
+   */
+  budgetMicro?: bigint;
+  /** How to rank and cap the fill (see selection-strategy.ts); cheapest-first by default */
+  strategies?: SelectionStrategy[];
+}
+
+export interface CrossDenomOptions extends SelectionOptions {
+  /** Wallet balance of a bank denom; fills the wallet can't pay rank below those it can */
+  balanceOf?: (bankDenom: string) => Promise<bigint>;
+  /** Defaults to the installed oracle (see price-oracle.ts) */
+  oracle?: PriceOracle;
+  /**
+   * Stop filling once this many USD cents are spent, converted to each
+   * denom's base units at its rate; fills that buy more rank first.
+   */
+  budgetCents?: number;
+}
+
+/**
+ * What a user asked to retire, parsed from a single identifier: a credit
+ * type ("carbon", or an abbreviation like "C" / "BT"), a class ID ("C01"),
+ * a project ID ("C01-001"), or a batch denom ("C01-001-20150101-20151231-001").
+ */
+export interface CreditScope {
+  creditType?: string;
+  creditTypeAbbrev?: string;
+  classId?: string;
+  projectId?: string;
+  batchDenom?: string;
+}
+
+const BATCH_DENOM_RE = /^([A-Z]+\d+)-(\d+)-\d{8}-\d{8}-\d+$/;
+const PROJECT_ID_RE = /^[A-Z]+\d+-\d+$/;
+const CLASS_ID_RE = /^[A-Z]+\d+$/;
+const TYPE_ABBREV_RE = /^[A-Z]+$/;
+
+/** Returns null when the value is not a recognisable credit identifier */
+export function parseCreditScope(value: string): CreditScope | null {
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+  if (lower === "carbon" || lower === "biodiversity") return { creditType: lower };
+
+  const id = trimmed.toUpperCase();
+  const batch = id.match(BATCH_DENOM_RE);
+  if (batch) return { classId: batch[1], projectId: `${batch[1]}-${batch[2]}`, batchDenom: id };
+  if (PROJECT_ID_RE.test(id)) return { classId: id.split("-")[0], projectId: id };
+  if (CLASS_ID_RE.test(id)) return { classId: id };
+  if (TYPE_ABBREV_RE.test(id)) return { creditTypeAbbrev: id };
+  return null;
+}
+
+/** Most specific identifier in a scope, for messages */
+export function describeCreditScope(scope: CreditScope): string {
+  if (scope.batchDenom) return `batch ${scope.batchDenom}`;
+  if (scope.projectId) return `project ${scope.projectId}`;
+  if (scope.classId) return `credit class ${scope.classId}`;
+  if (scope.creditTypeAbbrev) return `credit type ${scope.creditTypeAbbrev}`;
+  return scope.creditType ? `${scope.creditType} credits` : "any credits";
+}
+
+/** Class IDs allowed by both a scope and an allow-list of classes */
+export function scopeClassIds(scope: CreditScope, allowedClasses?: string[]): string[] | undefined {
+  if (!scope.classId) return allowedClasses;
+  return !allowedClasses || allowedClasses.includes(scope.classId) ? [scope.classId] : [];
+}
+
+/** selectAcrossDenoms restricted to exactly the credits a scope names */
+export function selectOrdersForScope(
+  scope: CreditScope,
+  quantity: number,
+  allowedClasses?: string[],
+  options: Pick<CrossDenomOptions, "balanceOf" | "oracle" | "strategies"> = {}
+): Promise<OrderSelection> {
+  return selectAcrossDenoms(
+    scope.creditType,
+    quantity,
+    scope.creditTypeAbbrev ? [scope.creditTypeAbbrev] : undefined,
+    scopeClassIds(scope, allowedClasses),
+    {
+      ...options,
+      projectIds: scope.projectId ? [scope.projectId] : undefined,
+      batchDenoms: scope.batchDenom ? [scope.batchDenom] : undefined,
+    }
+  );
+}
+
+/** "C01-001-20150101-20151231-001" → "C01-001" */
+function projectIdOf(batchDenom: string): string {
+  return batchDenom.split("-").slice(0, 2).join("-");
+}
+
+function matchesScope(batchDenom: string, scope: CreditScope): boolean {
+  if (scope.batchDenom) return batchDenom === scope.batchDenom;
+  if (scope.projectId) return projectIdOf(batchDenom) === scope.projectId;
+  if (scope.classId) return batchDenom.split("-")[0] === scope.classId;
+  return true;
 }
 
 export async function selectBestOrders(
   creditType: string | undefined,
   quantity: number,
   preferredDenom?: string,
-  creditTypeAbbrevs?: string[]
+  creditTypeAbbrevs?: string[],
+  classIds?: string[],
+  options: SelectionOptions = {}
 ): Promise<OrderSelection> {
-  const [sellOrders, classes, allowedDenoms] = await Promise.all([
+  const strategies = options.strategies ?? [];
+  const [sellOrders, classes, creditTypes, allowedDenoms, projects, screen] = await Promise.all([
     listSellOrders(),
     listCreditClasses(),
+    // Precision is 6 for every credit type today; don't fail a purchase over it
+    listCreditTypes().catch((): CreditType[] => []),
     getAllowedDenoms(),
+    strategies.some((s) => s.usesJurisdiction) ? listProjects() : Promise.resolve<Project[]>([]),
+    getPolicyScreen(),
   ]);
 
   // Build class ID → credit type abbreviation map
@@ -44,22 +214,33 @@ export async function selectBestOrders(
   for (const cls of classes) {
     classTypeMap.set(cls.id, cls.credit_type_abbrev);
   }
+  const typePrecision = new Map(creditTypes.map((t) => [t.abbreviation, t.precision]));
+  const precisionOf = (order: SellOrder): number =>
+    typePrecision.get(classTypeMap.get(order.batch_denom.split("-")[0]) ?? "") ?? DEFAULT_CREDIT_PRECISION;
 
   // Determine preferred payment denom
   const denomInfo = pickDenom(allowedDenoms, preferredDenom);
 
   // Filter eligible sell orders:
-  // - auto-retire enabled (disable_auto_retire === false)
+  // - auto-retire enabled (disable_auto_retire === false), or disabled for
+  //   tradable purchases
   // - matching credit type (if specified)
-  // - matching payment denom
+  // - matching credit class ID, project ID and batch denom (if specified)
   // - not expired
+  // - allowed by the procurement policy (blocked orders are reported)
+  // - matching payment denom
+  const blocked: BlockedOrder[] = [];
   const eligible = sellOrders.filter((order) => {
-    if (order.disable_auto_retire) return false;
-    if (order.ask_denom !== denomInfo.bankDenom) return false;
+    if (order.disable_auto_retire !== !!options.tradable) return false;
+
+    // Extract class ID from batch denom (e.g., "C01-001-..." → "C01")
+    const classId = order.batch_denom.split("-").slice(0, 1).join("");
+    if (classIds && !classIds.includes(classId)) return false;
+    if (options.batchDenoms && !options.batchDenoms.includes(order.batch_denom)) return false;
+    if (options.projectIds && !options.projectIds.includes(projectIdOf(order.batch_denom))) return false;
+    if (options.minVintageStart && (order.batch_denom.split("-")[2] ?? "") < options.minVintageStart) return false;
 
     if (creditType || creditTypeAbbrevs) {
-      // Extract class ID from batch denom (e.g., "C01-001-..." → "C01")
-      const classId = order.batch_denom.split("-").slice(0, 1).join("");
       // Match on credit type abbreviation
       const abbrev = classTypeMap.get(classId);
       if (!abbrev) return false;
@@ -78,66 +259,230 @@ export async function selectBestOrders(
       if (expDate <= new Date()) return false;
     }
 
-    return true;
-  });
+    const blockReason = screen?.batchReason(order.batch_denom);
+    if (blockReason) {
+      blocked.push({ sellOrderId: order.id, batchDenom: order.batch_denom, reason: blockReason });
+      return false;
+    }
 
-  // Sort by ask_amount ascending (cheapest first)
-  eligible.sort((a, b) => {
-    const aPrice = BigInt(a.ask_amount);
-    const bPrice = BigInt(b.ask_amount);
-    if (aPrice < bPrice) return -1;
-    if (aPrice > bPrice) return 1;
-    return 0;
+    return order.ask_denom === denomInfo.bankDenom;
   });
 
-  // Greedy fill
-  let remaining = quantity;
+  // Rank by the strategies, cheapest first by default
+  const jurisdictions = new Map(projects.map((p) => [p.id, p.jurisdiction]));
+  const candidates: Candidate[] = eligible.map((order) => ({
+    order,
+    projectId: projectIdOf(order.batch_denom),
+    vintageStart: order.batch_denom.split("-")[2] ?? "",
+    jurisdiction: jurisdictions.get(projectIdOf(order.batch_denom)) || null,
+    pricePerCredit: BigInt(order.ask_amount),
+  }));
+  candidates.sort(compareCandidates(strategies));
+  const formatPrice = (amount: bigint): string =>
+    `${formatUnits(amount, denomInfo.exponent)} ${denomInfo.displayDenom}`;
+
+  // Greedy fill, in units of 10^-scale credits so orders of every precision add up exactly
+  const scale = Math.max(DEFAULT_CREDIT_PRECISION, ...eligible.map(precisionOf));
+  const requested = parseUnits(quantity, scale);
+  let remaining = requested;
+  let budget = options.budgetMicro;
   const selected: SelectedOrder[] = [];
   let totalCostMicro = 0n;
-  let insufficientSupply = false;
+  const fill: FillState = { requested, takenByBatch: new Map(), takenByProject: new Map() };
 
-  for (const order of eligible) {
-    if (remaining <= 0) break;
+  for (const candidate of candidates) {
+    if (remaining <= 0n) break;
 
-    const available = parseFloat(order.quantity);
-    if (available <= 0) continue;
+    const { order, pricePerCredit } = candidate;
+    const precision = precisionOf(order);
+    const step = 10n ** BigInt(scale - precision);
+    const available = parseUnits(order.quantity, scale);
+
+    let take = available < remaining ? available : remaining;
+    if (budget !== undefined && pricePerCredit > 0n) {
+      const affordable = affordableQuantity(budget, scale, pricePerCredit);
+      if (affordable < take) take = affordable;
+    }
+    // Strategy caps (project or batch share); remember the one that binds
+    let cappedBy: SelectionStrategy | undefined;
+    for (const strategy of strategies) {
+      const limit = strategy.limit?.(candidate, fill);
+      if (limit === undefined || limit >= take) continue;
+      take = limit > 0n ? limit : 0n;
+      cappedBy = strategy;
+    }
+    // Orders fill in whole units of their credit type's precision
+    take -= take % step;
+    if (take <= 0n) continue;
 
-    const take = Math.min(remaining, available);
-    const pricePerCredit = BigInt(order.ask_amount);
-    // Cost = quantity * price_per_credit (ask_amount is in micro-units)
-    // Since quantity can be fractional, compute cost carefully
-    const costMicro = (pricePerCredit * BigInt(Math.ceil(take * 1_000_000))) / 1_000_000n;
+    const costMicro = costOf(take, scale, pricePerCredit);
 
     selected.push({
       sellOrderId: order.id,
       batchDenom: order.batch_denom,
-      quantity: take.toFixed(6),
+      quantity: formatUnits(take / step, precision, precision),
       askAmount: order.ask_amount,
       askDenom: order.ask_denom,
       costMicro,
+      reason: explainTake(candidate, strategies, cappedBy, formatPrice),
     });
 
     totalCostMicro += costMicro;
     remaining -= take;
+    if (budget !== undefined) budget -= costMicro;
+    fill.takenByBatch.set(order.batch_denom, (fill.takenByBatch.get(order.batch_denom) ?? 0n) + take);
+    fill.takenByProject.set(candidate.projectId, (fill.takenByProject.get(candidate.projectId) ?? 0n) + take);
   }
 
-  if (remaining > 0.000001) {
-    insufficientSupply = true;
-  }
-
-  const actualQuantity = quantity - Math.max(remaining, 0);
-
   return {
     orders: selected,
-    totalQuantity: actualQuantity.toFixed(6),
+    totalQuantity: formatUnits(requested - remaining, scale, scale),
     totalCostMicro,
     paymentDenom: denomInfo.bankDenom,
     displayDenom: denomInfo.displayDenom,
     exponent: denomInfo.exponent,
-    insufficientSupply,
+    insufficientSupply: remaining > 0n,
+    ...(screen ? { blocked } : {}),
   };
 }
 
+/**
+ * Cheapest fill across every allowed denom the price oracle can convert to
+ * USD. A retirement pays in a single denom, so each priceable denom is
+ * filled separately and the fills are compared in USD per credit: complete
+ * fills the wallet can pay come first, then complete fills it can't, then
+ * partial fills (the largest first under a budget). Without any USD rate
+ * this is selectBestOrders' default (REGEN) routing, and a USD budget can't
+ * be spent. The result carries the rates it compared with.
+ */
+export async function selectAcrossDenoms(
+  creditType: string | undefined,
+  quantity: number,
+  creditTypeAbbrevs?: string[],
+  classIds?: string[],
+  options: CrossDenomOptions = {}
+): Promise<OrderSelection> {
+  const { balanceOf, oracle, budgetCents, ...selectionOptions } = options;
+  const rates = await getUsdRates(await getAllowedDenoms(), oracle);
+
+  let best: { selection: OrderSelection; costUsd: number; rank: number; filled: number; perCredit: number } | null =
+    null;
+  for (const rate of rates) {
+    const selection = await selectBestOrders(creditType, quantity, rate.bankDenom, creditTypeAbbrevs, classIds, {
+      ...selectionOptions,
+      ...(budgetCents !== undefined
+        ? { budgetMicro: centsToTokenUnits(budgetCents, rate.usdPerUnit, rate.exponent) }
+        : {}),
+    });
+    if (selection.orders.length === 0) continue;
+
+    const costUsd = unitsToNumber(selection.totalCostMicro, selection.exponent) * rate.usdPerUnit;
+    const filled = parseFloat(selection.totalQuantity);
+    const perCredit = costUsd / filled;
+    const payable = !balanceOf || (await balanceOf(rate.bankDenom)) >= selection.totalCostMicro;
+    const rank = selection.insufficientSupply ? 2 : payable ? 0 : 1;
+    const buysMore = rank === 2 && budgetCents !== undefined && best !== null && filled !== best.filled;
+    if (
+      !best ||
+      rank < best.rank ||
+      (rank === best.rank && (buysMore ? filled > best.filled : perCredit < best.perCredit))
+    ) {
+      best = { selection, costUsd, rank, filled, perCredit };
+    }
+  }
+
+  if (!best) {
+    if (budgetCents !== undefined && rates.length === 0) {
+      throw new Error("No allowed denom has a USD rate, so a USD budget can't be converted to an ask");
+    }
+    const selection = await selectBestOrders(
+      creditType, quantity, undefined, creditTypeAbbrevs, classIds, selectionOptions
+    );
+    return { ...selection, rates };
+  }
+  return { ...best.selection, costUsd: best.costUsd, rates };
+}
+
+/**
+ * USD cents a selection costs at the rate of its payment denom, rounded up.
+ * Throws when that denom has no USD rate (see usdRateFor).
+ */
+export function selectionCents(selection: OrderSelection): number {
+  const usdPerUnit = usdRateFor(selection.rates ?? [], selection.paymentDenom, selection.displayDenom);
+  return tokenUnitsToCents(selection.totalCostMicro, usdPerUnit, selection.exponent);
+}
+
+/**
+ * "3 sell order(s) excluded by the procurement policy: credit class C02 is
+ * excluded (2); vintage 2015 is before 2018 (1)"
+ */
+export function describeBlocked(blocked: BlockedOrder[]): string {
+  const counts = new Map<string, number>();
+  for (const b of blocked) counts.set(b.reason, (counts.get(b.reason) ?? 0) + 1);
+  const reasons = [...counts].map(([reason, count]) => `${reason} (${count})`).join("; ");
+  return `${blocked.length} sell order(s) excluded by the procurement policy: ${reasons}`;
+}
+
+/**
+ * Explain why a class, project or batch had no orders selectBestOrders could
+ * use for a retirement: nothing listed, sellers disabled auto-retirement,
+ * listings expired, the procurement policy excludes them, or they're priced
+ * in another denom. Without a preferred denom, every denom the price oracle
+ * can convert is accepted.
+ */
+export async function explainNoEligibleOrders(
+  scope: CreditScope,
+  preferredDenom?: string
+): Promise<string> {
+  const [sellOrders, allowedDenoms, screen] = await Promise.all([
+    listSellOrders(),
+    getAllowedDenoms(),
+    getPolicyScreen(),
+  ]);
+  const target = describeCreditScope(scope);
+  const listed = sellOrders.filter((o) => matchesScope(o.batch_denom, scope));
+  if (listed.length === 0) {
+    return `No sell orders are currently listed for ${target}.`;
+  }
+
+  const now = new Date();
+  const active = listed.filter((o) => !o.expiration || new Date(o.expiration) > now);
+  if (active.length === 0) {
+    return `All ${listed.length} sell order(s) for ${target} have expired.`;
+  }
+
+  const autoRetire = active.filter((o) => !o.disable_auto_retire);
+  if (autoRetire.length === 0) {
+    return (
+      `${target[0].toUpperCase()}${target.slice(1)} has ${active.length} sell order(s), but their sellers disabled ` +
+      `auto-retirement, so those credits can't be bought and retired in one transaction.`
+    );
+  }
+
+  const blocked: BlockedOrder[] = [];
+  const allowed = autoRetire.filter((o) => {
+    const reason = screen?.batchReason(o.batch_denom);
+    if (reason) blocked.push({ sellOrderId: o.id, batchDenom: o.batch_denom, reason });
+    return !reason;
+  });
+  if (allowed.length === 0) {
+    return `${target[0].toUpperCase()}${target.slice(1)} is listed, but ${describeBlocked(blocked)}.`;
+  }
+
+  const rates = preferredDenom ? [] : await getUsdRates(allowedDenoms);
+  const { bankDenom, displayDenom } = pickDenom(allowedDenoms, preferredDenom);
+  const accepted = rates.length > 0 ? rates.map((r) => r.bankDenom) : [bankDenom];
+  if (allowed.every((o) => !accepted.includes(o.ask_denom))) {
+    const names = [...new Set(allowed.map((o) => o.ask_denom))].map(
+      (d) => allowedDenoms.find((a) => a.bank_denom === d)?.display_denom ?? d
+    );
+    return rates.length > 0
+      ? `Sell orders for ${target} are priced in ${names.join(", ")}, which the price oracle can't convert to USD.`
+      : `Sell orders for ${target} are priced in ${names.join(", ")}, not ${displayDenom}.`;
+  }
+  return `Sell orders for ${target} are listed but excluded by the other retirement filters.`;
+}
+
 function pickDenom(
   allowedDenoms: AllowedDenom[],
   preferred?: string
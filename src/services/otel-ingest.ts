@@ -0,0 +1,224 @@
+/**
+ * OpenTelemetry GenAI span ingestion.
+ *
+ * Turns OTLP/HTTP JSON trace exports (ExportTraceServiceRequest) into
+ * token-based footprint estimates. Only spans that follow the GenAI semantic
+ * conventions and carry token usage are counted:
+ *
+ * - model: gen_ai.response.model, else gen_ai.request.model
+ * - tokens: gen_ai.usage.input_tokens / output_tokens (or the older
+ *   prompt_tokens / completion_tokens), plus gen_ai.usage.cache_read.input_tokens
+ * - region: the resource's cloud.region, else the caller's default
+ * - project: the resource's service.name
+ *
+ * Semantic-convention input tokens include cache reads, while the estimator
+ * prices cached tokens separately, so cache reads are subtracted from input.
+ * Agent and tool spans (invoke_agent, create_agent, execute_tool) are skipped
+ * because their usage repeats that of the model calls beneath them.
+ *
+ * Each span is stored as one footprint session attributed to the API user,
+ * keyed by the user plus trace and span ID so exporter retries are not double
+ * counted, while another user exporting the same span still records it.
+ * Energy and CO2 are stored from the per-model breakdown rather than the
+ * estimate's display-rounded totals, which would round a single model call
+ * to zero.
+ */
+
+import type Database from "better-sqlite3";
+import { estimateFootprint } from "./estimator.js";
+import { recordFootprintSession, hasFootprintSession } from "../server/db.js";
+
+export const OTEL_SOURCE = "otel";
+
+const AGGREGATE_OPERATIONS = new Set(["invoke_agent", "create_agent", "execute_tool"]);
+
+// --- OTLP JSON shapes (only the fields we read) ---
+
+interface OtlpAnyValue {
+  stringValue?: string;
+  intValue?: string | number;
+  doubleValue?: number;
+  boolValue?: boolean;
+}
+
+interface OtlpKeyValue {
+  key: string;
+  value?: OtlpAnyValue;
+}
+
+interface OtlpSpan {
+  traceId?: string;
+  spanId?: string;
+  name?: string;
+  startTimeUnixNano?: string | number;
+  endTimeUnixNano?: string | number;
+  attributes?: OtlpKeyValue[];
+}
+
+export interface OtlpTraceRequest {
+  resourceSpans?: Array<{
+    resource?: { attributes?: OtlpKeyValue[] };
+    scopeSpans?: Array<{ spans?: OtlpSpan[] }>;
+  }>;
+}
+
+export interface OtelIngestOptions {
+  userId: number;
+  /** Grid region for spans whose resource has no cloud.region */
+  region?: string;
+  methodology?: string;
+}
+
+export interface OtelIngestResult {
+  /** GenAI spans with token usage that were stored */
+  accepted: number;
+  /** Spans this user already stored under the same trace/span ID */
+  duplicates: number;
+  /** Spans without GenAI token usage, or agent/tool spans */
+  ignored: number;
+  /** GenAI spans that could not be estimated */
+  rejected: number;
+  errors: string[];
+  energyKwh: number;
+  co2Kg: number;
+}
+
+function attributeMap(attributes: OtlpKeyValue[] | undefined): Map<string, string | number | boolean> {
+  const map = new Map<string, string | number | boolean>();
+  for (const attr of attributes ?? []) {
+    const v = attr.value;
+    if (!v) continue;
+    if (v.stringValue !== undefined) map.set(attr.key, v.stringValue);
+    else if (v.intValue !== undefined) map.set(attr.key, Number(v.intValue));
+    else if (v.doubleValue !== undefined) map.set(attr.key, v.doubleValue);
+    else if (v.boolValue !== undefined) map.set(attr.key, v.boolValue);
+  }
+  return map;
+}
+
+function tokenAttr(attrs: Map<string, string | number | boolean>, ...keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = Number(attrs.get(key));
+    if (attrs.has(key) && Number.isFinite(value) && value >= 0) return Math.round(value);
+  }
+  return undefined;
+}
+
+function stringAttr(attrs: Map<string, string | number | boolean>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = attrs.get(key);
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+}
+
+/** Unix nanoseconds → SQLite "YYYY-MM-DD HH:MM:SS", or undefined when absent/invalid */
+function nanosToTimestamp(nanos: string | number | undefined): string | undefined {
+  if (nanos === undefined) return undefined;
+  try {
+    const ms = Number(BigInt(nanos) / 1_000_000n);
+    if (ms <= 0) return undefined;
+    return new Date(ms).toISOString().slice(0, 19).replace("T", " ");
+  } catch {
+    return undefined;
+  }
+}
+
+/** Throws when the body is not shaped like an OTLP trace export. */
+export function assertOtlpTraceRequest(body: unknown): asserts body is OtlpTraceRequest {
+  if (!body || typeof body !== "object" || !Array.isArray((body as OtlpTraceRequest).resourceSpans)) {
+    throw new Error("Body must be an OTLP ExportTraceServiceRequest with a resourceSpans array");
+  }
+}
+
+/** Estimate and store the footprint of every GenAI span in an OTLP trace export. */
+export function ingestOtlpTraces(
+  db: Database.Database,
+  request: OtlpTraceRequest,
+  options: OtelIngestOptions
+): OtelIngestResult {
+  const result: OtelIngestResult = {
+    accepted: 0,
+    duplicates: 0,
+    ignored: 0,
+    rejected: 0,
+    errors: [],
+    energyKwh: 0,
+    co2Kg: 0,
+  };
+
+  const ingest = db.transaction(() => {
+    for (const resourceSpans of request.resourceSpans ?? []) {
+      const resource = attributeMap(resourceSpans.resource?.attributes);
+      const region = stringAttr(resource, "cloud.region") ?? options.region;
+      const projectTag = stringAttr(resource, "service.name") ?? null;
+
+      for (const span of (resourceSpans.scopeSpans ?? []).flatMap((s) => s.spans ?? [])) {
+        const attrs = attributeMap(span.attributes);
+        const model = stringAttr(attrs, "gen_ai.response.model", "gen_ai.request.model");
+        const operation = stringAttr(attrs, "gen_ai.operation.name");
+        const input = tokenAttr(attrs, "gen_ai.usage.input_tokens", "gen_ai.usage.prompt_tokens");
+        const output = tokenAttr(attrs, "gen_ai.usage.output_tokens", "gen_ai.usage.completion_tokens");
+        const cached = tokenAttr(attrs, "gen_ai.usage.cache_read.input_tokens", "gen_ai.usage.cache_read_input_tokens") ?? 0;
+
+        if (!model || (input === undefined && output === undefined) || (operation && AGGREGATE_OPERATIONS.has(operation))) {
+          result.ignored++;
+          continue;
+        }
+
+        const externalId = span.traceId && span.spanId ? `${span.traceId}:${span.spanId}` : null;
+        if (externalId && hasFootprintSession(db, OTEL_SOURCE, externalId, options.userId)) {
+          result.duplicates++;
+          continue;
+        }
+
+        try {
+          const estimate = estimateFootprint(0, undefined, {
+            usage: [{
+              model,
+              input_tokens: Math.max((input ?? 0) - cached, 0),
+              output_tokens: output ?? 0,
+              cached_tokens: cached,
+            }],
+            region,
+            methodology: options.methodology,
+          });
+          if (estimate.basis !== "tokens") {
+            throw new Error(`methodology ${estimate.methodology_id} does not support token-based estimates`);
+          }
+
+          const models = estimate.model_breakdown ?? [];
+          const energyKwh = models.reduce((sum, m) => sum + m.energy_kwh, 0);
+          const co2Kg = energyKwh * estimate.grid_intensity.kg_co2_per_kwh;
+          recordFootprintSession(db, {
+            project_tag: projectTag,
+            model,
+            basis: estimate.basis,
+            session_minutes: 0,
+            input_tokens: models.reduce((sum, m) => sum + m.input_tokens, 0),
+            output_tokens: models.reduce((sum, m) => sum + m.output_tokens, 0),
+            cached_tokens: models.reduce((sum, m) => sum + m.cached_tokens, 0),
+            energy_kwh: energyKwh,
+            co2_kg: co2Kg,
+            grid_region: estimate.grid_intensity.region,
+            source: OTEL_SOURCE,
+            external_id: externalId,
+            methodology_id: estimate.methodology_id,
+            user_id: options.userId,
+            recorded_at: nanosToTimestamp(span.endTimeUnixNano ?? span.startTimeUnixNano),
+          });
+          result.accepted++;
+          result.energyKwh += energyKwh;
+          result.co2Kg += co2Kg;
+        } catch (err) {
+          result.rejected++;
+          const msg = err instanceof Error ? err.message : String(err);
+          result.errors.push(`span ${span.spanId ?? span.name ?? "?"}: ${msg}`);
+        }
+      }
+    }
+  });
+  ingest();
+
+  return result;
+}
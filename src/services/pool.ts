@@ -8,9 +8,12 @@
  */
 
 import type Database from "better-sqlite3";
-import { selectBestOrders, type OrderSelection } from "./order-selector.js";
-import { initWallet, signAndBroadcast } from "./wallet.js";
-import { loadConfig } from "../config.js";
+import { selectAcrossDenoms, selectionCents, describeBlocked, type OrderSelection } from "./order-selector.js";
+import { parseStrategies } from "./selection-strategy.js";
+import { usdRateFor } from "./price-oracle.js";
+import { initWallet, signAndBroadcast, getBalance } from "./wallet.js";
+import { invalidateMarketData } from "./cache.js";
+import { loadConfig, isWalletConfigured } from "../config.js";
 import {
   getDb,
   getActiveSubscribers,
@@ -23,6 +26,7 @@ import {
 } from "../server/db.js";
 import { sendMonthlyEmails } from "./email.js";
 import { executeBurn, type BurnResult, formatBurnResult } from "./burn.js";
+import { DEFAULT_CREDIT_PRECISION, affordableQuantity, unitsToNumber, centsToTokenUnits } from "./decimal.js";
 
 export interface PoolRunResult {
   poolRunId: number;
@@ -46,6 +50,8 @@ export interface CreditTypeResult {
   spentCents: number;
   creditsRetired: number;
   txHash: string | null;
+  /** Batches the credits were bought from (set once the tx lands) */
+  batchDenoms: string[];
   error: string | null;
 }
 
@@ -265,24 +271,34 @@ async function purchaseCreditType(
     return result;
   }
 
+  const { strategies, invalid } = parseStrategies(loadConfig().poolStrategy);
+  if (invalid !== undefined) {
+    result.error = `Invalid REGEN_POOL_STRATEGY entry "${invalid}"`;
+    errors.push(result.error);
+    return result;
+  }
+
   try {
     // Estimate quantity from budget: first find cheapest sell orders to get pricing
     // Start with a large quantity estimate, then trim based on actual cost
+    // Every denom with a USD rate competes; fills the wallet can pay rank first
     const abbrevs = CREDIT_ABBREVS[creditType];
-    const probe = await selectBestOrders(undefined, 1000, undefined, abbrevs);
+    const balanceOf = isWalletConfigured() ? getBalance : undefined;
+    const probe = await selectAcrossDenoms(undefined, 1000, abbrevs, undefined, { balanceOf });
 
     if (probe.orders.length === 0) {
-      result.error = `No sell orders available for ${creditType}`;
+      // Say when the procurement policy is what left nothing to buy
+      const policyNote = probe.blocked?.length ? ` (${describeBlocked(probe.blocked)})` : "";
+      result.error = `No sell orders available for ${creditType}${policyNote}`;
       errors.push(result.error);
       return result;
     }
 
-    // Calculate how many credits we can afford within budget
-    // Budget is in cents, cost is in micro-units of payment denom
-    // Convert budget cents to micro-units: cents * 10^(exponent-2)
-    const budgetMicro = BigInt(budgetCents) * BigInt(10 ** Math.max(probe.exponent - 2, 0));
+    // Budget is in cents, cost is in base units of the payment denom
+    const usdPerUnit = usdRateFor(probe.rates ?? [], probe.paymentDenom, probe.displayDenom);
+    const budgetMicro = centsToTokenUnits(budgetCents, usdPerUnit, probe.exponent);
 
-    // Find cheapest price per credit to estimate max quantity
+    // Find cheapest price per credit to bound the quantity we can afford
     const cheapestAsk = BigInt(probe.orders[0].askAmount);
     if (cheapestAsk <= 0n) {
       result.error = `Invalid ask amount for ${creditType}`;
@@ -290,39 +306,37 @@ async function purchaseCreditType(
       return result;
     }
 
-    // Estimate quantity we can afford (conservative: use cheapest price)
-    const estimatedQuantity = Number(budgetMicro / cheapestAsk);
-    if (estimatedQuantity < 0.000001) {
+    const maxQuantity = affordableQuantity(budgetMicro, DEFAULT_CREDIT_PRECISION, cheapestAsk);
+    if (maxQuantity <= 0n) {
       result.error = `Budget too small for any ${creditType} credits ($${(budgetCents / 100).toFixed(2)})`;
       errors.push(result.error);
       return result;
     }
 
-    // Now select actual orders up to our affordable quantity
-    const selection = await selectBestOrders(undefined, estimatedQuantity, undefined, abbrevs);
-
-    if (selection.orders.length === 0) {
+    // Fill by the configured strategies (cheapest-first by default) until
+    // the budget is spent; caps are shares of this affordable maximum
+    const finalSelection = await selectAcrossDenoms(
+      undefined,
+      unitsToNumber(maxQuantity, DEFAULT_CREDIT_PRECISION),
+      abbrevs,
+      undefined,
+      { budgetCents, strategies, balanceOf }
+    );
+
+    if (finalSelection.orders.length === 0) {
       result.error = `No orders filled for ${creditType}`;
       errors.push(result.error);
       return result;
     }
-
-    // Verify total cost is within budget
-    let finalSelection = selection;
-    if (selection.totalCostMicro > budgetMicro) {
-      // Trim to fit budget — reduce quantity
-      const ratio = Number(budgetMicro) / Number(selection.totalCostMicro);
-      const adjustedQuantity = Math.max(estimatedQuantity * ratio * 0.99, 0.000001); // 1% safety margin
-      finalSelection = await selectBestOrders(undefined, adjustedQuantity, undefined, abbrevs);
-      if (finalSelection.orders.length === 0 || finalSelection.totalCostMicro > budgetMicro) {
-        result.error = `Cannot fit ${creditType} purchase within budget after adjustment`;
-        errors.push(result.error);
-        return result;
-      }
+    const spentCents = selectionCents(finalSelection);
+    if (spentCents > budgetCents) {
+      result.error = `Cannot fit ${creditType} purchase within budget`;
+      errors.push(result.error);
+      return result;
     }
 
     result.creditsRetired = parseFloat(finalSelection.totalQuantity);
-    result.spentCents = Number(finalSelection.totalCostMicro / BigInt(10 ** Math.max(finalSelection.exponent - 2, 0)));
+    result.spentCents = spentCents;
 
     if (dryRun) {
       return result;
@@ -360,7 +374,11 @@ async function purchaseCreditType(
       return result;
     }
 
+    // Later credit types in this run must not route against the orders just filled
+    invalidateMarketData();
+
     result.txHash = txResult.transactionHash;
+    result.batchDenoms = [...new Set(finalSelection.orders.map((o) => o.batchDenom))];
     return result;
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
@@ -403,6 +421,7 @@ function emptyCreditResult(): CreditTypeResult {
     spentCents: 0,
     creditsRetired: 0,
     txHash: null,
+    batchDenoms: [],
     error: null,
   };
 }
@@ -0,0 +1,106 @@
+/**
+ * USD prices for payment denoms.
+ *
+ * Sell orders can be priced in any of the marketplace's allowed denoms, so
+ * order selection compares them by converting each ask to USD. The oracle
+ * supplying those prices is pluggable: the default one prices USD
+ * stablecoins at 1 and REGEN from the REGEN_PRICE_API_URL feed, and an
+ * embedder can install another with setPriceOracle().
+ */
+
+import { loadConfig } from "../config.js";
+import { getHttpClient, type HttpClient } from "./http-client.js";
+import type { AllowedDenom } from "./ledger.js";
+
+export interface PriceOracle {
+  name: string;
+
+  /** USD per display unit of a denom (e.g. per REGEN), or null when it can't be priced */
+  usdPrice(denom: AllowedDenom): Promise<number | null>;
+}
+
+/** A USD conversion rate used to compare or report a cost */
+export interface DenomRate {
+  bankDenom: string;
+  displayDenom: string;
+  exponent: number;
+  usdPerUnit: number;
+  /** Name of the oracle that supplied the rate */
+  source: string;
+}
+
+/** Shared client for the REGEN price feed (REGEN_PRICE_API_URL is a full URL) */
+export function priceClient(): HttpClient {
+  return getHttpClient("price", "Price API", [loadConfig().regenPriceApiUrl]);
+}
+
+/** Fetch current REGEN/USD price from CoinGecko (or configured API). */
+export async function getRegenPrice(): Promise<number> {
+  const data = await priceClient().requestJSON<{ regen?: { usd?: number } }>("");
+  const price = data?.regen?.usd;
+  if (typeof price !== "number" || price <= 0) {
+    throw new Error(`Invalid REGEN price from API: ${JSON.stringify(data)}`);
+  }
+  return price;
+}
+
+/** USD per display unit of a payment denom: 1 for USDC, the feed price for REGEN, null otherwise. */
+export function usdPerDisplayUnit(displayDenom: string, regenUsd: number | null): number | null {
+  if (/usdc/i.test(displayDenom)) return 1;
+  if (displayDenom.toUpperCase() === "REGEN") return regenUsd;
+  return null;
+}
+
+/** Stablecoins at face value, REGEN from the price feed */
+export class FeedPriceOracle implements PriceOracle {
+  name = "price-feed";
+
+  async usdPrice(denom: AllowedDenom): Promise<number | null> {
+    if (denom.display_denom.toUpperCase() === "REGEN") return getRegenPrice();
+    return usdPerDisplayUnit(denom.display_denom, null);
+  }
+}
+
+let oracle: PriceOracle = new FeedPriceOracle();
+
+export function getPriceOracle(): PriceOracle {
+  return oracle;
+}
+
+/** Replace the oracle used for cross-denom comparisons; null restores the default */
+export function setPriceOracle(next: PriceOracle | null): void {
+  oracle = next ?? new FeedPriceOracle();
+}
+
+/**
+ * USD rates for every denom the oracle can price. A denom whose price
+ * lookup fails is left out rather than failing the whole comparison.
+ */
+export async function getUsdRates(denoms: AllowedDenom[], source = getPriceOracle()): Promise<DenomRate[]> {
+  const rates: DenomRate[] = [];
+  for (const denom of denoms) {
+    const price = await source.usdPrice(denom).catch(() => null);
+    if (price === null || !(price > 0)) continue;
+    rates.push({
+      bankDenom: denom.bank_denom,
+      displayDenom: denom.display_denom,
+      exponent: denom.exponent,
+      usdPerUnit: price,
+      source: source.name,
+    });
+  }
+  return rates;
+}
+
+/**
+ * USD per display unit of a bank denom from the rates a selection was
+ * compared with. A USD stablecoin missing from them is taken at face value;
+ * any other denom without a rate throws, since its cost in USD is unknown.
+ */
+export function usdRateFor(rates: DenomRate[], bankDenom: string, displayDenom: string): number {
+  const rate = rates.find((r) => r.bankDenom === bankDenom);
+  if (rate) return rate.usdPerUnit;
+  const stable = usdPerDisplayUnit(displayDenom, null);
+  if (stable !== null) return stable;
+  throw new Error(`No USD rate for ${displayDenom}; its cost can't be converted to cents`);
+}
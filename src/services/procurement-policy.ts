@@ -0,0 +1,141 @@
+/**
+ * Organisation-level procurement policy.
+ *
+ * A policy file (REGEN_PROCUREMENT_POLICY) says which credits the
+ * organisation will never buy, whatever the request: excluded or
+ * non-allowed credit classes, excluded projects and issuers, vintages
+ * before a minimum year, and projects outside a set of jurisdictions.
+ *
+ *   {
+ *     "exclude_classes": ["C02"],
+ *     "exclude_projects": ["C01-004"],
+ *     "exclude_issuers": ["regen1..."],
+ *     "min_vintage_year": 2018,
+ *     "jurisdictions": ["US", "BR-SP"]
+ *   }
+ *
+ * Every field is optional; "allow_classes": ["C01", "BT01"] instead limits
+ * buying to the listed classes. A jurisdiction code also matches its
+ * subdivisions ("US" allows "US-CA"). Order selection (and with it
+ * retire_credits, quotes and auto-retire), pool runs,
+ * browse_available_credits, and retirements of credits already held
+ * (wallet balance, treasury inventory, basket takes) all screen credits
+ * through the same PolicyScreen, and report what it blocked with the reason. The file is
+ * re-read on every screening so edits apply without a restart; a file that
+ * fails validation stops purchases rather than being ignored.
+ */
+
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { loadConfig } from "../config.js";
+import { listBatches, listProjects } from "./ledger.js";
+
+const JURISDICTION_RE = /^[A-Z]{2}(-[A-Z0-9]{1,3})?$/;
+
+const ProcurementPolicySchema = z.object({
+  allow_classes: z.array(z.string().regex(/^[A-Z]+\d+$/, "expected a class ID like C01")).optional(),
+  exclude_classes: z.array(z.string().regex(/^[A-Z]+\d+$/, "expected a class ID like C01")).default([]),
+  exclude_projects: z.array(z.string().regex(/^[A-Z]+\d+-\d+$/, "expected a project ID like C01-001")).default([]),
+  exclude_issuers: z.array(z.string().min(1)).default([]),
+  min_vintage_year: z.number().int().min(1900).optional(),
+  jurisdictions: z.array(z.string().regex(JURISDICTION_RE, "expected an ISO 3166 code like US or US-CA")).optional(),
+});
+
+export type ProcurementPolicy = z.infer<typeof ProcurementPolicySchema>;
+
+/** Load and validate a policy file. Throws with the validation issues on bad input. */
+export function loadProcurementPolicy(path: string): ProcurementPolicy {
+  const raw = JSON.parse(readFileSync(path, "utf8"));
+  const parsed = ProcurementPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    throw new Error(`Invalid procurement policy file ${path}: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/** The configured policy, or null when REGEN_PROCUREMENT_POLICY is unset */
+export function currentProcurementPolicy(): ProcurementPolicy | null {
+  const path = loadConfig().procurementPolicyPath;
+  return path ? loadProcurementPolicy(path) : null;
+}
+
+/** Why the policy blocks a class, project or batch; null when it's allowed */
+export interface PolicyScreen {
+  policy: ProcurementPolicy;
+  classReason(classId: string): string | null;
+  projectReason(projectId: string): string | null;
+  batchReason(batchDenom: string): string | null;
+}
+
+/** A held batch (wallet balance, treasury lot, basket deposit) the policy kept out of a retirement */
+export interface BlockedBatch {
+  batchDenom: string;
+  reason: string;
+}
+
+/** e.g. "2 batch(es) excluded by the procurement policy: C01-001-… (vintage 2015 is before 2018); …" */
+export function describeBlockedBatches(blocked: BlockedBatch[]): string {
+  const reasons = blocked.map((b) => `${b.batchDenom} (${b.reason})`).join("; ");
+  return `${blocked.length} batch(es) excluded by the procurement policy: ${reasons}`;
+}
+
+/**
+ * Screen for a policy (the configured one by default), or null when there
+ * is no policy. Batch issuers and project jurisdictions are only fetched
+ * when the policy has rules on them; a batch or project whose issuer or
+ * jurisdiction can't be found is blocked.
+ */
+export async function getPolicyScreen(
+  policy: ProcurementPolicy | null = currentProcurementPolicy()
+): Promise<PolicyScreen | null> {
+  if (!policy) return null;
+  const [batches, projects] = await Promise.all([
+    policy.exclude_issuers.length > 0 ? listBatches() : Promise.resolve([]),
+    policy.jurisdictions ? listProjects() : Promise.resolve([]),
+  ]);
+  const issuers = new Map(batches.map((b) => [b.denom, b.issuer]));
+  const jurisdictions = new Map(projects.map((p) => [p.id, p.jurisdiction]));
+
+  const classReason = (classId: string): string | null => {
+    if (policy.allow_classes && !policy.allow_classes.includes(classId)) {
+      return `credit class ${classId} is not on the allowed list`;
+    }
+    if (policy.exclude_classes.includes(classId)) return `credit class ${classId} is excluded`;
+    return null;
+  };
+
+  const projectReason = (projectId: string): string | null => {
+    const byClass = classReason(projectId.split("-")[0]);
+    if (byClass) return byClass;
+    if (policy.exclude_projects.includes(projectId)) return `project ${projectId} is excluded`;
+    if (policy.jurisdictions) {
+      const jurisdiction = jurisdictions.get(projectId);
+      if (!jurisdiction) return `project ${projectId} has no known jurisdiction`;
+      const allowed = policy.jurisdictions.some((j) => jurisdiction === j || jurisdiction.startsWith(`${j}-`));
+      if (!allowed) {
+        return `project jurisdiction ${jurisdiction} is outside ${policy.jurisdictions.join(", ")}`;
+      }
+    }
+    return null;
+  };
+
+  const batchReason = (batchDenom: string): string | null => {
+    const byProject = projectReason(batchDenom.split("-").slice(0, 2).join("-"));
+    if (byProject) return byProject;
+    if (policy.min_vintage_year !== undefined) {
+      const year = parseInt((batchDenom.split("-")[2] ?? "").slice(0, 4), 10);
+      if (!(year >= policy.min_vintage_year)) {
+        return `vintage ${Number.isNaN(year) ? "unknown" : year} is before ${policy.min_vintage_year}`;
+      }
+    }
+    if (policy.exclude_issuers.length > 0) {
+      const issuer = issuers.get(batchDenom);
+      if (!issuer) return `issuer of ${batchDenom} is unknown`;
+      if (policy.exclude_issuers.includes(issuer)) return `issuer ${issuer} is excluded`;
+    }
+    return null;
+  };
+
+  return { policy, classReason, projectReason, batchReason };
+}
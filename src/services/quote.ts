@@ -0,0 +1,320 @@
+/**
+ * Firm retirement quotes.
+ *
+ * A quote freezes the output of order selection — which sell orders fill,
+ * at what ask, for what total — under an ID that expires after
+ * REGEN_QUOTE_TTL_SECONDS. executeRetirement() can then be called with the
+ * quote ID and a cost bound: the quoted orders are re-checked against fresh
+ * chain state, and a retirement only goes ahead if it still costs no more
+ * than the bound. Otherwise the caller gets a fresh quote instead.
+ */
+
+import { loadConfig } from "../config.js";
+import {
+  getDb,
+  generateQuoteId,
+  createQuoteRow,
+  getQuoteRow,
+  claimQuoteRow,
+  releaseQuoteRow,
+  markQuoteExecuted,
+  type QuoteRow,
+} from "../server/db.js";
+import { invalidateCache } from "./cache.js";
+import { listSellOrders } from "./ledger.js";
+import { parseUnits, divide } from "./decimal.js";
+import { getPolicyScreen } from "./procurement-policy.js";
+import type { DenomRate } from "./price-oracle.js";
+import { parseStrategies, STRATEGY_SYNTAX, type SelectionStrategy } from "./selection-strategy.js";
+import {
+  parseCreditScope,
+  selectOrdersForScope,
+  describeCreditScope,
+  type OrderSelection,
+  type SelectedOrder,
+} from "./order-selector.js";
+
+export interface Quote {
+  id: string;
+  userId: number | null;
+  creditClass: string | null;
+  quantity: number;
+  orders: SelectedOrder[];
+  totalCostMicro: bigint;
+  paymentDenom: string;
+  displayDenom: string;
+  exponent: number;
+  /** USD value of the fill at `rates`; null when no rate covered its denom */
+  costUsd: number | null;
+  /** USD rates the quoted fill was compared with */
+  rates: DenomRate[];
+  /** Selection strategy specs the fill was made with; a re-quote uses them too */
+  strategies: string[];
+  status: "open" | "executing" | "executed";
+  txHash: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** Bounds a quoted retirement may execute within */
+export interface QuoteBounds {
+  /** Maximum total cost in the quote's display denom (e.g. 12.5 REGEN) */
+  maxCost?: number;
+  /** Allowed increase over the quoted total, in percent; 0 when no bound is given */
+  maxSlippagePct?: number;
+  /** Maximum USD value of the fill at the rates it was priced with */
+  maxCostUsd?: number;
+}
+
+/** What to quote: a credit scope, a quantity, and how to choose the orders */
+export interface QuoteRequest {
+  creditClass?: string;
+  quantity: number;
+  userId?: number;
+  /** Selection strategy specs, e.g. ["newest_vintage", "max_batch_pct:40"] */
+  strategies?: string[];
+}
+
+export type QuoteResolution =
+  | { ok: true; quote: Quote; selection: OrderSelection; requoted: boolean }
+  | { ok: false; message: string; requote: Quote | null };
+
+export class QuoteError extends Error {
+  constructor(
+    message: string,
+    public code: "INVALID_REQUEST" | "NO_SUPPLY"
+  ) {
+    super(message);
+    this.name = "QuoteError";
+  }
+}
+
+function fromRow(row: QuoteRow): Quote {
+  const orders = JSON.parse(row.orders) as Array<Omit<SelectedOrder, "costMicro"> & { costMicro: string }>;
+  return {
+    id: row.id,
+    userId: row.user_id,
+    creditClass: row.credit_class,
+    quantity: row.quantity,
+    orders: orders.map((o) => ({ ...o, costMicro: BigInt(o.costMicro) })),
+    totalCostMicro: BigInt(row.total_cost_micro),
+    paymentDenom: row.payment_denom,
+    displayDenom: row.display_denom,
+    exponent: row.exponent,
+    costUsd: row.cost_usd,
+    rates: JSON.parse(row.rates) as DenomRate[],
+    strategies: JSON.parse(row.strategies) as string[],
+    status: row.status,
+    txHash: row.tx_hash,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+export function toSelection(quote: Quote): OrderSelection {
+  return {
+    orders: quote.orders,
+    totalQuantity: quote.quantity.toFixed(6),
+    totalCostMicro: quote.totalCostMicro,
+    paymentDenom: quote.paymentDenom,
+    displayDenom: quote.displayDenom,
+    exponent: quote.exponent,
+    insufficientSupply: false,
+    costUsd: quote.costUsd ?? undefined,
+    rates: quote.rates,
+  };
+}
+
+function storeQuote(
+  selection: OrderSelection,
+  request: QuoteRequest,
+  dbPath?: string
+): Quote {
+  const config = loadConfig();
+  const db = getDb(dbPath ?? config.dbPath);
+  const row = createQuoteRow(db, {
+    id: generateQuoteId(),
+    user_id: request.userId ?? null,
+    credit_class: request.creditClass ?? null,
+    quantity: request.quantity,
+    orders: JSON.stringify(selection.orders.map((o) => ({ ...o, costMicro: o.costMicro.toString() }))),
+    total_cost_micro: selection.totalCostMicro.toString(),
+    payment_denom: selection.paymentDenom,
+    display_denom: selection.displayDenom,
+    exponent: selection.exponent,
+    cost_usd: selection.costUsd ?? null,
+    rates: JSON.stringify(selection.rates ?? []),
+    strategies: JSON.stringify(request.strategies ?? []),
+    expires_at: new Date(Date.now() + config.quoteTtlSeconds * 1000).toISOString(),
+  });
+  return fromRow(row);
+}
+
+function strategiesOf(specs: string[]): SelectionStrategy[] {
+  const { strategies, invalid } = parseStrategies(specs);
+  if (invalid !== undefined) {
+    throw new QuoteError(`Unrecognised selection strategy "${invalid}". Use ${STRATEGY_SYNTAX}.`, "INVALID_REQUEST");
+  }
+  return strategies;
+}
+
+/**
+ * Select orders for a retirement and store them as a quote. Throws a
+ * QuoteError when the request is invalid or the book can't fill it.
+ */
+export async function createQuote(request: QuoteRequest, dbPath?: string): Promise<Quote> {
+  const scope = request.creditClass ? parseCreditScope(request.creditClass) : {};
+  if (!scope) {
+    throw new QuoteError(`Unrecognised credit_class "${request.creditClass}"`, "INVALID_REQUEST");
+  }
+  const strategies = strategiesOf(request.strategies ?? []);
+
+  const selection = await selectOrdersForScope(scope, request.quantity, undefined, { strategies });
+  if (selection.orders.length === 0 || selection.insufficientSupply) {
+    throw new QuoteError(
+      `Only ${parseFloat(selection.totalQuantity).toFixed(4)} ${describeCreditScope(scope)} are available ` +
+      `from sell orders (requested ${request.quantity}).`,
+      "NO_SUPPLY"
+    );
+  }
+
+  return storeQuote(selection, request, dbPath);
+}
+
+export function getQuote(id: string, dbPath?: string): Quote | null {
+  const row = getQuoteRow(getDb(dbPath ?? loadConfig().dbPath), id);
+  return row ? fromRow(row) : null;
+}
+
+export function isQuoteExpired(quote: Quote, now = new Date()): boolean {
+  return new Date(quote.expiresAt) <= now;
+}
+
+/** Highest total cost (micro-units) a quoted retirement may execute at */
+export function maxCostMicro(quote: Quote, bounds: QuoteBounds): bigint {
+  if (bounds.maxCost !== undefined) {
+    return parseUnits(bounds.maxCost, quote.exponent);
+  }
+  // Percent with 4 decimals, e.g. 2.5% → 25_000 parts per million
+  const ppm = parseUnits(bounds.maxSlippagePct ?? 0, 4);
+  return divide(quote.totalCostMicro * (1_000_000n + ppm), 1_000_000n, "floor");
+}
+
+/** Whether a fill for `quote` costs no more than the bounds allow */
+function withinBounds(quote: Quote, selection: OrderSelection, bounds: QuoteBounds): boolean {
+  if (selection.paymentDenom !== quote.paymentDenom || selection.totalCostMicro > maxCostMicro(quote, bounds)) {
+    return false;
+  }
+  if (bounds.maxCostUsd === undefined) return true;
+  return selection.costUsd !== undefined && selection.costUsd <= bounds.maxCostUsd;
+}
+
+/**
+ * Why the quoted orders can no longer be filled as quoted, or null when
+ * every one is still listed at its quoted ask with enough quantity and the
+ * procurement policy still allows it.
+ */
+async function quotedOrdersChanged(quote: Quote): Promise<string | null> {
+  // Check against the chain, not a cached book
+  invalidateCache("sell_orders");
+  const [orders, screen] = await Promise.all([listSellOrders(), getPolicyScreen()]);
+  const current = new Map(orders.map((o) => [o.id, o]));
+  const now = new Date();
+
+  for (const quoted of quote.orders) {
+    const blockReason = screen?.batchReason(quoted.batchDenom);
+    if (blockReason) return `the procurement policy now excludes sell order ${quoted.sellOrderId} (${blockReason})`;
+
+    const order = current.get(quoted.sellOrderId);
+    if (!order) return `sell order ${quoted.sellOrderId} has been filled or cancelled`;
+    if (order.ask_denom !== quoted.askDenom || order.ask_amount !== quoted.askAmount) {
+      return `sell order ${quoted.sellOrderId} changed its ask`;
+    }
+    // Quoted quantities are written with every digit of their credit type's precision
+    const precision = quoted.quantity.split(".")[1]?.length ?? 0;
+    if (parseUnits(order.quantity, precision) < parseUnits(quoted.quantity, precision)) {
+      return `sell order ${quoted.sellOrderId} has only ${order.quantity} credits left`;
+    }
+    if (order.expiration && new Date(order.expiration) <= now) {
+      return `sell order ${quoted.sellOrderId} has expired`;
+    }
+  }
+  return null;
+}
+
+function requestOf(quote: Quote): QuoteRequest {
+  return {
+    creditClass: quote.creditClass ?? undefined,
+    quantity: quote.quantity,
+    userId: quote.userId ?? undefined,
+    strategies: quote.strategies,
+  };
+}
+
+/**
+ * Decide what a retirement against `quote` should buy. Unchanged quoted
+ * orders are used as-is and a fresh selection if the book moved, either
+ * only when it fits the bounds. Expired, used, or out-of-bounds quotes are rejected
+ * with a fresh quote the caller can accept instead.
+ */
+export async function resolveQuote(quote: Quote, bounds: QuoteBounds = {}, dbPath?: string): Promise<QuoteResolution> {
+  if (quote.status === "executing") {
+    return { ok: false, message: `Quote ${quote.id} is already being executed by another retirement.`, requote: null };
+  }
+  if (quote.status !== "open") {
+    return { ok: false, message: `Quote ${quote.id} was already executed (tx ${quote.txHash}).`, requote: null };
+  }
+
+  if (isQuoteExpired(quote)) {
+    const requote = await createQuote(requestOf(quote), dbPath).catch(() => null);
+    return { ok: false, message: `Quote ${quote.id} expired at ${quote.expiresAt}.`, requote };
+  }
+
+  const changed = await quotedOrdersChanged(quote);
+  if (!changed) {
+    const selection = toSelection(quote);
+    if (withinBounds(quote, selection, bounds)) return { ok: true, quote, selection, requoted: false };
+    const requote = await createQuote(requestOf(quote), dbPath).catch(() => null);
+    return { ok: false, message: `Quote ${quote.id} costs more than the allowed maximum.`, requote };
+  }
+
+  const scope = quote.creditClass ? parseCreditScope(quote.creditClass) ?? {} : {};
+  const selection = await selectOrdersForScope(scope, quote.quantity, undefined, {
+    strategies: strategiesOf(quote.strategies),
+  });
+  if (selection.orders.length === 0 || selection.insufficientSupply) {
+    return {
+      ok: false,
+      message: `The order book moved since quote ${quote.id} (${changed}) and can no longer fill ${quote.quantity} credits.`,
+      requote: null,
+    };
+  }
+  if (withinBounds(quote, selection, bounds)) {
+    return { ok: true, quote, selection, requoted: true };
+  }
+
+  return {
+    ok: false,
+    message: `The order book moved since quote ${quote.id} (${changed}) and filling it now costs more than the allowed maximum.`,
+    requote: storeQuote(selection, requestOf(quote), dbPath),
+  };
+}
+
+/**
+ * Hold a quote for one retirement before paying for it, so two concurrent
+ * retirements can't both execute it. Returns false when it is already held
+ * or executed; release it with releaseQuote() if the retirement fails.
+ */
+export function claimQuote(quoteId: string, dbPath?: string): boolean {
+  return claimQuoteRow(getDb(dbPath ?? loadConfig().dbPath), quoteId);
+}
+
+/** Reopen a claimed quote after its retirement failed; no-op once executed */
+export function releaseQuote(quoteId: string, dbPath?: string): void {
+  releaseQuoteRow(getDb(dbPath ?? loadConfig().dbPath), quoteId);
+}
+
+/** Record that a quote was executed; returns false if it had already been used */
+export function completeQuote(quoteId: string, txHash: string, dbPath?: string): boolean {
+  return markQuoteExecuted(getDb(dbPath ?? loadConfig().dbPath), quoteId, txHash);
+}
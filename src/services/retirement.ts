@@ -6,23 +6,123 @@
  */
 
 import { loadConfig, isWalletConfigured } from "../config.js";
-import { initWallet, signAndBroadcast } from "./wallet.js";
-import { selectBestOrders } from "./order-selector.js";
+import { initWallet, signAndBroadcast, getBalance, simulateFee, type FeeEstimate } from "./wallet.js";
+import { invalidateMarketData } from "./cache.js";
+import {
+  selectOrdersForScope,
+  scopeClassIds,
+  type OrderSelection,
+  type SelectedOrder,
+  parseCreditScope,
+  describeCreditScope,
+  explainNoEligibleOrders,
+  describeBlocked,
+  selectionCents,
+  type CreditScope,
+  type BlockedOrder,
+} from "./order-selector.js";
+import { selectWalletCredits, type WalletCreditFilter } from "./holdings.js";
+import {
+  planInventoryRetirement,
+  retireFromInventory,
+  inventoryRetireMessage,
+  consumeInventoryForBatches,
+  inventoryCostCents,
+  formatTreasuryCost,
+} from "./treasury.js";
+import { planBasketRetirement, executeBasketTake, basketTakeMessages } from "./basket.js";
+import { getQuote, resolveQuote, claimQuote, releaseQuote, completeQuote, type Quote } from "./quote.js";
+import { parseStrategies, STRATEGY_SYNTAX } from "./selection-strategy.js";
+import {
+  getPolicyScreen,
+  describeBlockedBatches,
+  type BlockedBatch,
+  type PolicyScreen,
+} from "./procurement-policy.js";
 import { waitForRetirement } from "./indexer.js";
+import { formatUnits, parseUnits } from "./decimal.js";
+import type { DenomRate } from "./price-oracle.js";
 import { CryptoPaymentProvider } from "./payment/crypto.js";
 import { StripePaymentProvider } from "./payment/stripe-stub.js";
 import type { PaymentProvider } from "./payment/types.js";
 
+/**
+ * Where retired credits come from: bought from sell orders, the wallet's own
+ * balance, taken from a basket, or (reported only) the treasury inventory
+ * that serves "market" requests when REGEN_TREASURY=true
+ */
+export type RetirementSource = "market" | "wallet" | "basket" | "treasury";
+
 export interface RetirementParams {
+  /**
+   * What to retire: a credit type ("carbon", "C", "BT"), class ID ("C01"),
+   * project ID ("C01-001") or batch denom, matched exactly
+   */
   creditClass?: string;
+  /** Restrict order selection to these credit class IDs (e.g. ["C01", "C03"]) */
+  allowedClasses?: string[];
   quantity?: number;
   beneficiaryName?: string;
   jurisdiction?: string;
   reason?: string;
+  /**
+   * Defaults to "wallet" when batchDenom is set, "basket" when basketDenom
+   * is set, otherwise "market" (MsgBuyDirect with auto-retire)
+   */
+  source?: RetirementSource;
+  /** Retire the wallet's credits from this batch instead of choosing automatically */
+  batchDenom?: string;
+  /** Take from this basket (e.g. "eco.uC.NCT") instead of choosing by credit type */
+  basketDenom?: string;
+  /** Plan and simulate the transaction, but don't pay or broadcast */
+  dryRun?: boolean;
+  /**
+   * Execute against a quote from createQuote(); its credit class and
+   * quantity replace the ones given here
+   */
+  quoteId?: string;
+  /** Reject the purchase if it costs more than this, in the payment denom (e.g. 12.5 REGEN) */
+  maxCost?: number;
+  /** Reject the purchase if its USD value at the price oracle's rates is more than this */
+  maxCostUsd?: number;
+  /** With quoteId: allowed cost increase over the quote, in percent (default 0) */
+  maxSlippagePct?: number;
+  /**
+   * Sell order selection strategies for market purchases, e.g.
+   * ["newest_vintage", "max_batch_pct:40"] (see selection-strategy.ts)
+   */
+  strategy?: string[];
+}
+
+/** What a dry run would have broadcast, with the simulated fee */
+export interface RetirementPreview {
+  /** Sell orders that would fill (market purchases and basket routes) */
+  orders: Array<{
+    sellOrderId: string;
+    batchDenom: string;
+    quantity: string;
+    askAmount: string;
+    askDenom: string;
+    cost: string;
+    /** Why order selection chose it */
+    reason?: string;
+  }>;
+  /** Type URLs of the messages in the transaction */
+  messages: string[];
+  gasUsed: number | null;
+  gasLimit: number | null;
+  /** Network fee, e.g. "0.0125 REGEN"; null when the simulation failed */
+  fee: string | null;
+  simulationError?: string;
+  /** Wallet balance against what the transaction spends, per denom */
+  balances: Array<{ denom: string; available: string; required: string; sufficient: boolean }>;
+  /** True when the wallet covers the purchase and the fee */
+  balanceSufficient: boolean;
 }
 
 export interface RetirementResult {
-  status: "success" | "marketplace_fallback";
+  status: "success" | "dry_run" | "quote_rejected" | "marketplace_fallback";
+  source?: RetirementSource;
   txHash?: string;
   creditsRetired?: string;
   cost?: string;
@@ -31,6 +131,26 @@ export interface RetirementResult {
   marketplaceUrl?: string;
   message?: string;
   remainingBalanceCents?: number;
+  /**
+   * Credits retired per batch (for basket takes, the expected oldest-first
+   * draw); market purchases say why each order was chosen
+   */
+  batches?: Array<{ batchDenom: string; quantity: string; reason?: string }>;
+  basketDenom?: string;
+  /** USD value of the purchase, when the fill was priced across denoms */
+  costUsd?: number;
+  /** USD conversion rates the fill was chosen with */
+  rates?: DenomRate[];
+  /** Sell orders the procurement policy kept out of the fill, with the reason */
+  blocked?: BlockedOrder[];
+  /** Held batches (wallet balance, treasury lots, basket contents) the procurement policy kept out */
+  blockedBatches?: BlockedBatch[];
+  /** Set when status is "dry_run" */
+  preview?: RetirementPreview;
+  /** Quote the retirement executed against (or rejected) */
+  quoteId?: string;
+  /** Fresh quote offered when status is "quote_rejected" */
+  requote?: Quote;
   jurisdiction?: string;
   reason?: string;
   beneficiaryName?: string;
@@ -103,14 +223,7 @@ export function formatAmount(
   exponent: number,
   displayDenom: string
 ): string {
-  const divisor = 10 ** exponent;
-  const whole = amountMicro / BigInt(divisor);
-  const frac = amountMicro % BigInt(divisor);
-  const fracStr = frac.toString().padStart(exponent, "0").replace(/0+$/, "");
-  if (fracStr) {
-    return `${whole}.${fracStr} ${displayDenom}`;
-  }
-  return `${whole} ${displayDenom}`;
+  return `${formatUnits(amountMicro, exponent)} ${displayDenom}`;
 }
 
 function fallback(message: string, params: RetirementParams): RetirementResult {
@@ -122,13 +235,420 @@ function fallback(message: string, params: RetirementParams): RetirementResult {
   };
 }
 
+/** Holdings filter (wallet balance or treasury inventory) for a retirement, screened by the policy */
+function holdingsFilter(scope: CreditScope, params: RetirementParams, screen: PolicyScreen | null): WalletCreditFilter {
+  return {
+    creditType: scope.creditType,
+    creditTypeAbbrev: scope.creditTypeAbbrev,
+    classIds: scopeClassIds(scope, params.allowedClasses),
+    projectId: scope.projectId,
+    batchDenom: params.batchDenom ?? scope.batchDenom,
+    batchReason: screen?.batchReason,
+  };
+}
+
+interface Spend {
+  micro: bigint;
+  bankDenom: string;
+  displayDenom: string;
+  exponent: number;
+}
+
+function feeSpend(estimate: FeeEstimate): Spend {
+  const micro = BigInt(estimate.fee.amount);
+  return estimate.fee.denom === "uregen"
+    ? { micro, bankDenom: "uregen", displayDenom: "REGEN", exponent: 6 }
+    : { micro, bankDenom: estimate.fee.denom, displayDenom: estimate.fee.denom, exponent: 0 };
+}
+
+/**
+ * Dry run: simulate the transaction a retirement would broadcast and check
+ * the wallet covers the purchase (`spend`) plus the network fee.
+ */
+async function previewRetirement(
+  messages: Array<{ typeUrl: string; value: unknown }>,
+  spend: Spend | null,
+  orders: SelectedOrder[],
+  result: Omit<RetirementResult, "status" | "preview">
+): Promise<RetirementResult> {
+  let estimate: FeeEstimate | null = null;
+  let simulationError: string | undefined;
+  try {
+    estimate = await simulateFee(messages);
+  } catch (err) {
+    simulationError = err instanceof Error ? err.message : String(err);
+  }
+
+  const required = new Map<string, Spend>();
+  for (const s of [spend, estimate ? feeSpend(estimate) : null]) {
+    if (!s || s.micro === 0n) continue;
+    const entry = required.get(s.bankDenom);
+    required.set(s.bankDenom, entry ? { ...entry, micro: entry.micro + s.micro } : s);
+  }
+  const balances = await Promise.all(
+    [...required.values()].map(async (r) => {
+      const available = await getBalance(r.bankDenom);
+      return {
+        denom: r.displayDenom,
+        available: formatAmount(available, r.exponent, r.displayDenom),
+        required: formatAmount(r.micro, r.exponent, r.displayDenom),
+        sufficient: available >= r.micro,
+      };
+    })
+  );
+
+  const fee = estimate ? feeSpend(estimate) : null;
+  return {
+    ...result,
+    status: "dry_run",
+    preview: {
+      orders: orders.map((o) => ({
+        sellOrderId: o.sellOrderId,
+        batchDenom: o.batchDenom,
+        quantity: o.quantity,
+        askAmount: o.askAmount,
+        askDenom: o.askDenom,
+        cost: spend ? formatAmount(o.costMicro, spend.exponent, spend.displayDenom) : o.costMicro.toString(),
+        ...(o.reason ? { reason: o.reason } : {}),
+      })),
+      messages: messages.map((m) => m.typeUrl),
+      gasUsed: estimate?.gasUsed ?? null,
+      gasLimit: estimate?.gasLimit ?? null,
+      fee: fee ? formatAmount(fee.micro, fee.exponent, fee.displayDenom) : null,
+      ...(simulationError ? { simulationError } : {}),
+      balances,
+      balanceSufficient: balances.every((b) => b.sufficient),
+    },
+  };
+}
+
+/**
+ * Retire tradable credits the wallet already holds with MsgRetire. No
+ * payment is taken: the credits were paid for when they were acquired.
+ */
+async function retireFromWallet(
+  address: string,
+  scope: CreditScope,
+  params: RetirementParams,
+  jurisdiction: string,
+  reason: string,
+  quantity: number
+): Promise<RetirementResult> {
+  const filter = holdingsFilter(scope, params, await getPolicyScreen());
+  const selection = await selectWalletCredits(address, quantity, filter);
+
+  if (selection.insufficientBalance) {
+    const available = parseFloat(selection.availableQuantity);
+    const target = filter.batchDenom || params.creditClass
+      ? ` of ${describeCreditScope({ ...scope, batchDenom: filter.batchDenom })}`
+      : "";
+    const policyNote = selection.blocked.length > 0 ? ` ${describeBlockedBatches(selection.blocked)}.` : "";
+    return {
+      ...fallback(
+        `The wallet holds only ${available.toFixed(4)} tradable credits${target} (requested ${quantity}).${policyNote} ` +
+        `Retire a smaller quantity, or buy from sell orders instead.`,
+        params
+      ),
+      blockedBatches: selection.blocked,
+    };
+  }
+
+  const msg = {
+    typeUrl: "/regen.ecocredit.v1.MsgRetire",
+    value: {
+      owner: address,
+      credits: selection.credits,
+      jurisdiction,
+      reason,
+    },
+  };
+
+  if (params.dryRun) {
+    return previewRetirement([msg], null, [], {
+      source: "wallet",
+      creditsRetired: selection.totalQuantity,
+      batches: selection.credits.map((c) => ({ batchDenom: c.batchDenom, quantity: c.amount })),
+      blockedBatches: selection.blocked,
+      jurisdiction,
+      reason,
+      beneficiaryName: params.beneficiaryName,
+    });
+  }
+
+  let txResult;
+  try {
+    txResult = await signAndBroadcast([msg]);
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    return fallback(`Transaction broadcast failed: ${errMsg}`, params);
+  }
+
+  if (txResult.code !== 0) {
+    return fallback(
+      `Transaction rejected (code ${txResult.code}): ${txResult.rawLog || "unknown error"}`,
+      params
+    );
+  }
+
+  // Balances and batch supply changed
+  invalidateMarketData();
+
+  // Credits retired from the wallet may have been treasury inventory
+  if (loadConfig().treasuryEnabled) {
+    try {
+      consumeInventoryForBatches(selection.credits, txResult.transactionHash);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`[treasury] failed to update inventory after wallet retirement: ${msg}`);
+    }
+  }
+
+  const retirement = await waitForRetirement(txResult.transactionHash);
+
+  return {
+    status: "success",
+    source: "wallet",
+    txHash: txResult.transactionHash,
+    creditsRetired: selection.totalQuantity,
+    blockHeight: txResult.height,
+    certificateId: retirement?.nodeId,
+    batches: selection.credits.map((c) => ({ batchDenom: c.batchDenom, quantity: c.amount })),
+    blockedBatches: selection.blocked,
+    jurisdiction,
+    reason,
+    beneficiaryName: params.beneficiaryName,
+  };
+}
+
+/**
+ * Serve a retirement from treasury inventory (credits bought in bulk and
+ * held tradable). Returns null when the inventory cannot cover it, so the
+ * order book is used instead. Prepaid balances are charged the cost basis.
+ */
+async function retireFromTreasury(
+  address: string,
+  scope: CreditScope,
+  params: RetirementParams,
+  jurisdiction: string,
+  reason: string,
+  quantity: number
+): Promise<RetirementResult | null> {
+  const plan = planInventoryRetirement(quantity, holdingsFilter(scope, params, await getPolicyScreen()));
+  if (!plan) return null;
+
+  const config = loadConfig();
+  const usePrepaid = !!(config.balanceApiKey && config.balanceUrl);
+  // Prepaid balances are charged the cost basis at today's USD rates
+  const costCents = usePrepaid ? await inventoryCostCents(plan.costs) : 0;
+  if (usePrepaid) {
+    // Let the market path report the shortfall with its own pricing
+    const balance = await checkPrepaidBalance();
+    if (!balance || !balance.available || balance.balance_cents < costCents) return null;
+  }
+
+  if (params.dryRun) {
+    const msg = inventoryRetireMessage(address, plan, jurisdiction, reason);
+    return previewRetirement([msg], null, [], {
+      source: "treasury",
+      creditsRetired: formatUnits(plan.quantity, plan.precision, plan.precision),
+      cost: formatTreasuryCost(plan.costs),
+      batches: msg.value.credits.map((c) => ({ batchDenom: c.batchDenom, quantity: c.amount })),
+      blockedBatches: plan.blocked,
+      jurisdiction,
+      reason,
+      beneficiaryName: params.beneficiaryName,
+    });
+  }
+
+  const retirement = await retireFromInventory(address, plan, jurisdiction, reason);
+
+  const result: RetirementResult = {
+    status: "success",
+    source: "treasury",
+    txHash: retirement.txHash,
+    creditsRetired: retirement.totalQuantity,
+    cost: formatTreasuryCost(retirement.costs),
+    blockHeight: retirement.blockHeight,
+    batches: retirement.credits.map((c) => ({ batchDenom: c.batchDenom, quantity: c.amount })),
+    blockedBatches: plan.blocked,
+    jurisdiction,
+    reason,
+    beneficiaryName: params.beneficiaryName,
+  };
+
+  if (usePrepaid) {
+    await debitPrepaidBalance(
+      costCents,
+      `Retired ${retirement.totalQuantity} credits from treasury (${params.creditClass || "mixed"})`,
+      retirement.txHash,
+      params.creditClass,
+      parseFloat(retirement.totalQuantity)
+    );
+    const remaining = await checkPrepaidBalance();
+    if (remaining) result.remainingBalanceCents = remaining.balance_cents;
+  }
+
+  return result;
+}
+
+/**
+ * Take credits from a basket with retire-on-take, paying with the wallet's
+ * basket tokens and buying the rest through REGEN_BASKET_ROUTES. Prepaid
+ * balances are charged for the purchased part only.
+ */
+async function retireFromBasket(
+  address: string,
+  scope: CreditScope,
+  params: RetirementParams,
+  jurisdiction: string,
+  reason: string,
+  quantity: number
+): Promise<RetirementResult> {
+  if (scope.classId) {
+    return fallback(
+      `Basket takes retire the basket's oldest credits, so ${describeCreditScope(scope)} can't be chosen. ` +
+      `Use a credit type (C, BT) or basket_denom instead.`,
+      params
+    );
+  }
+
+  const planned = await planBasketRetirement(quantity, {
+    basketDenom: params.basketDenom,
+    creditType: scope.creditType,
+    creditTypeAbbrev: scope.creditTypeAbbrev,
+  });
+  if (!planned.plan) return { ...fallback(planned.message, params), blockedBatches: planned.blocked };
+  const { plan } = planned;
+
+  const config = loadConfig();
+  const purchase = plan.purchase;
+  const usePrepaid = !!(purchase && config.balanceApiKey && config.balanceUrl);
+  const costCents = usePrepaid && purchase ? selectionCents(purchase) : 0;
+  const displayCost = purchase
+    ? formatAmount(purchase.totalCostMicro, purchase.exponent, purchase.displayDenom)
+    : undefined;
+  if (usePrepaid) {
+    const balance = await checkPrepaidBalance();
+    if (!balance || !balance.available || balance.balance_cents < costCents) {
+      const balanceStr = balance ? `$${(balance.balance_cents / 100).toFixed(2)}` : "$0.00";
+      return fallback(`Insufficient prepaid balance. Need ${displayCost} but balance is ${balanceStr}.`, params);
+    }
+  }
+
+  if (params.dryRun) {
+    return previewRetirement(
+      basketTakeMessages(address, plan, jurisdiction, reason),
+      purchase
+        ? {
+            micro: purchase.totalCostMicro,
+            bankDenom: purchase.paymentDenom,
+            displayDenom: purchase.displayDenom,
+            exponent: purchase.exponent,
+          }
+        : null,
+      purchase?.orders ?? [],
+      {
+        source: "basket",
+        basketDenom: plan.basket.basket_denom,
+        creditsRetired: quantity.toFixed(6),
+        cost: displayCost,
+        batches: plan.batches,
+        blocked: purchase?.blocked,
+        jurisdiction,
+        reason,
+        beneficiaryName: params.beneficiaryName,
+      }
+    );
+  }
+
+  let take;
+  try {
+    take = await executeBasketTake(address, plan, jurisdiction, reason);
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    return fallback(`Transaction failed: ${errMsg}`, params);
+  }
+
+  if (usePrepaid) {
+    await debitPrepaidBalance(
+      costCents,
+      `Retired ${quantity.toFixed(6)} credits from basket ${plan.basket.basket_denom}`,
+      take.txHash,
+      params.creditClass,
+      quantity
+    );
+  }
+
+  const retirement = await waitForRetirement(take.txHash);
+
+  const result: RetirementResult = {
+    status: "success",
+    source: "basket",
+    basketDenom: plan.basket.basket_denom,
+    txHash: take.txHash,
+    creditsRetired: quantity.toFixed(6),
+    cost: displayCost,
+    blockHeight: take.blockHeight,
+    certificateId: retirement?.nodeId,
+    batches: plan.batches,
+    blocked: purchase?.blocked,
+    jurisdiction,
+    reason,
+    beneficiaryName: params.beneficiaryName,
+  };
+
+  if (usePrepaid) {
+    const remaining = await checkPrepaidBalance();
+    if (remaining) result.remainingBalanceCents = remaining.balance_cents;
+  }
+
+  return result;
+}
+
 /**
  * Execute a credit retirement. Returns a structured result that both
  * the MCP tool (markdown) and REST API (JSON) can consume.
  */
 export async function executeRetirement(params: RetirementParams): Promise<RetirementResult> {
+  let quote: Quote | null = null;
+  if (params.quoteId) {
+    quote = getQuote(params.quoteId);
+    if (!quote) {
+      return {
+        status: "quote_rejected",
+        quoteId: params.quoteId,
+        message: `Quote ${params.quoteId} not found. Use get_retirement_quote to request one.`,
+        beneficiaryName: params.beneficiaryName,
+      };
+    }
+    // A quote fixes what is bought: market orders for its class, quantity and strategies
+    params = {
+      ...params,
+      creditClass: quote.creditClass ?? undefined,
+      quantity: quote.quantity,
+      source: "market",
+      batchDenom: undefined,
+      basketDenom: undefined,
+      strategy: quote.strategies,
+    };
+  }
+
   const { creditClass, beneficiaryName } = params;
 
+  const scope = creditClass ? parseCreditScope(creditClass) : {};
+  if (!scope) {
+    return fallback(
+      `Unrecognised credit_class "${creditClass}". Use a credit type (C, BT), class ID (C01), ` +
+      `project ID (C01-001) or batch denom (C01-001-20150101-20151231-001).`,
+      params
+    );
+  }
+
+  const { strategies, invalid } = parseStrategies(params.strategy ?? []);
+  if (invalid !== undefined) {
+    return fallback(`Unrecognised selection strategy "${invalid}". Use ${STRATEGY_SYNTAX}.`, params);
+  }
+
   // Path A: No wallet -> marketplace link
   if (!isWalletConfigured()) {
     const balance = await checkPrepaidBalance();
@@ -150,28 +670,97 @@ export async function executeRetirement(params: RetirementParams): Promise<Retir
   const retireReason = params.reason || "Regenerative contribution via Regen for AI";
   const retireQuantity = params.quantity || 1;
 
+  let claimedQuoteId: string | undefined;
   try {
     const { address } = await initWallet();
 
-    const selection = await selectBestOrders(
-      creditClass ? (creditClass.startsWith("C") ? "carbon" : "biodiversity") : undefined,
-      retireQuantity
-    );
+    const source = params.source ?? (params.batchDenom ? "wallet" : params.basketDenom ? "basket" : "market");
+    if (source === "basket") {
+      return await retireFromBasket(address, scope, params, retireJurisdiction, retireReason, retireQuantity);
+    }
+    if (source === "wallet") {
+      return await retireFromWallet(address, scope, params, retireJurisdiction, retireReason, retireQuantity);
+    }
+
+    // Inventory is held at its own cost basis, not at the book's asks, so a
+    // cost bound or order selection strategy can only be honoured by the market
+    const bounded = params.maxCost !== undefined || params.maxCostUsd !== undefined;
+    if (config.treasuryEnabled && !quote && !bounded && strategies.length === 0) {
+      const fromTreasury = await retireFromTreasury(address, scope, params, retireJurisdiction, retireReason, retireQuantity);
+      if (fromTreasury) return fromTreasury;
+    }
+
+    let selection: OrderSelection;
+    if (quote) {
+      const resolution = await resolveQuote(quote, {
+        maxCost: params.maxCost,
+        maxSlippagePct: params.maxSlippagePct,
+        maxCostUsd: params.maxCostUsd,
+      });
+      if (!resolution.ok) {
+        return {
+          status: "quote_rejected",
+          quoteId: quote.id,
+          message: resolution.message,
+          requote: resolution.requote ?? undefined,
+          beneficiaryName,
+        };
+      }
+      selection = resolution.selection;
+    } else {
+      selection = await selectOrdersForScope(scope, retireQuantity, params.allowedClasses, {
+        balanceOf: getBalance,
+        strategies,
+      });
+    }
 
+    const policyNote = selection.blocked?.length ? ` ${describeBlocked(selection.blocked)}.` : "";
     if (selection.orders.length === 0) {
-      return fallback("No matching sell orders found on-chain. Try the marketplace instead.", params);
+      // Say why the project/batch the user picked can't be bought directly
+      const explanation = scope.classId
+        ? await explainNoEligibleOrders(scope).catch(() => `No matching sell orders found on-chain.${policyNote}`)
+        : `No matching sell orders found on-chain.${policyNote}`;
+      return fallback(`${explanation} Try the marketplace instead.`, params);
     }
 
     if (selection.insufficientSupply) {
       const available = parseFloat(selection.totalQuantity);
+      const target = scope.classId ? ` for ${describeCreditScope(scope)}` : "";
       return fallback(
-        `Only ${available.toFixed(4)} credits available on-chain (requested ${retireQuantity}). ` +
+        `Only ${available.toFixed(4)} credits available on-chain${target} (requested ${retireQuantity}).${policyNote} ` +
         `You can try a smaller quantity or use the marketplace.`,
         params
       );
     }
 
-    const costCents = Number(selection.totalCostMicro / BigInt(10 ** (selection.exponent - 2)));
+    if (!quote && params.maxCost !== undefined) {
+      const limit = parseUnits(params.maxCost, selection.exponent);
+      if (selection.totalCostMicro > limit) {
+        const displayCost = formatAmount(selection.totalCostMicro, selection.exponent, selection.displayDenom);
+        return fallback(
+          `Buying ${selection.totalQuantity} credits costs ${displayCost}, above the maximum of ${params.maxCost} ${selection.displayDenom}.`,
+          params
+        );
+      }
+    }
+
+    if (params.maxCostUsd !== undefined) {
+      if (selection.costUsd === undefined) {
+        return fallback(
+          `Can't convert ${selection.displayDenom} asks to USD to check the maximum of $${params.maxCostUsd.toFixed(2)}.`,
+          params
+        );
+      }
+      if (selection.costUsd > params.maxCostUsd) {
+        return fallback(
+          `Buying ${selection.totalQuantity} credits costs $${selection.costUsd.toFixed(2)}, ` +
+          `above the maximum of $${params.maxCostUsd.toFixed(2)}.`,
+          params
+        );
+      }
+    }
+
+    const costCents = usePrepaid ? selectionCents(selection) : 0;
     if (usePrepaid) {
       const balance = await checkPrepaidBalance();
       if (!balance || !balance.available || balance.balance_cents < costCents) {
@@ -185,21 +774,6 @@ export async function executeRetirement(params: RetirementParams): Promise<Retir
       }
     }
 
-    const provider = getPaymentProvider();
-    const auth = await provider.authorizePayment(
-      selection.totalCostMicro,
-      selection.paymentDenom,
-      { buyer: address, creditClass: creditClass || "any" }
-    );
-
-    if (auth.status === "failed") {
-      const displayCost = formatAmount(selection.totalCostMicro, selection.exponent, selection.displayDenom);
-      return fallback(
-        auth.message || `Insufficient wallet balance. Need ${displayCost} to purchase ${retireQuantity} credits.`,
-        params
-      );
-    }
-
     const buyOrders = selection.orders.map((order) => ({
       sellOrderId: BigInt(order.sellOrderId),
       quantity: order.quantity,
@@ -220,23 +794,85 @@ export async function executeRetirement(params: RetirementParams): Promise<Retir
       },
     };
 
+    if (params.dryRun) {
+      return previewRetirement(
+        [msg],
+        {
+          micro: selection.totalCostMicro,
+          bankDenom: selection.paymentDenom,
+          displayDenom: selection.displayDenom,
+          exponent: selection.exponent,
+        },
+        selection.orders,
+        {
+          source: "market",
+          creditsRetired: selection.totalQuantity,
+          cost: formatAmount(selection.totalCostMicro, selection.exponent, selection.displayDenom),
+          batches: selection.orders.map((o) => ({ batchDenom: o.batchDenom, quantity: o.quantity, reason: o.reason })),
+          costUsd: selection.costUsd,
+          rates: selection.rates,
+          blocked: selection.blocked,
+          quoteId: quote?.id,
+          jurisdiction: retireJurisdiction,
+          reason: retireReason,
+          beneficiaryName,
+        }
+      );
+    }
+
+    // Hold the quote so a concurrent retirement can't pay for it too
+    if (quote) {
+      if (!claimQuote(quote.id)) {
+        return {
+          status: "quote_rejected",
+          quoteId: quote.id,
+          message: `Quote ${quote.id} is already being executed or was executed by another retirement.`,
+          beneficiaryName,
+        };
+      }
+      claimedQuoteId = quote.id;
+    }
+
+    const provider = getPaymentProvider();
+    const auth = await provider.authorizePayment(
+      selection.totalCostMicro,
+      selection.paymentDenom,
+      { buyer: address, creditClass: creditClass || "any" }
+    );
+
+    if (auth.status === "failed") {
+      if (claimedQuoteId) releaseQuote(claimedQuoteId);
+      const displayCost = formatAmount(selection.totalCostMicro, selection.exponent, selection.displayDenom);
+      return fallback(
+        auth.message || `Insufficient wallet balance. Need ${displayCost} to purchase ${retireQuantity} credits.`,
+        params
+      );
+    }
+
     let txResult;
     try {
       txResult = await signAndBroadcast([msg]);
     } catch (err) {
       try { await provider.refundPayment(auth.id); } catch { /* ignore */ }
+      if (claimedQuoteId) releaseQuote(claimedQuoteId);
       const errMsg = err instanceof Error ? err.message : String(err);
       return fallback(`Transaction broadcast failed: ${errMsg}`, params);
     }
 
     if (txResult.code !== 0) {
       try { await provider.refundPayment(auth.id); } catch { /* ignore */ }
+      if (claimedQuoteId) releaseQuote(claimedQuoteId);
       return fallback(
         `Transaction rejected (code ${txResult.code}): ${txResult.rawLog || "unknown error"}`,
         params
       );
     }
 
+    // The purchase consumed sell order quantity; don't route the next one from stale data
+    invalidateMarketData();
+
+    if (quote) completeQuote(quote.id, txResult.transactionHash);
+
     await provider.capturePayment(auth.id);
 
     if (usePrepaid) {
@@ -255,10 +891,16 @@ export async function executeRetirement(params: RetirementParams): Promise<Retir
 
     const result: RetirementResult = {
       status: "success",
+      source: "market",
       txHash: txResult.transactionHash,
       creditsRetired: selection.totalQuantity,
       cost: displayCost,
       blockHeight: txResult.height,
+      batches: selection.orders.map((o) => ({ batchDenom: o.batchDenom, quantity: o.quantity, reason: o.reason })),
+      costUsd: selection.costUsd,
+      rates: selection.rates,
+      blocked: selection.blocked,
+      quoteId: quote?.id,
       jurisdiction: retireJurisdiction,
       reason: retireReason,
       beneficiaryName,
@@ -277,6 +919,8 @@ export async function executeRetirement(params: RetirementParams): Promise<Retir
 
     return result;
   } catch (err) {
+    // Releasing is a no-op once the quote was marked executed
+    if (claimedQuoteId) releaseQuote(claimedQuoteId);
     const errMsg = err instanceof Error ? err.message : String(err);
     return fallback(`Direct retirement failed: ${errMsg}`, params);
   }
@@ -0,0 +1,197 @@
+/**
+ * Sell order selection strategies.
+ *
+ * selectBestOrders fills a quantity greedily from a ranked list of sell
+ * orders. A strategy shapes that fill by ranking orders (compare), capping
+ * how much one order may contribute (limit), or both. Strategies apply in
+ * the order given: ["newest_vintage", "max_batch_pct:40"] ranks by vintage
+ * and caps every batch, and the cheapest ask breaks any remaining tie.
+ *
+ * Strategies are named by short specs so the MCP tools, the REST API and
+ * environment variables can select them:
+ *
+ *   cheapest                     lowest ask first (the default)
+ *   newest_vintage               most recent batch start date first
+ *   prefer_jurisdictions:US/BR   projects in these jurisdictions first
+ *   min_projects:3               spread the fill over at least 3 projects
+ *   max_batch_pct:40             no batch supplies more than 40% of the fill
+ */
+
+import type { SellOrder } from "./ledger.js";
+import { divide, parseUnits } from "./decimal.js";
+
+/** Accepted spec forms, for error messages */
+export const STRATEGY_SYNTAX =
+  "cheapest, newest_vintage, prefer_jurisdictions:US/BR, min_projects:N or max_batch_pct:P";
+
+/** A sell order as strategies see it */
+export interface Candidate {
+  order: SellOrder;
+  projectId: string;
+  /** Batch start date as YYYYMMDD */
+  vintageStart: string;
+  /** Project jurisdiction (e.g. "US-CA"); null when unknown */
+  jurisdiction: string | null;
+  /** Ask per whole credit, in base units of the payment denom */
+  pricePerCredit: bigint;
+}
+
+/** What the fill has taken so far, in its credit units */
+export interface FillState {
+  requested: bigint;
+  takenByBatch: Map<string, bigint>;
+  takenByProject: Map<string, bigint>;
+}
+
+export interface SelectionStrategy {
+  /** The spec it was parsed from, e.g. "max_batch_pct:40" */
+  name: string;
+  /** Needs project jurisdictions on each candidate */
+  usesJurisdiction?: boolean;
+  /** Negative when a should fill before b, 0 when this strategy has no preference */
+  compare?(a: Candidate, b: Candidate): number;
+  /** Most of a candidate the fill may still take */
+  limit?(candidate: Candidate, fill: FillState): bigint;
+  /**
+   * Why the candidate was taken as it was, or null when this strategy had no
+   * say; `capped` is true when this strategy's limit bounded the take
+   */
+  explain(candidate: Candidate, capped: boolean, formatPrice: (amount: bigint) => string): string | null;
+}
+
+export function cheapestFirst(): SelectionStrategy {
+  return {
+    name: "cheapest",
+    compare: (a, b) => (a.pricePerCredit < b.pricePerCredit ? -1 : a.pricePerCredit > b.pricePerCredit ? 1 : 0),
+    explain: (c, _capped, formatPrice) => `cheapest ask (${formatPrice(c.pricePerCredit)} per credit)`,
+  };
+}
+
+export function newestVintageFirst(): SelectionStrategy {
+  return {
+    name: "newest_vintage",
+    compare: (a, b) => b.vintageStart.localeCompare(a.vintageStart),
+    explain: (c) => {
+      const v = c.vintageStart;
+      return `newest vintage (starts ${v.slice(0, 4)}-${v.slice(4, 6)}-${v.slice(6, 8)})`;
+    },
+  };
+}
+
+/**
+ * Projects in the given jurisdictions first. A country code also matches
+ * its subdivisions ("US" matches "US-CA").
+ */
+export function preferJurisdictions(codes: string[]): SelectionStrategy {
+  const preferred = (c: Candidate): boolean =>
+    !!c.jurisdiction && codes.some((code) => c.jurisdiction === code || c.jurisdiction!.startsWith(`${code}-`));
+  return {
+    name: `prefer_jurisdictions:${codes.join("/")}`,
+    usesJurisdiction: true,
+    compare: (a, b) => Number(preferred(b)) - Number(preferred(a)),
+    explain: (c) =>
+      preferred(c)
+        ? `project in ${c.jurisdiction}, a preferred jurisdiction`
+        : `not enough supply in ${codes.join(", ")} (project in ${c.jurisdiction ?? "an unknown jurisdiction"})`,
+  };
+}
+
+/**
+ * Spread the fill over at least `count` projects by capping each project at
+ * 1/count of the requested quantity. With too few projects listed the fill
+ * comes up short rather than breaking the cap.
+ */
+export function diversifyProjects(count: number): SelectionStrategy {
+  return {
+    name: `min_projects:${count}`,
+    limit: (c, fill) =>
+      divide(fill.requested, BigInt(count), "ceil") - (fill.takenByProject.get(c.projectId) ?? 0n),
+    explain: (c, capped) =>
+      capped ? `capped at 1/${count} of the fill for project ${c.projectId} to spread it over ${count} projects` : null,
+  };
+}
+
+/** No batch supplies more than `pct` percent of the requested quantity */
+export function capBatchShare(pct: string): SelectionStrategy {
+  const hundredths = parseUnits(pct, 2);
+  return {
+    name: `max_batch_pct:${pct}`,
+    limit: (c, fill) =>
+      divide(fill.requested * hundredths, 10_000n, "floor") - (fill.takenByBatch.get(c.order.batch_denom) ?? 0n),
+    explain: (_c, capped) => (capped ? `capped at ${pct}% of the fill for this batch` : null),
+  };
+}
+
+const JURISDICTION_RE = /^[A-Z]{2}(-[A-Z0-9]{1,3})?$/;
+
+/** Returns null when the spec is not a recognisable strategy */
+export function parseStrategy(spec: string): SelectionStrategy | null {
+  const trimmed = spec.trim();
+  const colon = trimmed.indexOf(":");
+  const name = (colon === -1 ? trimmed : trimmed.slice(0, colon)).toLowerCase();
+  const arg = colon === -1 ? "" : trimmed.slice(colon + 1).trim();
+
+  switch (name) {
+    case "cheapest":
+      return arg ? null : cheapestFirst();
+    case "newest_vintage":
+      return arg ? null : newestVintageFirst();
+    case "prefer_jurisdictions": {
+      const codes = arg.split("/").map((c) => c.trim().toUpperCase()).filter(Boolean);
+      return codes.length > 0 && codes.every((c) => JURISDICTION_RE.test(c)) ? preferJurisdictions(codes) : null;
+    }
+    case "min_projects": {
+      const count = /^\d+$/.test(arg) ? parseInt(arg, 10) : 0;
+      return count >= 1 ? diversifyProjects(count) : null;
+    }
+    case "max_batch_pct": {
+      const pct = /^\d+(\.\d{1,2})?$/.test(arg) ? parseFloat(arg) : 0;
+      return pct > 0 && pct <= 100 ? capBatchShare(arg) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Parse every spec; `invalid` is the first one that isn't a strategy */
+export function parseStrategies(specs: string[]): { strategies: SelectionStrategy[]; invalid?: string } {
+  const strategies: SelectionStrategy[] = [];
+  for (const spec of specs) {
+    const strategy = parseStrategy(spec);
+    if (!strategy) return { strategies, invalid: spec };
+    strategies.push(strategy);
+  }
+  return { strategies };
+}
+
+/** Ranks candidates by each strategy in turn, then by the cheapest ask */
+export function compareCandidates(strategies: SelectionStrategy[]): (a: Candidate, b: Candidate) => number {
+  const chain = [...strategies.filter((s) => s.compare), cheapestFirst()];
+  return (a, b) => {
+    for (const strategy of chain) {
+      const order = strategy.compare!(a, b);
+      if (order !== 0) return order;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Why a candidate was taken: every strategy's reason in order, and its ask
+ * when no strategy already gave it.
+ */
+export function explainTake(
+  candidate: Candidate,
+  strategies: SelectionStrategy[],
+  cappedBy: SelectionStrategy | undefined,
+  formatPrice: (amount: bigint) => string
+): string {
+  const active = strategies.length > 0 ? strategies : [cheapestFirst()];
+  const reasons = active
+    .map((s) => s.explain(candidate, s === cappedBy, formatPrice))
+    .filter((r): r is string => r !== null);
+  if (!active.some((s) => s.name === "cheapest")) {
+    reasons.push(`ask ${formatPrice(candidate.pricePerCredit)} per credit`);
+  }
+  return reasons.join("; ");
+}
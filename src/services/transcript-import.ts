@@ -0,0 +1,194 @@
+/**
+ * Import footprints from AI assistant transcript logs.
+ *
+ * Reads JSONL session logs from a file or directory, picks a parser for each
+ * file (explicitly via `format`, or by detection), and turns every session
+ * into a token-based footprint estimate using its real duration, tool-call
+ * count, and per-model token usage. Estimates are recorded in the local
+ * footprint ledger keyed by session ID, so importing the same logs twice
+ * does not double count.
+ */
+
+import { readFileSync, readdirSync, statSync } from "fs";
+import { join } from "path";
+import { estimateFootprint, type FootprintEstimate } from "./estimator.js";
+import { recordEstimate } from "./footprint-ledger.js";
+import { loadConfig } from "../config.js";
+import { ClaudeCodeTranscriptParser } from "./transcripts/claude-code.js";
+import type { ParsedSession, TranscriptParser } from "./transcripts/types.js";
+
+const parsers: TranscriptParser[] = [new ClaudeCodeTranscriptParser()];
+
+/** Register an additional transcript format. Later registrations take precedence in detection. */
+export function registerTranscriptParser(parser: TranscriptParser): void {
+  parsers.unshift(parser);
+}
+
+export function listTranscriptParsers(): TranscriptParser[] {
+  return [...parsers];
+}
+
+export interface TranscriptImportOptions {
+  /** Parser name to use for every file; detected per file when omitted */
+  format?: string;
+  /** Ledger project tag; defaults to the project recorded in each session */
+  projectTag?: string;
+  region?: string;
+  /** Estimate without writing to the ledger */
+  dryRun?: boolean;
+}
+
+export interface ImportedSession {
+  file: string;
+  parser: string;
+  session: ParsedSession;
+  estimate: FootprintEstimate;
+  recorded: boolean;
+}
+
+export interface TranscriptImportResult {
+  filesScanned: number;
+  filesSkipped: string[];
+  sessions: ImportedSession[];
+  totals: {
+    activeMinutes: number;
+    toolCalls: number;
+    energyKwh: number;
+    co2Kg: number;
+    recorded: number;
+  };
+}
+
+function collectFiles(path: string): string[] {
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path, { recursive: true, encoding: "utf8" })
+    .filter((f) => f.endsWith(".jsonl"))
+    .map((f) => join(path, f))
+    .sort();
+}
+
+/** Decode JSONL, skipping blank and malformed lines (logs may be mid-write). */
+function readJsonl(file: string): unknown[] {
+  const records: unknown[] = [];
+  for (const line of readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // ignore partial lines
+    }
+  }
+  return records;
+}
+
+function pickParser(records: unknown[], format?: string): TranscriptParser | undefined {
+  if (format) {
+    const parser = parsers.find((p) => p.name === format);
+    if (!parser) {
+      throw new Error(
+        `Unknown transcript format "${format}". Supported: ${parsers.map((p) => p.name).join(", ")}`
+      );
+    }
+    return parser;
+  }
+  return parsers.find((p) => p.detect(records));
+}
+
+export function importTranscripts(path: string, options: TranscriptImportOptions = {}): TranscriptImportResult {
+  const config = loadConfig();
+  const files = collectFiles(path);
+  const result: TranscriptImportResult = {
+    filesScanned: files.length,
+    filesSkipped: [],
+    sessions: [],
+    totals: { activeMinutes: 0, toolCalls: 0, energyKwh: 0, co2Kg: 0, recorded: 0 },
+  };
+
+  for (const file of files) {
+    const records = readJsonl(file);
+    const parser = pickParser(records, options.format);
+    if (!parser) {
+      result.filesSkipped.push(file);
+      continue;
+    }
+
+    for (const session of parser.parse(records, file)) {
+      const estimate = estimateFootprint(session.activeMinutes, session.toolCalls, {
+        usage: session.usage,
+        region: options.region ?? config.footprintRegion,
+        includeEmbodied: config.footprintIncludeEmbodied,
+        methodology: config.footprintMethodology,
+      });
+
+      const recorded = options.dryRun
+        ? false
+        : recordEstimate(estimate, {
+            projectTag: options.projectTag ?? session.project,
+            source: `transcript:${parser.name}`,
+            externalId: session.sessionId,
+            recordedAt: session.startedAt.slice(0, 19).replace("T", " "), // SQLite datetime format
+          }) !== null;
+
+      result.sessions.push({ file, parser: parser.name, session, estimate, recorded });
+      result.totals.activeMinutes += session.activeMinutes;
+      result.totals.toolCalls += session.toolCalls;
+      result.totals.energyKwh += estimate.energy_kwh;
+      result.totals.co2Kg += estimate.co2_kg;
+      if (recorded) result.totals.recorded++;
+    }
+  }
+
+  return result;
+}
+
+export function formatImportResult(result: TranscriptImportResult, dryRun = false): string {
+  const { totals } = result;
+  const lines: string[] = [
+    `## Transcript Footprint Import${dryRun ? " (DRY RUN)" : ""}`,
+    ``,
+    `Files scanned: ${result.filesScanned}, sessions found: ${result.sessions.length}`,
+    ``,
+  ];
+
+  if (result.sessions.length > 0) {
+    lines.push(
+      `| Started | Project | Active min | Tool calls | Tokens (in/out/cached) | Energy (kWh) | CO2 (kg) | Recorded |`,
+      `|---------|---------|------------|------------|------------------------|--------------|----------|----------|`
+    );
+    for (const { session, estimate, recorded } of result.sessions) {
+      const input = session.usage.reduce((s, u) => s + u.input_tokens, 0);
+      const output = session.usage.reduce((s, u) => s + u.output_tokens, 0);
+      const cached = session.usage.reduce((s, u) => s + (u.cached_tokens ?? 0), 0);
+      lines.push(
+        `| ${session.startedAt.slice(0, 16).replace("T", " ")} | ${session.project ?? "-"} | ${session.activeMinutes} | ${session.toolCalls} | ${input.toLocaleString()}/${output.toLocaleString()}/${cached.toLocaleString()} | ${estimate.energy_kwh} | ${estimate.co2_kg} | ${recorded ? "yes" : "no"} |`
+      );
+    }
+    lines.push(``);
+  }
+
+  lines.push(
+    `### Totals`,
+    `| Metric | Value |`,
+    `|--------|-------|`,
+    `| Active time | ${totals.activeMinutes.toFixed(1)} minutes |`,
+    `| Tool calls | ${totals.toolCalls} |`,
+    `| Energy | ${totals.energyKwh.toFixed(4)} kWh |`,
+    `| CO2 equivalent | ${totals.co2Kg.toFixed(3)} kg |`,
+    `| Recorded in ledger | ${totals.recorded} of ${result.sessions.length} |`,
+    ``
+  );
+
+  if (!dryRun && totals.recorded < result.sessions.length) {
+    lines.push(
+      `> Sessions not recorded were already imported earlier, or the ledger is disabled (REGEN_FOOTPRINT_LEDGER=false).`,
+      ``
+    );
+  }
+  if (result.filesSkipped.length > 0) {
+    lines.push(
+      `Skipped ${result.filesSkipped.length} file(s) in an unrecognised format. Supported: ${parsers.map((p) => p.name).join(", ")}.`
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,134 @@
+/**
+ * Claude Code transcript parser.
+ *
+ * Claude Code writes one JSONL file per session under
+ * ~/.claude/projects/<project-slug>/<session-id>.jsonl. Each line is a record
+ * with a `type` ("user", "assistant", "summary", ...), `timestamp`,
+ * `sessionId`, and `cwd`. Assistant records carry the API `message`, whose
+ * `usage` holds token counts and whose `content` holds `tool_use` blocks.
+ *
+ * A single API response is often split across several assistant records
+ * (one per content block) that repeat the same message id and usage, so
+ * usage is counted once per message id.
+ */
+
+import { basename } from "path";
+import type { ModelTokenUsage } from "../estimator.js";
+import type { ParsedSession, TranscriptParser } from "./types.js";
+
+// Gaps between records longer than this are treated as idle time
+const IDLE_GAP_MINUTES = 30;
+
+interface ClaudeCodeRecord {
+  type?: string;
+  timestamp?: string;
+  sessionId?: string;
+  cwd?: string;
+  message?: {
+    id?: string;
+    model?: string;
+    content?: unknown;
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+      cache_creation_input_tokens?: number;
+      cache_read_input_tokens?: number;
+    };
+  };
+}
+
+function isRecord(value: unknown): value is ClaudeCodeRecord {
+  return typeof value === "object" && value !== null;
+}
+
+/** Sum the gaps between consecutive timestamps, skipping idle gaps. */
+function activeMinutes(timestamps: number[]): number {
+  let total = 0;
+  for (let i = 1; i < timestamps.length; i++) {
+    const gap = (timestamps[i] - timestamps[i - 1]) / 60_000;
+    if (gap > 0 && gap <= IDLE_GAP_MINUTES) total += gap;
+  }
+  return Math.round(total * 10) / 10;
+}
+
+export class ClaudeCodeTranscriptParser implements TranscriptParser {
+  name = "claude-code";
+  description = "Claude Code project logs (~/.claude/projects/*/*.jsonl)";
+
+  detect(records: unknown[]): boolean {
+    return records.some(
+      (r) =>
+        isRecord(r) &&
+        typeof r.sessionId === "string" &&
+        (r.type === "user" || r.type === "assistant")
+    );
+  }
+
+  parse(records: unknown[], _filePath: string): ParsedSession[] {
+    const bySession = new Map<string, ClaudeCodeRecord[]>();
+    for (const r of records) {
+      if (!isRecord(r) || typeof r.sessionId !== "string") continue;
+      if (r.type !== "user" && r.type !== "assistant") continue;
+      const list = bySession.get(r.sessionId) ?? [];
+      list.push(r);
+      bySession.set(r.sessionId, list);
+    }
+
+    const sessions: ParsedSession[] = [];
+    for (const [sessionId, entries] of bySession) {
+      const timestamps = entries
+        .map((e) => (e.timestamp ? Date.parse(e.timestamp) : NaN))
+        .filter((t) => !Number.isNaN(t))
+        .sort((a, b) => a - b);
+      if (timestamps.length === 0) continue;
+
+      const usageByModel = new Map<string, ModelTokenUsage>();
+      const seenMessages = new Set<string>();
+      let toolCalls = 0;
+      let project: string | undefined;
+
+      for (const e of entries) {
+        if (!project && e.cwd) project = basename(e.cwd);
+        if (e.type !== "assistant" || !e.message) continue;
+
+        if (Array.isArray(e.message.content)) {
+          toolCalls += e.message.content.filter(
+            (block) => isRecord(block) && (block as { type?: string }).type === "tool_use"
+          ).length;
+        }
+
+        const usage = e.message.usage;
+        const model = e.message.model;
+        if (!usage || !model || model === "<synthetic>") continue;
+        if (e.message.id) {
+          if (seenMessages.has(e.message.id)) continue;
+          seenMessages.add(e.message.id);
+        }
+
+        const totals = usageByModel.get(model) ?? {
+          model,
+          input_tokens: 0,
+          output_tokens: 0,
+          cached_tokens: 0,
+        };
+        // Cache writes are processed like ordinary prompt tokens; cache reads are cheap
+        totals.input_tokens += (usage.input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0);
+        totals.output_tokens += usage.output_tokens ?? 0;
+        totals.cached_tokens = (totals.cached_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0);
+        usageByModel.set(model, totals);
+      }
+
+      sessions.push({
+        sessionId,
+        project,
+        startedAt: new Date(timestamps[0]).toISOString(),
+        endedAt: new Date(timestamps[timestamps.length - 1]).toISOString(),
+        activeMinutes: activeMinutes(timestamps),
+        toolCalls,
+        usage: [...usageByModel.values()],
+      });
+    }
+
+    return sessions;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Transcript parser interface for importing footprints from assistant logs.
+ *
+ * Each AI assistant writes its own session log format. A parser recognises
+ * one format from the decoded JSONL records of a file and turns them into
+ * sessions with real durations, tool-call counts, and per-model token usage.
+ * Parsers are registered in transcript-import.ts; add a new assistant by
+ * implementing this interface there.
+ */
+
+import type { ModelTokenUsage } from "../estimator.js";
+
+export interface ParsedSession {
+  /** Session identifier from the log, stable across re-imports */
+  sessionId: string;
+  /** Working directory or project the session ran in, when the log records it */
+  project?: string;
+  /** ISO 8601 timestamps of the first and last record */
+  startedAt: string;
+  endedAt: string;
+  /** Active minutes, with long idle gaps removed */
+  activeMinutes: number;
+  toolCalls: number;
+  usage: ModelTokenUsage[];
+}
+
+export interface TranscriptParser {
+  /** Short identifier used with --format, e.g. "claude-code" */
+  name: string;
+  description: string;
+
+  /** True when the decoded records look like this parser's format. */
+  detect(records: unknown[]): boolean;
+
+  /** Extract sessions from one file's records. */
+  parse(records: unknown[], filePath: string): ParsedSession[];
+}
@@ -0,0 +1,591 @@
+/**
+ * Treasury inventory: pre-purchased credits for instant retirements.
+ *
+ * Instead of buying from the live order book on every retirement, the
+ * operator buys credits in bulk with auto-retire disabled (`treasury buy`),
+ * so they sit in the wallet as tradable credits. Each purchase is tracked
+ * as a lot in SQLite with its cost basis. With REGEN_TREASURY=true,
+ * executeRetirement() serves retirements from these lots first (oldest
+ * first) with a single MsgRetire and no order routing or indexer wait,
+ * falling back to the order book when the inventory cannot cover a request.
+ *
+ * Reorder rules (REGEN_TREASURY_REORDER="carbon=10:100,C02=5:50") refill a
+ * credit type or class back to its target once inventory drops below the
+ * threshold; `treasury reorder` applies them and `treasury report` shows
+ * inventory, cost basis per batch, and reorder status.
+ */
+
+import { loadConfig, isWalletConfigured } from "../config.js";
+import {
+  getDb,
+  createTreasuryLot,
+  getTreasuryLots,
+  getOpenTreasuryLots,
+  consumeTreasuryLot,
+  type TreasuryLot,
+} from "../server/db.js";
+import { initWallet, signAndBroadcast, getBalance } from "./wallet.js";
+import { invalidateMarketData } from "./cache.js";
+import { selectAcrossDenoms, type SelectedOrder } from "./order-selector.js";
+import { getAllowedDenoms, listCreditClasses, listCreditTypes, type CreditType } from "./ledger.js";
+import { getUsdRates, usdRateFor } from "./price-oracle.js";
+import type { BlockedBatch } from "./procurement-policy.js";
+import {
+  DEFAULT_CREDIT_PRECISION,
+  parseUnits,
+  formatUnits,
+  unitsToNumber,
+  rescale,
+  divide,
+  tokenUnitsToCents,
+} from "./decimal.js";
+
+export interface TreasuryFilter {
+  /** "carbon" or "biodiversity" */
+  creditType?: string;
+  /** Credit type abbreviation, e.g. "C" or "BT" */
+  creditTypeAbbrev?: string;
+  classIds?: string[];
+  /** e.g. "C01-001" */
+  projectId?: string;
+  batchDenom?: string;
+  /** Why the procurement policy blocks a batch (null when allowed); its lots are skipped */
+  batchReason?: (batchDenom: string) => string | null;
+}
+
+export interface InventoryAllocation {
+  lotId: number;
+  batchDenom: string;
+  /** Credits taken from the lot, in units of 10^-precision credits */
+  quantity: bigint;
+  /** The lot's credit precision */
+  precision: number;
+  costMicro: bigint;
+  costDenom: string;
+  costExponent: number;
+}
+
+export interface InventoryPurchase {
+  status: "purchased" | "planned" | "failed";
+  txHash?: string;
+  orders: SelectedOrder[];
+  totalQuantity: string;
+  costMicro: bigint;
+  costDenom: string;
+  costExponent: number;
+  error?: string;
+}
+
+export interface InventoryPlan {
+  /** Credits to retire, in units of 10^-precision credits */
+  quantity: bigint;
+  /** Decimal places of `quantity`, enough for every lot's precision */
+  precision: number;
+  allocations: InventoryAllocation[];
+  /** Allocated cost basis, per display denom */
+  costs: Array<{ denom: string; exponent: number; micro: bigint }>;
+  /** Matching batches the procurement policy kept out of the allocation */
+  blocked: BlockedBatch[];
+}
+
+export interface TreasuryRetirement {
+  txHash: string;
+  blockHeight: number;
+  credits: Array<{ batchDenom: string; amount: string }>;
+  totalQuantity: string;
+  /** Allocated cost basis, per display denom */
+  costs: Array<{ denom: string; exponent: number; micro: bigint }>;
+}
+
+export interface BatchInventory {
+  batchDenom: string;
+  creditClass: string;
+  /** Decimal places of the batch's credit type */
+  precision: number;
+  /** Credit quantities in units of 10^-precision credits */
+  purchased: bigint;
+  onHand: bigint;
+  retired: bigint;
+  /** Cost basis of the credits still on hand, per display denom */
+  costBasis: Array<{ denom: string; exponent: number; remainingMicro: bigint; avgPerCreditMicro: bigint }>;
+}
+
+export interface ReorderStatus {
+  key: string;
+  threshold: number;
+  target: number;
+  /** Credits on hand, in units of 10^-precision credits */
+  onHand: bigint;
+  precision: number;
+  belowThreshold: boolean;
+}
+
+export interface ReorderResult extends ReorderStatus {
+  purchase?: InventoryPurchase;
+}
+
+export interface InventoryReport {
+  batches: BatchInventory[];
+  reorders: ReorderStatus[];
+}
+
+/** "C01" → "C", "BT01" → "BT" */
+function creditTypeAbbrev(classId: string): string {
+  return classId.match(/^([A-Z]+)/)?.[1] ?? "";
+}
+
+function matchesFilter(lot: Pick<TreasuryLot, "batch_denom" | "credit_class">, filter: TreasuryFilter): boolean {
+  if (filter.batchDenom) return lot.batch_denom === filter.batchDenom;
+  if (filter.classIds && !filter.classIds.includes(lot.credit_class)) return false;
+  if (filter.projectId && !lot.batch_denom.startsWith(`${filter.projectId}-`)) return false;
+  const abbrev = creditTypeAbbrev(lot.credit_class);
+  if (filter.creditTypeAbbrev && abbrev !== filter.creditTypeAbbrev) return false;
+  if (filter.creditType === "carbon" && abbrev !== "C") return false;
+  if (filter.creditType === "biodiversity" && abbrev === "C") return false;
+  return true;
+}
+
+/** Reorder rule keys are credit types ("carbon", "biodiversity") or class IDs */
+function ruleFilter(key: string): TreasuryFilter {
+  return key === "carbon" || key === "biodiversity" ? { creditType: key } : { classIds: [key] };
+}
+
+/** Decimal places that hold every lot's quantities exactly, for sums across lots */
+function inventoryScale(lots: TreasuryLot[]): number {
+  return Math.max(DEFAULT_CREDIT_PRECISION, ...lots.map((lot) => lot.credit_precision));
+}
+
+function formatCredits(units: bigint, precision: number): string {
+  return formatUnits(units, precision, precision);
+}
+
+/** Decimal places of each credit class's credit type, for recording lots */
+async function classPrecisions(): Promise<(classId: string) => number> {
+  const [classes, creditTypes] = await Promise.all([
+    listCreditClasses(),
+    // Every credit type has 6 decimals today, so a registry outage shouldn't block a purchase
+    listCreditTypes().catch((): CreditType[] => []),
+  ]);
+  const classType = new Map(classes.map((cls) => [cls.id, cls.credit_type_abbrev]));
+  const typePrecision = new Map(creditTypes.map((t) => [t.abbreviation, t.precision]));
+  return (classId) => typePrecision.get(classType.get(classId) ?? "") ?? DEFAULT_CREDIT_PRECISION;
+}
+
+/** Share of a lot's purchase cost for `quantity` units of its credits, rounded down */
+function lotCost(lot: TreasuryLot, quantity: bigint): bigint {
+  const lotUnits = BigInt(lot.quantity_units);
+  if (lotUnits === 0n) return 0n;
+  return divide(BigInt(lot.cost_micro) * quantity, lotUnits, "floor");
+}
+
+/**
+ * Allocate `quantity` credits, in units of 10^-scale, from open lots, oldest
+ * purchase first. `scale` must cover every lot's precision. Pure: nothing is
+ * written until the retirement transaction lands.
+ */
+export function allocateFromInventory(
+  lots: TreasuryLot[],
+  quantity: bigint,
+  scale: number,
+  filter: TreasuryFilter = {}
+): { allocations: InventoryAllocation[]; available: bigint; insufficient: boolean; blocked: BlockedBatch[] } {
+  const blocked = new Map<string, string>();
+  const eligible = lots.filter((lot) => {
+    if (BigInt(lot.remaining_units) <= 0n || !matchesFilter(lot, filter)) return false;
+    const reason = filter.batchReason?.(lot.batch_denom);
+    if (reason) blocked.set(lot.batch_denom, reason);
+    return !reason;
+  });
+  const available = eligible.reduce(
+    (sum, lot) => sum + rescale(BigInt(lot.remaining_units), lot.credit_precision, scale, "floor"),
+    0n
+  );
+
+  let remaining = quantity;
+  const allocations: InventoryAllocation[] = [];
+  for (const lot of eligible) {
+    if (remaining <= 0n) break;
+    const lotRemaining = BigInt(lot.remaining_units);
+    // A lot hands out whole units of its own precision
+    const wanted = rescale(remaining, scale, lot.credit_precision, "ceil");
+    const take = wanted < lotRemaining ? wanted : lotRemaining;
+    allocations.push({
+      lotId: lot.id,
+      batchDenom: lot.batch_denom,
+      quantity: take,
+      precision: lot.credit_precision,
+      costMicro: lotCost(lot, take),
+      costDenom: lot.cost_denom,
+      costExponent: lot.cost_exponent,
+    });
+    remaining -= rescale(take, lot.credit_precision, scale, "floor");
+  }
+
+  return {
+    allocations,
+    available,
+    insufficient: remaining > 0n,
+    blocked: [...blocked].map(([batchDenom, reason]) => ({ batchDenom, reason })),
+  };
+}
+
+/**
+ * Buy credits into the treasury with MsgBuyDirect and auto-retire disabled,
+ * recording one lot per filled sell order.
+ */
+export async function buyInventory(
+  request: { quantity: number; creditType?: string; classIds?: string[]; dryRun?: boolean },
+  dbPath?: string
+): Promise<InventoryPurchase> {
+  const [selection, precisionOf] = await Promise.all([
+    selectAcrossDenoms(request.creditType, request.quantity, undefined, request.classIds, {
+      tradable: true,
+      balanceOf: isWalletConfigured() ? getBalance : undefined,
+    }),
+    classPrecisions(),
+  ]);
+  const purchase: InventoryPurchase = {
+    status: "planned",
+    orders: selection.orders,
+    totalQuantity: selection.totalQuantity,
+    costMicro: selection.totalCostMicro,
+    costDenom: selection.displayDenom,
+    costExponent: selection.exponent,
+  };
+
+  if (selection.orders.length === 0) {
+    return { ...purchase, status: "failed", error: "No sell orders allow buying tradable credits for this filter" };
+  }
+  if (request.dryRun) return purchase;
+
+  const { address } = await initWallet();
+  const msg = {
+    typeUrl: "/regen.ecocredit.marketplace.v1.MsgBuyDirect",
+    value: {
+      buyer: address,
+      orders: selection.orders.map((order) => ({
+        sellOrderId: BigInt(order.sellOrderId),
+        quantity: order.quantity,
+        bidPrice: { denom: order.askDenom, amount: order.askAmount },
+        disableAutoRetire: true,
+        retirementJurisdiction: "",
+        retirementReason: "",
+      })),
+    },
+  };
+
+  const txResult = await signAndBroadcast([msg]);
+  if (txResult.code !== 0) {
+    return {
+      ...purchase,
+      status: "failed",
+      error: `Transaction rejected (code ${txResult.code}): ${txResult.rawLog || "unknown error"}`,
+    };
+  }
+
+  invalidateMarketData();
+
+  const db = getDb(dbPath ?? loadConfig().dbPath);
+  db.transaction(() => {
+    for (const order of selection.orders) {
+      const creditClass = order.batchDenom.split("-")[0];
+      const precision = precisionOf(creditClass);
+      createTreasuryLot(db, {
+        batch_denom: order.batchDenom,
+        credit_class: creditClass,
+        quantity_units: parseUnits(order.quantity, precision).toString(),
+        credit_precision: precision,
+        cost_micro: order.costMicro.toString(),
+        cost_denom: selection.displayDenom,
+        cost_exponent: selection.exponent,
+        tx_hash: txResult.transactionHash,
+      });
+    }
+  })();
+
+  return { ...purchase, status: "purchased", txHash: txResult.transactionHash };
+}
+
+function sumCosts(allocations: InventoryAllocation[]): InventoryPlan["costs"] {
+  const byDenom = new Map<string, { denom: string; exponent: number; micro: bigint }>();
+  for (const a of allocations) {
+    const entry = byDenom.get(a.costDenom) ?? { denom: a.costDenom, exponent: a.costExponent, micro: 0n };
+    entry.micro += a.costMicro;
+    byDenom.set(a.costDenom, entry);
+  }
+  return [...byDenom.values()];
+}
+
+/**
+ * Plan a retirement of `quantity` credits from treasury lots. Returns null
+ * when the inventory cannot cover the request, so the caller can buy from
+ * the order book instead. Lots of batches the filter's batchReason blocks
+ * are left out.
+ */
+export function planInventoryRetirement(
+  quantity: number,
+  filter: TreasuryFilter,
+  dbPath?: string
+): InventoryPlan | null {
+  const db = getDb(dbPath ?? loadConfig().dbPath);
+  const lots = getOpenTreasuryLots(db);
+  const scale = inventoryScale(lots);
+  const units = parseUnits(quantity, scale);
+  const { allocations, insufficient, blocked } = allocateFromInventory(lots, units, scale, filter);
+  if (insufficient || allocations.length === 0) return null;
+  return { quantity: units, precision: scale, allocations, costs: sumCosts(allocations), blocked };
+}
+
+/**
+ * Cents a planned allocation's cost basis is worth at the price oracle's
+ * current rates, rounded up. Throws when a lot's denom has no USD rate and
+ * isn't a USD stablecoin.
+ */
+export async function inventoryCostCents(costs: InventoryPlan["costs"]): Promise<number> {
+  const allowed = await getAllowedDenoms();
+  const rates = await getUsdRates(allowed);
+  return costs.reduce((sum, c) => {
+    const bankDenom = allowed.find((d) => d.display_denom === c.denom)?.bank_denom ?? c.denom;
+    return sum + tokenUnitsToCents(c.micro, usdRateFor(rates, bankDenom, c.denom), c.exponent);
+  }, 0);
+}
+
+/** The MsgRetire for a planned allocation, one entry per batch */
+export function inventoryRetireMessage(address: string, plan: InventoryPlan, jurisdiction: string, reason: string) {
+  // Lots of one batch share its credit type's precision
+  const byBatch = new Map<string, { amount: bigint; precision: number }>();
+  for (const a of plan.allocations) {
+    const entry = byBatch.get(a.batchDenom) ?? { amount: 0n, precision: a.precision };
+    entry.amount += a.quantity;
+    byBatch.set(a.batchDenom, entry);
+  }
+  const credits = [...byBatch].map(([batchDenom, { amount, precision }]) => ({
+    batchDenom,
+    amount: formatCredits(amount, precision),
+  }));
+  return {
+    typeUrl: "/regen.ecocredit.v1.MsgRetire",
+    value: { owner: address, credits, jurisdiction, reason },
+  };
+}
+
+/**
+ * Retire a planned allocation with one MsgRetire and mark the lots consumed.
+ * Does not wait for the indexer.
+ */
+export async function retireFromInventory(
+  address: string,
+  plan: InventoryPlan,
+  jurisdiction: string,
+  reason: string,
+  dbPath?: string
+): Promise<TreasuryRetirement> {
+  const db = getDb(dbPath ?? loadConfig().dbPath);
+  const { allocations } = plan;
+  const msg = inventoryRetireMessage(address, plan, jurisdiction, reason);
+  const { credits } = msg.value;
+
+  const txResult = await signAndBroadcast([msg]);
+  if (txResult.code !== 0) {
+    throw new Error(`Treasury retirement rejected (code ${txResult.code}): ${txResult.rawLog || "unknown error"}`);
+  }
+
+  invalidateMarketData();
+  db.transaction(() => {
+    for (const a of allocations) {
+      consumeTreasuryLot(db, a.lotId, a.quantity, a.costMicro.toString(), txResult.transactionHash);
+    }
+  })();
+
+  for (const status of reorderStatuses(db)) {
+    if (status.belowThreshold) {
+      console.error(
+        `[treasury] ${status.key} inventory at ${formatCredits(status.onHand, status.precision)} (threshold ${status.threshold}); run \`regen-for-ai treasury reorder\``
+      );
+    }
+  }
+
+  return {
+    txHash: txResult.transactionHash,
+    blockHeight: txResult.height,
+    credits,
+    totalQuantity: formatCredits(plan.quantity, plan.precision),
+    costs: plan.costs,
+  };
+}
+
+/**
+ * Keep treasury lots in step with credits retired from the wallet outside
+ * the treasury path (retire_credits with source "wallet"), oldest lot first.
+ */
+export function consumeInventoryForBatches(
+  credits: Array<{ batchDenom: string; amount: string }>,
+  txHash: string,
+  dbPath?: string
+): void {
+  const db = getDb(dbPath ?? loadConfig().dbPath);
+  const lots = getOpenTreasuryLots(db);
+  const scale = inventoryScale(lots);
+  db.transaction(() => {
+    for (const credit of credits) {
+      const { allocations } = allocateFromInventory(lots, parseUnits(credit.amount, scale), scale, {
+        batchDenom: credit.batchDenom,
+      });
+      for (const a of allocations) consumeTreasuryLot(db, a.lotId, a.quantity, a.costMicro.toString(), txHash);
+    }
+  })();
+}
+
+function reorderStatuses(db: ReturnType<typeof getDb>): ReorderStatus[] {
+  const lots = getOpenTreasuryLots(db);
+  const scale = inventoryScale(lots);
+  return Object.entries(loadConfig().treasuryReorder).map(([key, rule]) => {
+    const filter = ruleFilter(key);
+    const onHand = lots
+      .filter((lot) => matchesFilter(lot, filter))
+      .reduce((sum, lot) => sum + rescale(BigInt(lot.remaining_units), lot.credit_precision, scale, "floor"), 0n);
+    return { key, ...rule, onHand, precision: scale, belowThreshold: onHand < parseUnits(rule.threshold, scale) };
+  });
+}
+
+/** Buy back up to target for every reorder rule whose inventory is below its threshold. */
+export async function checkReorders(options: { dryRun?: boolean; dbPath?: string } = {}): Promise<ReorderResult[]> {
+  const db = getDb(options.dbPath ?? loadConfig().dbPath);
+  const results: ReorderResult[] = [];
+  for (const status of reorderStatuses(db)) {
+    if (!status.belowThreshold) {
+      results.push(status);
+      continue;
+    }
+    const filter = ruleFilter(status.key);
+    try {
+      const purchase = await buyInventory(
+        {
+          quantity: unitsToNumber(parseUnits(status.target, status.precision) - status.onHand, status.precision),
+          ...filter,
+          dryRun: options.dryRun,
+        },
+        options.dbPath
+      );
+      results.push({ ...status, purchase });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      results.push({
+        ...status,
+        purchase: {
+          status: "failed",
+          orders: [],
+          totalQuantity: "0",
+          costMicro: 0n,
+          costDenom: "",
+          costExponent: 0,
+          error: msg,
+        },
+      });
+    }
+  }
+  return results;
+}
+
+export function buildInventoryReport(dbPath?: string): InventoryReport {
+  const db = getDb(dbPath ?? loadConfig().dbPath);
+  const byBatch = new Map<string, { inv: BatchInventory; lots: TreasuryLot[] }>();
+  for (const lot of getTreasuryLots(db)) {
+    const entry = byBatch.get(lot.batch_denom) ?? {
+      inv: {
+        batchDenom: lot.batch_denom,
+        creditClass: lot.credit_class,
+        precision: lot.credit_precision,
+        purchased: 0n,
+        onHand: 0n,
+        retired: 0n,
+        costBasis: [],
+      },
+      lots: [],
+    };
+    const quantity = BigInt(lot.quantity_units);
+    const remaining = BigInt(lot.remaining_units);
+    entry.inv.purchased += quantity;
+    entry.inv.onHand += remaining;
+    entry.inv.retired += quantity - remaining;
+    entry.lots.push(lot);
+    byBatch.set(lot.batch_denom, entry);
+  }
+
+  const batches = [...byBatch.values()].map(({ inv, lots }) => {
+    const byDenom = new Map<string, { denom: string; exponent: number; remainingMicro: bigint; onHand: bigint }>();
+    for (const lot of lots) {
+      const basis = byDenom.get(lot.cost_denom) ?? { denom: lot.cost_denom, exponent: lot.cost_exponent, remainingMicro: 0n, onHand: 0n };
+      const remaining = BigInt(lot.remaining_units);
+      basis.remainingMicro += lotCost(lot, remaining);
+      basis.onHand += remaining;
+      byDenom.set(lot.cost_denom, basis);
+    }
+    inv.costBasis = [...byDenom.values()].map((b) => ({
+      denom: b.denom,
+      exponent: b.exponent,
+      remainingMicro: b.remainingMicro,
+      avgPerCreditMicro: b.onHand > 0n ? divide(b.remainingMicro * 10n ** BigInt(inv.precision), b.onHand, "floor") : 0n,
+    }));
+    return inv;
+  });
+
+  return { batches, reorders: reorderStatuses(db) };
+}
+
+function formatMicro(micro: bigint, exponent: number, denom: string): string {
+  return `${formatUnits(micro, exponent)} ${denom}`;
+}
+
+export function formatTreasuryCost(costs: TreasuryRetirement["costs"]): string {
+  return costs.map((c) => formatMicro(c.micro, c.exponent, c.denom)).join(" + ") || "0";
+}
+
+export function formatInventoryReport(report: InventoryReport): string {
+  const lines: string[] = ["=== Treasury Inventory ==="];
+  if (report.batches.length === 0) {
+    lines.push("No treasury purchases recorded. Buy inventory with `regen-for-ai treasury buy <quantity>`.");
+  }
+  for (const b of report.batches) {
+    lines.push(``);
+    lines.push(`${b.batchDenom} (${b.creditClass})`);
+    lines.push(
+      `  On hand:   ${formatCredits(b.onHand, b.precision)} of ${formatCredits(b.purchased, b.precision)} purchased ` +
+      `(${formatCredits(b.retired, b.precision)} retired)`
+    );
+    for (const c of b.costBasis) {
+      lines.push(
+        `  Cost basis: ${formatMicro(c.remainingMicro, c.exponent, c.denom)} on hand, ` +
+        `${formatMicro(c.avgPerCreditMicro, c.exponent, c.denom)} per credit`
+      );
+    }
+  }
+
+  if (report.reorders.length > 0) {
+    lines.push(``);
+    lines.push(`=== Reorder Rules ===`);
+    for (const r of report.reorders) {
+      const flag = r.belowThreshold ? "BELOW THRESHOLD" : "ok";
+      lines.push(`  ${r.key}: ${formatCredits(r.onHand, r.precision)} on hand, reorder below ${r.threshold} up to ${r.target} — ${flag}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export function formatInventoryPurchase(purchase: InventoryPurchase): string {
+  if (purchase.status === "failed") return `purchase failed: ${purchase.error}`;
+  const cost = formatMicro(purchase.costMicro, purchase.costExponent, purchase.costDenom);
+  return purchase.status === "planned"
+    ? `would buy ${purchase.totalQuantity} credits for ${cost}`
+    : `bought ${purchase.totalQuantity} credits for ${cost} (tx ${purchase.txHash})`;
+}
+
+export function formatReorderResults(results: ReorderResult[]): string {
+  if (results.length === 0) return "No reorder rules configured (REGEN_TREASURY_REORDER).";
+  return results
+    .map((r) => {
+      const head = `${r.key}: ${formatCredits(r.onHand, r.precision)} on hand (threshold ${r.threshold}, target ${r.target})`;
+      return r.purchase ? `${head} — ${formatInventoryPurchase(r.purchase)}` : `${head} — no reorder needed`;
+    })
+    .join("\n");
+}
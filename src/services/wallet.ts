@@ -6,13 +6,23 @@
  */
 
 import { DirectSecp256k1HdWallet } from "@cosmjs/proto-signing";
-import { SigningStargateClient, defaultRegistryTypes, GasPrice, type DeliverTxResponse } from "@cosmjs/stargate";
+import {
+  SigningStargateClient,
+  defaultRegistryTypes,
+  GasPrice,
+  calculateFee,
+  type DeliverTxResponse,
+} from "@cosmjs/stargate";
 import { Registry } from "@cosmjs/proto-signing";
 import { AminoTypes } from "@cosmjs/stargate";
 import { regenProtoRegistry, regenAminoConverters } from "@regen-network/api";
 import { loadConfig } from "../config.js";
 import type { EncodeObject } from "@cosmjs/proto-signing";
 
+const GAS_PRICE = "0.025uregen";
+/** Multiplier cosmjs applies to simulated gas for "auto" fees */
+const GAS_ADJUSTMENT = 1.4;
+
 let _wallet: DirectSecp256k1HdWallet | undefined;
 let _client: SigningStargateClient | undefined;
 let _address: string | undefined;
@@ -47,7 +57,7 @@ export async function initWallet(): Promise<{ address: string; client: SigningSt
     {
       registry,
       aminoTypes,
-      gasPrice: GasPrice.fromString("0.025uregen"),
+      gasPrice: GasPrice.fromString(GAS_PRICE),
     }
   );
 
@@ -71,3 +81,24 @@ export async function signAndBroadcast(
   const { address, client } = await initWallet();
   return client.signAndBroadcast(address, messages, "auto");
 }
+
+export interface FeeEstimate {
+  /** Gas the simulation consumed */
+  gasUsed: number;
+  /** Gas limit signAndBroadcast would set ("auto" fee) */
+  gasLimit: number;
+  fee: { denom: string; amount: string };
+}
+
+/**
+ * Simulate `messages` against the chain without broadcasting and return the
+ * fee signAndBroadcast would pay. Throws if the simulation fails (e.g. the
+ * wallet can't afford the purchase).
+ */
+export async function simulateFee(messages: EncodeObject[]): Promise<FeeEstimate> {
+  const { address, client } = await initWallet();
+  const gasUsed = await client.simulate(address, messages, undefined);
+  const gasLimit = Math.round(gasUsed * GAS_ADJUSTMENT);
+  const { amount } = calculateFee(gasLimit, GasPrice.fromString(GAS_PRICE));
+  return { gasUsed, gasLimit, fee: { denom: amount[0].denom, amount: amount[0].amount } };
+}
@@ -0,0 +1,69 @@
+import { loadConfig } from "../config.js";
+import { listBasketSummaries, minVintageStart } from "../services/basket.js";
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 6 });
+}
+
+/** Batches shown per basket; the rest are summarised */
+const MAX_BATCHES = 10;
+
+export async function browseBaskets() {
+  try {
+    const summaries = await listBasketSummaries();
+    if (summaries.length === 0) {
+      return {
+        content: [{ type: "text" as const, text: "## Ecocredit Baskets\n\nNo baskets exist on Regen Ledger." }],
+      };
+    }
+
+    const routes = loadConfig().basketRoutes;
+    const lines: string[] = [
+      `## Ecocredit Baskets`,
+      ``,
+      `Basket tokens are fungible claims on the credits a basket holds. Retiring with \`retire_credits\` and \`source: "basket"\` takes the oldest credits first.`,
+      ``,
+    ];
+
+    for (const { basket, classes, contents, totalCredits } of summaries) {
+      const minStart = minVintageStart(basket.date_criteria);
+      lines.push(
+        `### ${basket.name} (\`${basket.basket_denom}\`)`,
+        ``,
+        `| Field | Value |`,
+        `|-------|-------|`,
+        `| Credit Type | ${basket.credit_type_abbrev} |`,
+        `| Accepted Classes | ${classes.length > 0 ? classes.join(", ") : "N/A"} |`,
+        ...(minStart ? [`| Earliest Vintage | ${minStart.slice(0, 4)}-${minStart.slice(4, 6)}-${minStart.slice(6)} |`] : []),
+        `| Credits Held | ${formatAmount(totalCredits)} across ${contents.length} batch(es) |`,
+        `| Purchase Route | ${routes.includes(basket.basket_denom) ? "Sell orders + deposit" : "Wallet basket tokens only"} |`,
+        ``
+      );
+
+      if (contents.length > 0) {
+        lines.push(`| Batch | Credits |`, `|-------|---------|`);
+        for (const b of contents.slice(0, MAX_BATCHES)) {
+          lines.push(`| ${b.batch_denom} | ${formatAmount(parseFloat(b.balance) || 0)} |`);
+        }
+        if (contents.length > MAX_BATCHES) {
+          lines.push(`| …and ${contents.length - MAX_BATCHES} more | |`);
+        }
+        lines.push(``);
+      }
+    }
+
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Error fetching baskets: ${message}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
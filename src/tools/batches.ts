@@ -0,0 +1,167 @@
+import { isWalletConfigured } from "../config.js";
+import {
+  getBatch,
+  getBatchSupply,
+  listBalances,
+  listSellOrders,
+} from "../services/ledger.js";
+import { getProjectDetails, projectIdFromBatchDenom } from "../services/metadata.js";
+import { getAddress } from "../services/wallet.js";
+
+function formatAmount(value: string | number): string {
+  const n = typeof value === "number" ? value : parseFloat(value) || 0;
+  return n.toLocaleString("en-US", { maximumFractionDigits: 6 });
+}
+
+function formatDay(timestamp: string | null | undefined): string {
+  return timestamp ? timestamp.slice(0, 10) : "N/A";
+}
+
+export async function getBatchDetails(batchDenom: string) {
+  try {
+    const batch = await getBatch(batchDenom);
+    if (!batch) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `No credit batch found for denom: ${batchDenom}\n\nBatch denoms look like \`C01-001-20150101-20151231-001\`. Use \`browse_available_credits\` to see batches with active sell orders.`,
+          },
+        ],
+      };
+    }
+
+    const [supply, project, sellOrders] = await Promise.all([
+      getBatchSupply(batch.denom),
+      getProjectDetails(batch.project_id || projectIdFromBatchDenom(batch.denom)).catch(() => null),
+      listSellOrders().catch(() => []),
+    ]);
+
+    const tradable = parseFloat(supply.tradable_amount) || 0;
+    const retired = parseFloat(supply.retired_amount) || 0;
+    const cancelled = parseFloat(supply.cancelled_amount) || 0;
+    const issued = tradable + retired + cancelled;
+    const retiredShare = issued > 0 ? ` (${((retired / issued) * 100).toFixed(1)}%)` : "";
+
+    const orders = sellOrders.filter((o) => o.batch_denom === batch.denom);
+    const listed = orders.reduce((sum, o) => sum + (parseFloat(o.quantity) || 0), 0);
+
+    const meta = project?.metadata;
+    const lines: string[] = [
+      `## Credit Batch ${batch.denom}`,
+      ``,
+      `| Field | Value |`,
+      `|-------|-------|`,
+      `| Project | ${meta?.name ? `${meta.name} (${batch.project_id})` : batch.project_id} |`,
+      ...(meta?.location || project?.jurisdiction
+        ? [`| Location | ${meta?.location || project?.jurisdiction} |`]
+        : []),
+      ...(meta?.methodology ? [`| Methodology | ${meta.methodology} |`] : []),
+      `| Vintage | ${formatDay(batch.start_date)} → ${formatDay(batch.end_date)} |`,
+      `| Issued | ${formatDay(batch.issuance_date)} |`,
+      `| Issuer | ${batch.issuer} |`,
+      ``,
+      `### Supply`,
+      `| State | Credits |`,
+      `|-------|---------|`,
+      `| Issued (total) | ${formatAmount(issued)} |`,
+      `| Retired | ${formatAmount(retired)}${retiredShare} |`,
+      `| Tradable | ${formatAmount(tradable)} |`,
+      `| Cancelled | ${formatAmount(cancelled)} |`,
+      ``,
+    ];
+
+    if (orders.length > 0) {
+      lines.push(
+        `${formatAmount(listed)} credits from this batch are listed in ${orders.length} active sell order(s).`
+      );
+    } else {
+      lines.push(`No active sell orders for this batch.`);
+    }
+
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Error fetching batch details: ${message}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+export async function getWalletCredits(address?: string) {
+  try {
+    if (!address && !isWalletConfigured()) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: "Provide a Regen address (regen1...) or configure REGEN_WALLET_MNEMONIC to see the credits held by this server's wallet.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const owner = address ?? (await getAddress());
+    const balances = (await listBalances(owner)).filter(
+      (b) =>
+        (parseFloat(b.tradable_amount) || 0) > 0 ||
+        (parseFloat(b.retired_amount) || 0) > 0 ||
+        (parseFloat(b.escrowed_amount) || 0) > 0
+    );
+
+    if (balances.length === 0) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `## Ecocredits Held by ${owner}\n\nThis address holds no ecocredits.`,
+          },
+        ],
+      };
+    }
+
+    let totalTradable = 0;
+    let totalRetired = 0;
+    const lines: string[] = [
+      `## Ecocredits Held by ${owner}`,
+      ``,
+      `| Batch | Tradable | Retired | In Sell Orders |`,
+      `|-------|----------|---------|----------------|`,
+    ];
+    for (const b of balances) {
+      totalTradable += parseFloat(b.tradable_amount) || 0;
+      totalRetired += parseFloat(b.retired_amount) || 0;
+      lines.push(
+        `| ${b.batch_denom} | ${formatAmount(b.tradable_amount)} | ${formatAmount(b.retired_amount)} | ${formatAmount(b.escrowed_amount)} |`
+      );
+    }
+    lines.push(``);
+    lines.push(
+      `**Total**: ${formatAmount(totalTradable)} tradable, ${formatAmount(totalRetired)} retired across ${balances.length} batch(es).`
+    );
+    lines.push(``);
+    lines.push(`Use \`get_batch_details\` for the project, vintage, and supply of any batch.`);
+
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Error fetching ecocredit balances: ${message}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
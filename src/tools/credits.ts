@@ -4,6 +4,11 @@ import {
   listProjects,
 } from "../services/ledger.js";
 import { getRecentOrders } from "../services/indexer.js";
+import { resolveMetadata } from "../services/metadata.js";
+import { getPolicyScreen } from "../services/procurement-policy.js";
+
+/** Projects per class whose metadata we resolve and list by name */
+const PROJECTS_SHOWN_PER_CLASS = 3;
 
 // Map credit type abbreviations to human-readable names
 const CREDIT_TYPE_NAMES: Record<string, string> = {
@@ -19,12 +24,16 @@ export async function browseAvailableCredits(
   maxResults: number
 ) {
   try {
-    const [classes, sellOrders, projects, recentOrders] = await Promise.all([
+    const [classes, sellOrders, projects, recentOrders, screen] = await Promise.all([
       listCreditClasses(),
       listSellOrders().catch(() => []),
       listProjects(),
       getRecentOrders(5).catch(() => []),
+      getPolicyScreen(),
     ]);
+    const orderBlockReason = new Map(
+      sellOrders.map((o) => [o.id, screen?.batchReason(o.batch_denom) ?? null])
+    );
 
     // Filter classes by credit type if specified
     const filteredClasses =
@@ -47,19 +56,25 @@ export async function browseAvailableCredits(
       projectsByClass.set(project.class_id, existing);
     }
 
-    // Aggregate sell order data by credit type
+    // Aggregate sell order data by credit type; orders the procurement
+    // policy blocks are counted apart from what can be bought
     const classLookup = new Map(classes.map((c) => [c.id, c]));
-    const sellOrdersByType = new Map<string, { quantity: number; count: number }>();
+    const sellOrdersByType = new Map<string, { quantity: number; count: number; blocked: number }>();
     for (const order of sellOrders) {
       // batch_denom format: C01-001-... → class is the prefix before first dash-digit
       const classId = order.batch_denom.replace(/-\d.*$/, "");
       const cls = classLookup.get(classId);
       const typeAbbrev = cls?.credit_type_abbrev || "Other";
-      const existing = sellOrdersByType.get(typeAbbrev) || { quantity: 0, count: 0 };
-      existing.quantity += parseFloat(order.quantity) || 0;
-      existing.count += 1;
+      const existing = sellOrdersByType.get(typeAbbrev) || { quantity: 0, count: 0, blocked: 0 };
+      if (orderBlockReason.get(order.id)) {
+        existing.blocked += 1;
+      } else {
+        existing.quantity += parseFloat(order.quantity) || 0;
+        existing.count += 1;
+      }
       sellOrdersByType.set(typeAbbrev, existing);
     }
+    const blockedCount = [...orderBlockReason.values()].filter(Boolean).length;
 
     const lines: string[] = [
       `## Available Ecocredits on Regen Network`,
@@ -69,14 +84,24 @@ export async function browseAvailableCredits(
       ``,
     ];
 
+    if (screen) {
+      lines.push(
+        `> Your procurement policy excludes ${blockedCount} of ${sellOrders.length} sell order(s). ` +
+          `Excluded classes, projects and orders are marked with the reason; \`retire_credits\` never buys them.`,
+        ``
+      );
+    }
+
     // Live marketplace snapshot from sell orders
     if (sellOrdersByType.size > 0) {
       lines.push(`### Marketplace Snapshot (Live)`);
-      lines.push(`| Credit Type | Available Credits | Sell Orders |`);
-      lines.push(`|-------------|-------------------|-------------|`);
+      lines.push(`| Credit Type | Available Credits | Sell Orders |${screen ? " Excluded by Policy |" : ""}`);
+      lines.push(`|-------------|-------------------|-------------|${screen ? "--------------------|" : ""}`);
       for (const [abbrev, stats] of sellOrdersByType) {
         const name = CREDIT_TYPE_NAMES[abbrev] || abbrev;
-        lines.push(`| ${name} | ${stats.quantity.toLocaleString(undefined, { maximumFractionDigits: 1 })} | ${stats.count} |`);
+        lines.push(
+          `| ${name} | ${stats.quantity.toLocaleString(undefined, { maximumFractionDigits: 1 })} | ${stats.count} |${screen ? ` ${stats.blocked} |` : ""}`
+        );
       }
       lines.push(``);
     }
@@ -97,28 +122,66 @@ export async function browseAvailableCredits(
       lines.push(``);
     }
 
-    // List credit classes with project counts
+    // List credit classes with project counts and resolved metadata
+    const shownClasses = filteredClasses.slice(0, maxResults);
+    const classDetails = await Promise.all(
+      shownClasses.map(async (cls) => {
+        const classProjects = projectsByClass.get(cls.id) || [];
+        const [metadata, projectMetadata] = await Promise.all([
+          resolveMetadata(cls.metadata),
+          Promise.all(
+            classProjects
+              .slice(0, PROJECTS_SHOWN_PER_CLASS)
+              .map(async (p) => ({ project: p, metadata: await resolveMetadata(p.metadata) }))
+          ),
+        ]);
+        return { cls, classProjects, metadata, projectMetadata };
+      })
+    );
+
     lines.push(`### Credit Classes`);
-    for (const cls of filteredClasses.slice(0, maxResults)) {
+    for (const { cls, classProjects, metadata, projectMetadata } of classDetails) {
       const typeName =
         CREDIT_TYPE_NAMES[cls.credit_type_abbrev] || cls.credit_type_abbrev;
-      const classProjects = projectsByClass.get(cls.id) || [];
       const jurisdictions = [
         ...new Set(classProjects.map((p) => p.jurisdiction)),
       ];
 
-      lines.push(`**${cls.id}** — ${typeName}`);
+      lines.push(
+        `**${cls.id}** — ${typeName}${metadata?.name ? `: ${metadata.name}` : ""}`
+      );
+      const classBlockReason = screen?.classReason(cls.id);
+      if (classBlockReason) {
+        lines.push(`  - Excluded by procurement policy: ${classBlockReason}`);
+      }
+      if (metadata?.methodology) {
+        lines.push(`  - Methodology: ${metadata.methodology}`);
+      }
       lines.push(
         `  - ${classProjects.length} project(s) in ${jurisdictions.join(", ") || "N/A"}`
       );
+      for (const { project, metadata: pm } of projectMetadata) {
+        const location = pm?.location || project.jurisdiction;
+        const coBenefits = pm?.coBenefits.length
+          ? ` (co-benefits: ${pm.coBenefits.join(", ")})`
+          : "";
+        // The class line already says when the whole class is excluded
+        const projectBlockReason = classBlockReason ? null : screen?.projectReason(project.id);
+        lines.push(
+          `  - ${pm?.name ? `**${pm.name}** (${project.id})` : `**${project.id}**`} — ${location}${coBenefits}` +
+            (projectBlockReason ? ` — excluded: ${projectBlockReason}` : "")
+        );
+      }
       lines.push(``);
     }
 
     if (sellOrders.length > 0) {
       lines.push(`### Active Sell Orders`);
       for (const order of sellOrders.slice(0, maxResults)) {
+        const blockReason = orderBlockReason.get(order.id);
         lines.push(
-          `- **${order.batch_denom}**: ${order.quantity} credits at ${order.ask_amount} ${order.ask_denom}`
+          `- **${order.batch_denom}**: ${order.quantity} credits at ${order.ask_amount} ${order.ask_denom}` +
+            (blockReason ? ` — excluded: ${blockReason}` : "")
         );
       }
     } else {
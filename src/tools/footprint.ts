@@ -1,28 +1,236 @@
-import { estimateFootprint } from "../services/estimator.js";
+import {
+  estimateFootprint,
+  type FootprintEstimate,
+  type ModelTokenUsage,
+} from "../services/estimator.js";
+import { listMethodologies, CURRENT_METHODOLOGY_ID } from "../services/methodology.js";
+import { quoteMarketCost, type MarketCostQuote } from "../services/market-cost.js";
+import { loadPolicies, evaluatePolicies, formatPolicyEvaluations } from "../services/auto-retire.js";
+import { loadConfig } from "../config.js";
+import {
+  recordEstimate,
+  buildFootprintReport,
+  formatFootprintReport,
+  type FootprintPeriod,
+} from "../services/footprint-ledger.js";
+
+function formatMarketQuote(quote: MarketCostQuote): string[] {
+  const lines: string[] = [
+    `### Live Market Cost`,
+    `| Credit type | Credits | Cost (USD) | Per credit | Priced in | Source |`,
+    `|-------------|---------|------------|------------|-----------|--------|`,
+  ];
+  for (const o of quote.options) {
+    lines.push(
+      `| ${o.credit_type} | ${o.quantity} | ${o.cost_usd === null ? "n/a" : `$${o.cost_usd}`} | ${o.usd_per_credit === null ? "n/a" : `$${o.usd_per_credit}`} | ${o.payment_denom ?? "-"} | ${o.source}${o.note ? ` — ${o.note}` : ""} |`
+    );
+  }
+  lines.push(``);
+  if (quote.regen_usd_price !== null) {
+    lines.push(`REGEN asks converted at $${quote.regen_usd_price}/REGEN. Quoted ${quote.quoted_at}.`, ``);
+  }
+  lines.push(
+    `> Biodiversity and USS credits are not tonne-denominated; they are quoted for the same number of credits as an alternative contribution.`,
+    ``
+  );
+  return lines;
+}
 
 export async function estimateSessionFootprint(
   sessionMinutes: number,
-  toolCalls?: number
+  toolCalls?: number,
+  usage?: ModelTokenUsage[],
+  region?: string,
+  projectTag?: string,
+  includeEmbodied?: boolean,
+  methodology?: string,
+  marketQuote?: boolean
 ) {
-  const estimate = estimateFootprint(sessionMinutes, toolCalls);
+  const config = loadConfig();
+  let estimate: FootprintEstimate;
+  try {
+    estimate = estimateFootprint(sessionMinutes, toolCalls, {
+      usage,
+      region: region ?? config.footprintRegion,
+      includeEmbodied: includeEmbodied ?? config.footprintIncludeEmbodied,
+      methodology: methodology ?? config.footprintMethodology,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { content: [{ type: "text" as const, text: msg }], isError: true };
+  }
+  const recorded = recordEstimate(estimate, { projectTag });
+  const grid = estimate.grid_intensity;
+  const gridLabel = grid.cloud_provider
+    ? `${grid.requested_region} (${grid.cloud_provider}) → ${grid.name}`
+    : grid.name;
 
-  const text = [
+  const lines: string[] = [
     `## Estimated Session Ecological Footprint`,
     ``,
     `| Metric | Value |`,
     `|--------|-------|`,
-    `| Session duration | ${estimate.session_minutes} minutes |`,
-    `| Estimated queries | ~${estimate.estimated_queries} |`,
+  ];
+
+  if (estimate.session_minutes > 0) {
+    lines.push(`| Session duration | ${estimate.session_minutes} minutes |`);
+  }
+  if (estimate.basis === "duration") {
+    lines.push(`| Estimated queries | ~${estimate.estimated_queries} |`);
+  } else {
+    lines.push(`| Estimation basis | Token counts (energy table ${estimate.energy_table_version}) |`);
+  }
+
+  lines.push(
     `| Energy consumption | ~${estimate.energy_kwh} kWh |`,
+    `| Grid region | ${gridLabel} |`,
+    `| Grid intensity | ${grid.kg_co2_per_kwh} kg CO2/kWh (${grid.source}, ${grid.source_year}) |`,
     `| CO2 equivalent | ~${estimate.co2_kg} kg |`,
+    `| Embodied hardware CO2 | ~${estimate.embodied.co2_kg} kg${estimate.embodied.included_in_retirement ? " (included below)" : ""} |`,
+    `| Water consumption | ~${estimate.water.total_litres} L (${estimate.water.onsite_litres} L on-site cooling, ${estimate.water.offsite_litres} L electricity generation) |`,
+    `| Methodology | ${estimate.methodology_id} |`,
     `| Equivalent carbon credits | ~${estimate.equivalent_carbon_credits} credits |`,
     `| Estimated retirement cost | ~$${estimate.equivalent_cost_usd} |`,
+    ``
+  );
+
+  if (marketQuote) {
+    lines.push(...formatMarketQuote(await quoteMarketCost(estimate.equivalent_carbon_credits, estimate.methodology_id)));
+  }
+
+  if (estimate.model_breakdown) {
+    lines.push(
+      `### Per-Model Breakdown`,
+      `| Model | Family | Input | Output | Cached | Energy (kWh) |`,
+      `|-------|--------|-------|--------|--------|--------------|`
+    );
+    for (const m of estimate.model_breakdown) {
+      lines.push(
+        `| ${m.model} | ${m.family} | ${m.input_tokens.toLocaleString()} | ${m.output_tokens.toLocaleString()} | ${m.cached_tokens.toLocaleString()} | ${m.energy_kwh} |`
+      );
+    }
+    lines.push(``);
+  }
+
+  const { uncertainty } = estimate;
+  const share = (p: { variance_share: number }) => `${Math.round(p.variance_share * 100)}%`;
+  const dominant = uncertainty.parameters.find((p) => p.parameter === uncertainty.dominant_parameter)!;
+  lines.push(
+    `### Uncertainty Range`,
+    `| Metric | Low | Central | High |`,
+    `|--------|-----|---------|------|`,
+    `| Energy (kWh) | ${uncertainty.energy_kwh.low} | ${uncertainty.energy_kwh.central} | ${uncertainty.energy_kwh.high} |`,
+    `| CO2 (kg) | ${uncertainty.co2_kg.low} | ${uncertainty.co2_kg.central} | ${uncertainty.co2_kg.high} |`,
+    `| Retirement cost (USD) | $${uncertainty.cost_usd.low} | $${uncertainty.cost_usd.central} | $${uncertainty.cost_usd.high} |`,
+    ``,
+    `| Parameter | Low | Central | High | Share of variance |`,
+    `|-----------|-----|---------|------|-------------------|`
+  );
+  for (const p of uncertainty.parameters) {
+    lines.push(`| ${p.parameter} (${p.unit}) | ${p.low} | ${p.central} | ${p.high} | ${share(p)} |`);
+  }
+  lines.push(
     ``,
+    `Most of the uncertainty comes from **${dominant.parameter}** (${share(dominant)} of variance).`,
+    ``
+  );
+
+  lines.push(
+    `> Water: ${estimate.water.wue_l_per_kwh} L/kWh on-site (WUE) + ${estimate.water.ewif_l_per_kwh} L/kWh off-site; ${estimate.water.source}.`,
+    `> Embodied: ${estimate.embodied.kg_co2_per_kwh} kg CO2/kWh; ${estimate.embodied.source}.` +
+      (estimate.embodied.included_in_retirement
+        ? ` Counted in the suggested credits and cost.`
+        : ` Not counted in the suggested credits — pass include_embodied to add it.`),
+    ``
+  );
+
+  if (grid.fallback && grid.requested_region) {
+    lines.push(
+      `> No grid factor for region "${grid.requested_region}" in this methodology's dataset; using the ${grid.name} factor instead.`,
+      ``
+    );
+  }
+
+  if (recorded) {
+    lines.push(
+      `Recorded in the local footprint ledger${projectTag ? ` under project "${projectTag}"` : ""}. Use \`get_footprint_report\` to see accumulated totals.`,
+      ``
+    );
+  }
+
+  lines.push(
     `> **Note**: ${estimate.methodology_note}`,
     ``,
     `To fund ecological regeneration equivalent to this session's footprint, `,
-    `use the \`retire_credits\` tool to retire ecocredits on Regen Network.`,
-  ].join("\n");
+    `use the \`retire_credits\` tool to retire ecocredits on Regen Network.`
+  );
+
+  return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+}
+
+export async function getFootprintReport(
+  period: FootprintPeriod,
+  projectTag?: string,
+  limit?: number
+) {
+  try {
+    const report = buildFootprintReport(period, { projectTag, limit });
+    return { content: [{ type: "text" as const, text: formatFootprintReport(report) }] };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      content: [{ type: "text" as const, text: `Could not read the footprint ledger: ${msg}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function listFootprintMethodologies() {
+  const lines: string[] = [`## Footprint Methodologies`, ``];
+
+  for (const m of listMethodologies()) {
+    const status = m.id === CURRENT_METHODOLOGY_ID ? " (current)" : "";
+    const c = m.constants;
+    lines.push(
+      `### ${m.id}${status}`,
+      ``,
+      `**${m.name}** — version ${m.version}, valid ${m.valid_from} to ${m.valid_until ?? "present"}`,
+      ``,
+      m.description,
+      ``,
+      `| Constant | Value |`,
+      `|----------|-------|`,
+      `| Queries per minute | ${c.queries_per_minute} |`,
+      `| Energy per query | ${c.kwh_per_query} kWh (PUE ${c.pue}) |`,
+      `| Token energy table | ${c.energy_table_version ?? "not used"} |`,
+      `| Grid dataset | ${c.grid_dataset_version ?? "not used"} |`,
+      `| Uncertainty ranges | ${c.uncertainty_version} |`,
+      `| Default grid factor | ${c.default_kg_co2_per_kwh} kg CO2/kWh |`,
+      `| Credit price | $${c.usd_per_tonne_co2}/t CO2 |`,
+      `| Water | ${c.wue_l_per_kwh} L/kWh on-site, ${c.ewif_l_per_kwh} L/kWh off-site |`,
+      `| Embodied hardware | ${c.embodied_kg_co2_per_kwh} kg CO2/kWh |`,
+      ``,
+      `Sources:`,
+      ...m.sources.map((s) => `- ${s}`),
+      ``
+    );
+  }
+
+  lines.push(`Pass \`methodology\` to \`estimate_session_footprint\` to pin one of these.`);
+  return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+}
 
-  return { content: [{ type: "text" as const, text }] };
+export async function previewAutoRetirement() {
+  const policiesPath = loadConfig().autoRetirePoliciesPath;
+  try {
+    const policies = policiesPath ? loadPolicies(policiesPath) : [];
+    const results = await evaluatePolicies(policies, { dryRun: true });
+    return { content: [{ type: "text" as const, text: formatPolicyEvaluations(results, true) }] };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      content: [{ type: "text" as const, text: `Could not evaluate auto-contribution policies: ${msg}` }],
+      isError: true,
+    };
+  }
 }
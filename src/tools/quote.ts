@@ -0,0 +1,54 @@
+import { createQuote, QuoteError, type Quote } from "../services/quote.js";
+import { formatAmount } from "../services/retirement.js";
+
+/** Markdown for a quote: fill plan, total, and expiry */
+export function formatQuote(quote: Quote): string {
+  const total = formatAmount(quote.totalCostMicro, quote.exponent, quote.displayDenom);
+  const rates = quote.rates.map((r) => `1 ${r.displayDenom} = $${r.usdPerUnit}`).join(", ");
+  const lines: string[] = [
+    `| Field | Value |`,
+    `|-------|-------|`,
+    `| Quote ID | \`${quote.id}\` |`,
+    `| Credits | ${quote.quantity}${quote.creditClass ? ` (${quote.creditClass})` : ""} |`,
+    `| Total Cost | ${total}${quote.costUsd !== null ? ` (≈ $${quote.costUsd.toFixed(2)})` : ""} |`,
+    ...(quote.rates.length > 0 ? [`| USD Rates | ${rates} (${quote.rates[0].source}) |`] : []),
+    ...(quote.strategies.length > 0 ? [`| Strategy | ${quote.strategies.join(", ")} |`] : []),
+    `| Expires | ${quote.expiresAt} |`,
+    ``,
+    `| Sell Order | Batch | Quantity | Ask per Credit | Cost |`,
+    `|------------|-------|----------|----------------|------|`,
+  ];
+  for (const o of quote.orders) {
+    lines.push(
+      `| ${o.sellOrderId} | ${o.batchDenom} | ${o.quantity} | ${formatAmount(BigInt(o.askAmount), quote.exponent, quote.displayDenom)} | ${formatAmount(o.costMicro, quote.exponent, quote.displayDenom)} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+export async function getRetirementQuote(creditClass: string | undefined, quantity: number, strategy?: string[]) {
+  try {
+    const quote = await createQuote({ creditClass, quantity, strategies: strategy });
+    const text = [
+      `## Retirement Quote`,
+      ``,
+      formatQuote(quote),
+      ``,
+      `Call \`retire_credits\` with \`quote_id: "${quote.id}"\` before it expires to buy exactly these orders.`,
+      `Add \`max_slippage_pct\` or \`max_cost\` to accept a re-priced fill if the order book moves first.`,
+    ].join("\n");
+    return { content: [{ type: "text" as const, text }] };
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: error instanceof QuoteError ? message : `Error creating quote: ${message}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
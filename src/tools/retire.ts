@@ -3,7 +3,9 @@
  *
  * Two execution paths:
  *   Path A (no wallet configured): Return marketplace link (backward compatible)
- *   Path B (wallet configured): Execute on-chain MsgBuyDirect with auto-retire
+ *   Path B (wallet configured): Execute on-chain MsgBuyDirect with auto-retire,
+ *     MsgRetire for credits the wallet already holds (source "wallet"), or
+ *     MsgTake with retire-on-take from a basket (source "basket")
  *
  * Every error in Path B returns a fallback marketplace link so the user is never stuck.
  *
@@ -12,7 +14,44 @@
  */
 
 import { loadConfig } from "../config.js";
-import { executeRetirement, type RetirementResult } from "../services/retirement.js";
+import {
+  executeRetirement,
+  type RetirementParams,
+  type RetirementResult,
+} from "../services/retirement.js";
+import { recordRetirement } from "../services/footprint-ledger.js";
+import { formatQuote } from "./quote.js";
+
+/** Cost with its USD value, when the fill was compared across denoms */
+function costWithUsd(result: RetirementResult): string | undefined {
+  return result.cost && result.costUsd !== undefined
+    ? `${result.cost} (≈ $${result.costUsd.toFixed(2)})`
+    : result.cost;
+}
+
+/** Sell orders and held batches the procurement policy kept out, as a section */
+function blockedSection(result: RetirementResult): string[] {
+  const orders = result.blocked ?? [];
+  const batches = result.blockedBatches ?? [];
+  if (orders.length === 0 && batches.length === 0) return [];
+  const lines = [``, `### Excluded by Procurement Policy`];
+  if (orders.length > 0) {
+    lines.push(``, `| Order | Batch | Reason |`, `|-------|-------|--------|`);
+    for (const b of orders) lines.push(`| ${b.sellOrderId} | ${b.batchDenom} | ${b.reason} |`);
+  }
+  if (batches.length > 0) {
+    lines.push(``, `| Held Batch | Reason |`, `|------------|--------|`);
+    for (const b of batches) lines.push(`| ${b.batchDenom} | ${b.reason} |`);
+  }
+  return lines;
+}
+
+/** The USD rates the fill was chosen with, as a table row */
+function ratesRow(result: RetirementResult): string[] {
+  if (!result.rates || result.rates.length === 0) return [];
+  const rates = result.rates.map((r) => `1 ${r.displayDenom} = $${r.usdPerUnit}`).join(", ");
+  return [`| USD Rates | ${rates} (${result.rates[0].source}) |`];
+}
 
 function resultToMarkdown(result: RetirementResult): { content: Array<{ type: "text"; text: string }> } {
   if (result.status === "marketplace_fallback") {
@@ -22,6 +61,22 @@ function resultToMarkdown(result: RetirementResult): { content: Array<{ type: "t
     );
   }
 
+  if (result.status === "dry_run") return previewToMarkdown(result);
+  if (result.status === "quote_rejected") {
+    const lines = [`## Quote Not Executed`, ``, `> ${result.message}`];
+    if (result.requote) {
+      lines.push(
+        ``,
+        `### New Quote`,
+        ``,
+        formatQuote(result.requote),
+        ``,
+        `Call \`retire_credits\` with \`quote_id: "${result.requote.id}"\` to accept it.`
+      );
+    }
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  }
+
   // Success path
   const lines: string[] = [
     `## Ecocredit Retirement Successful`,
@@ -31,11 +86,17 @@ function resultToMarkdown(result: RetirementResult): { content: Array<{ type: "t
     `| Field | Value |`,
     `|-------|-------|`,
     `| Credits Retired | ${result.creditsRetired} |`,
-    `| Cost | ${result.cost} |`,
+    result.source === "wallet"
+      ? `| Source | Wallet balance (${(result.batches ?? []).map((b) => b.batchDenom).join(", ")}) |`
+      : result.source === "basket"
+        ? `| Source | Basket ${result.basketDenom}${result.cost ? ` (bought and deposited for ${result.cost})` : ""} |`
+        : `| Cost | ${costWithUsd(result)} |`,
+    ...ratesRow(result),
     `| Jurisdiction | ${result.jurisdiction} |`,
     `| Reason | ${result.reason} |`,
     `| Transaction Hash | \`${result.txHash}\` |`,
     `| Block Height | ${result.blockHeight} |`,
+    ...(result.quoteId ? [`| Quote | \`${result.quoteId}\` |`] : []),
   ];
 
   if (result.beneficiaryName) {
@@ -64,6 +125,13 @@ function resultToMarkdown(result: RetirementResult): { content: Array<{ type: "t
     );
   }
 
+  const explained = (result.batches ?? []).filter((b) => b.reason);
+  if (explained.length > 0) {
+    lines.push(``, `### Why These Orders`, ``, `| Batch | Quantity | Why |`, `|-------|----------|-----|`);
+    for (const b of explained) lines.push(`| ${b.batchDenom} | ${b.quantity} | ${b.reason} |`);
+  }
+  lines.push(...blockedSection(result));
+
   lines.push(
     ``,
     `This retirement is permanently recorded on Regen Ledger and cannot be altered or reversed.`
@@ -72,6 +140,56 @@ function resultToMarkdown(result: RetirementResult): { content: Array<{ type: "t
   return { content: [{ type: "text" as const, text: lines.join("\n") }] };
 }
 
+function previewToMarkdown(result: RetirementResult): { content: Array<{ type: "text"; text: string }> } {
+  const preview = result.preview!;
+  const lines: string[] = [
+    `## Retirement Preview (dry run)`,
+    ``,
+    `Nothing was paid or broadcast. This is the transaction \`retire_credits\` would send.`,
+    ``,
+    `| Field | Value |`,
+    `|-------|-------|`,
+    `| Source | ${result.source === "basket" ? `Basket ${result.basketDenom}` : result.source} |`,
+    `| Credits Retired | ${result.creditsRetired} |`,
+    `| Cost | ${costWithUsd(result) ?? "None (credits already held)"} |`,
+    ...ratesRow(result),
+    `| Network Fee | ${preview.fee ?? "Unknown (simulation failed)"} |`,
+    ...(preview.gasUsed !== null ? [`| Gas | ${preview.gasUsed} used, limit ${preview.gasLimit} |`] : []),
+    `| Jurisdiction | ${result.jurisdiction} |`,
+    `| Reason | ${result.reason} |`,
+    `| Messages | ${preview.messages.map((m) => m.split(".").pop()).join(", ")} |`,
+  ];
+
+  if (preview.orders.length > 0) {
+    lines.push(``, `### Sell Orders`, ``, `| Order | Batch | Quantity | Cost | Why |`, `|-------|-------|----------|------|-----|`);
+    for (const o of preview.orders) {
+      lines.push(`| ${o.sellOrderId} | ${o.batchDenom} | ${o.quantity} | ${o.cost} | ${o.reason ?? ""} |`);
+    }
+  } else if (result.batches && result.batches.length > 0) {
+    lines.push(``, `### Batches`, ``, `| Batch | Quantity |`, `|-------|----------|`);
+    for (const b of result.batches) lines.push(`| ${b.batchDenom} | ${b.quantity} |`);
+  }
+  lines.push(...blockedSection(result));
+
+  if (preview.balances.length > 0) {
+    lines.push(``, `### Wallet Balance`, ``, `| Denom | Available | Required | Covered |`, `|-------|-----------|----------|---------|`);
+    for (const b of preview.balances) {
+      lines.push(`| ${b.denom} | ${b.available} | ${b.required} | ${b.sufficient ? "Yes" : "No"} |`);
+    }
+  }
+
+  lines.push(``);
+  if (preview.simulationError) {
+    lines.push(`> The simulation failed, so broadcasting would likely fail too: ${preview.simulationError}`);
+  } else if (preview.balanceSufficient) {
+    lines.push(`The wallet covers this retirement. Call \`retire_credits\` again without \`dry_run\` to execute it.`);
+  } else {
+    lines.push(`> The wallet balance does not cover this retirement. Fund the wallet before executing it.`);
+  }
+
+  return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+}
+
 function marketplaceFallback(
   message: string,
   beneficiaryName?: string
@@ -125,7 +243,11 @@ export async function retireCredits(
   quantity?: number,
   beneficiaryName?: string,
   jurisdiction?: string,
-  reason?: string
+  reason?: string,
+  options: Pick<
+    RetirementParams,
+    "source" | "batchDenom" | "basketDenom" | "dryRun" | "quoteId" | "maxCost" | "maxSlippagePct" | "strategy"
+  > = {}
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   const result = await executeRetirement({
     creditClass,
@@ -133,6 +255,8 @@ export async function retireCredits(
     beneficiaryName,
     jurisdiction,
     reason,
+    ...options,
   });
+  recordRetirement(result, { creditClass });
   return resultToMarkdown(result);
 }